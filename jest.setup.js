@@ -0,0 +1,6 @@
+// Keep the store singletons in memory and off any configured provider
+process.env.STORAGE_BACKEND = 'memory';
+process.env.EMBEDDING_PROVIDER = 'local';
+process.env.OPENAI_API_KEY = '';
+process.env.GROQ_API_KEY = '';
+process.env.DOTENV_CONFIG_QUIET = 'true';
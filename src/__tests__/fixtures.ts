@@ -0,0 +1,42 @@
+import { Document, DocumentChunk } from '../core/types';
+
+/**
+ * A stored document with fixed dates; `metadata` overrides the defaults.
+ */
+export const makeDocument = (
+  id: string,
+  content: string,
+  metadata: Partial<Document['metadata']> = {},
+  extra: Partial<Omit<Document, 'id' | 'content' | 'metadata'>> = {}
+): Document => ({
+  id,
+  content,
+  metadata: {
+    filename: `${id}.txt`,
+    fileType: '.txt',
+    size: content.length,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    processedAt: new Date('2024-01-02T00:00:00Z'),
+    ...metadata,
+  },
+  ...extra,
+});
+
+
+/**
+ * The document's content split into one chunk per paragraph, with offsets.
+ */
+export const paragraphChunks = (document: Document): DocumentChunk[] => {
+  let offset = 0;
+  return document.content.split('\n\n').map((content, index) => {
+    const chunk: DocumentChunk = {
+      id: `${document.id}-${index}`,
+      documentId: document.id,
+      content,
+      index,
+      metadata: { startChar: offset, endChar: offset + content.length },
+    };
+    offset += content.length + 2;
+    return chunk;
+  });
+};
@@ -0,0 +1,50 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * Serves `router` at `mountPath` on a free local port for the tests of the
+ * calling file, parsing JSON bodies as both servers do. Requests resolve to
+ * the status and the parsed JSON reply.
+ */
+export const serveRouter = (mountPath: string, router: express.Router) => {
+  let server: Server;
+  let baseUrl = '';
+
+  beforeAll(done => {
+    const app = express();
+    app.use(express.json());
+    app.use(mountPath, router);
+    server = app.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  const request = async (method: string, url: string, body?: unknown): Promise<TestResponse> => {
+    const response = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : undefined };
+  };
+
+  return {
+    get: (url: string) => request('GET', url),
+    post: (url: string, body?: unknown) => request('POST', url, body),
+    put: (url: string, body?: unknown) => request('PUT', url, body),
+    patch: (url: string, body?: unknown) => request('PATCH', url, body),
+    delete: (url: string) => request('DELETE', url),
+  };
+};
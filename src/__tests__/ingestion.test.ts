@@ -0,0 +1,77 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { DocumentIntelligenceSystem } from '../index';
+import { documentStore } from '../core/types';
+import { logger } from '../utils/logger';
+
+describe('file ingestion', () => {
+  const system = new DocumentIntelligenceSystem();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doc-intel-ingest-'));
+    for (const method of ['info', 'success', 'warn', 'error'] as const) {
+      jest.spyOn(logger, method).mockImplementation(() => undefined);
+    }
+    // Processors report progress on the console
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    documentStore.clear();
+    fs.removeSync(dir);
+  });
+
+  const write = (name: string, content: string): string => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  it('skips unchanged files and revises changed ones in place', async () => {
+    const filePath = write('notes.txt', 'First draft of the notes.');
+
+    const added = await system.processFile(filePath);
+    const unchanged = await system.processFile(filePath);
+    write('notes.txt', 'Second draft of the notes.');
+    const updated = await system.processFile(filePath);
+
+    expect([added?.status, unchanged?.status, updated?.status]).toEqual(['added', 'unchanged', 'updated']);
+    expect(new Set([added?.documentId, unchanged?.documentId, updated?.documentId]).size).toBe(1);
+    const document = documentStore.getDocument(added!.documentId)!;
+    expect(document.metadata.version).toBe(2);
+    expect(document.metadata.sourcePath).toBe(path.resolve(filePath));
+  });
+
+  it('keeps the same path in different collections apart', async () => {
+    const filePath = write('notes.txt', 'Shared notes.');
+
+    const first = await system.processFile(filePath, { collection: 'a' });
+    const second = await system.processFile(filePath, { collection: 'b' });
+
+    expect(second?.status).toBe('added');
+    expect(second?.documentId).not.toBe(first?.documentId);
+  });
+
+  it('matches uploads by content and collection, without recording the temporary path', async () => {
+    // Each upload arrives under a fresh temporary name, as multer stores them
+    let uploads = 0;
+    const upload = (content: string, filename: string, collection?: string) =>
+      system.processFile(write(`document-${++uploads}.txt`, content), { filename, upload: true, collection });
+
+    const added = await upload('Quarterly report.', 'report.txt');
+    const unchanged = await upload('Quarterly report.', 'report.txt');
+    const unrelated = await upload('Minutes of the board meeting.', 'report.txt');
+    const elsewhere = await upload('Quarterly report.', 'report.txt', 'archive');
+
+    expect([added?.status, unchanged?.status, unrelated?.status, elsewhere?.status]).toEqual(['added', 'unchanged', 'added', 'added']);
+    expect(unchanged?.documentId).toBe(added?.documentId);
+    expect(new Set([added?.documentId, unrelated?.documentId, elsewhere?.documentId]).size).toBe(3);
+    const document = documentStore.getDocument(added!.documentId)!;
+    expect(document.content).toBe('Quarterly report.');
+    expect(document.metadata.filename).toBe('report.txt');
+    expect(document.metadata.sourcePath).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { StreamOptions } from '../core/models';
+import { CachedAnalysis, Document, documentStore } from '../core/types';
+import { SummaryAnalyzer, SummaryResult } from './SummaryAnalyzer';
+import { InsightAnalyzer, InsightAnalysisResult, KeywordExtractionResult } from './InsightAnalyzer';
+
+export type AnalysisStep = 'summary' | 'keywords' | 'insights' | 'questions';
+
+export const ANALYSIS_STEPS: AnalysisStep[] = ['summary', 'keywords', 'insights', 'questions'];
+
+/**
+ * A step of the analysis starting or completing. `index` counts from 1 up to
+ * `total`; a completed step carries its result.
+ */
+export interface AnalysisProgress {
+  step: AnalysisStep;
+  status: 'started' | 'completed';
+  index: number;
+  total: number;
+  result?: SummaryResult | KeywordExtractionResult | InsightAnalysisResult | string[];
+}
+
+export interface AnalysisStreamOptions extends StreamOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/**
+ * The full analysis of a document: summary, keywords, insights and study
+ * questions, run one step after another and saved as the document's cached
+ * analysis. Tokens of every step go to `onToken`, so progress events tell
+ * which step they belong to; aborting stops before the next step.
+ */
+export class AnalysisPipeline {
+  private summaryAnalyzer: SummaryAnalyzer;
+  private insightAnalyzer: InsightAnalyzer;
+
+  constructor() {
+    this.summaryAnalyzer = new SummaryAnalyzer();
+    this.insightAnalyzer = new InsightAnalyzer();
+  }
+
+  public async analyze(document: Document, options: AnalysisStreamOptions = {}): Promise<CachedAnalysis> {
+    const { onProgress, ...stream } = options;
+    const run = async <T extends AnalysisProgress['result']>(step: AnalysisStep, work: () => Promise<T>): Promise<T> => {
+      stream.signal?.throwIfAborted();
+      const progress = { step, index: ANALYSIS_STEPS.indexOf(step) + 1, total: ANALYSIS_STEPS.length };
+      onProgress?.({ ...progress, status: 'started' });
+      const result = await work();
+      // The insight steps fall back to defaults on failure, cancellation included
+      stream.signal?.throwIfAborted();
+      onProgress?.({ ...progress, status: 'completed', result });
+      return result;
+    };
+
+    const summary = await run('summary', () => this.summaryAnalyzer.summarizeDocument(document, {}, stream));
+    const keywords = await run('keywords', () => this.insightAnalyzer.extractKeywords(document, stream));
+    const insights = await run('insights', () => this.insightAnalyzer.analyzeInsights(document, stream));
+    const questions = await run('questions', () => this.insightAnalyzer.generateQuestions(document, stream));
+
+    const analysis: CachedAnalysis = {
+      documentId: document.id,
+      contentHash: document.metadata.contentHash,
+      analyzedAt: new Date(),
+      summary,
+      keywords,
+      insights,
+      questions,
+    };
+    documentStore.saveAnalysis(analysis);
+    return analysis;
+  }
+}
+
+export const analysisPipeline = new AnalysisPipeline();
@@ -0,0 +1,179 @@
+import { config } from '../core/config';
+import { ModelManager, StreamOptions } from '../core/models';
+import { SessionReferenceError, SessionStore, sessionStore } from '../core/sessions';
+import { ChatSession, ChatTurn, documentStore } from '../core/types';
+import { logger } from '../utils/logger';
+import { CorpusQAResult, QAOptions, QAResult, questionAnswerer } from './QuestionAnswerer';
+
+export interface ChatReply {
+  session: ChatSession;
+  turn: ChatTurn;
+  result: QAResult | CorpusQAResult;
+}
+
+// Rough characters per token, close enough for budgeting prompt history
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Answers questions within a chat session. Follow-ups are condensed into
+ * standalone questions using the recent turns, so retrieval sees "the notice
+ * period of the second contract" rather than "and the second one?"; each turn
+ * is saved with its citations.
+ */
+export class ChatEngine {
+  private modelManager: ModelManager;
+
+  constructor(private readonly sessions: SessionStore) {
+    this.modelManager = ModelManager.getInstance();
+  }
+
+  /**
+   * With `stream.onToken`, the answer is passed on as the model writes it. A
+   * turn is saved only once the answer is complete.
+   */
+  public async ask(
+    sessionId: string,
+    question: string,
+    options: QAOptions = {},
+    stream: StreamOptions = {}
+  ): Promise<ChatReply> {
+    const session = this.sessions.getSession(sessionId);
+    if (!session) {
+      throw new SessionReferenceError(`Chat session not found: ${sessionId}`);
+    }
+
+    const history = recentHistory(session.turns, config.settings.chatHistoryTokens);
+    const standaloneQuestion = await this.condense(question, history, stream.signal);
+    stream.signal?.throwIfAborted();
+    const result = await this.answer(session, standaloneQuestion, options, stream);
+
+    const turn: ChatTurn = {
+      question,
+      standaloneQuestion,
+      answer: result.answer,
+      found: result.found,
+      citations: result.citations.map(citation => ({
+        marker: citation.marker,
+        documentId: citation.documentId,
+        filename: citation.filename,
+        chunkId: citation.chunkId,
+        startChar: citation.startChar,
+        endChar: citation.endChar,
+        page: citation.page,
+      })),
+      groundedness: result.grounding?.score,
+      askedAt: new Date(),
+    };
+    // The session may have been deleted while the answer was written
+    const updated = this.sessions.addTurn(session.id, turn);
+    if (!updated) {
+      throw new SessionReferenceError(`Chat session not found: ${sessionId}`);
+    }
+    return { session: updated, turn, result };
+  }
+
+  // Rewrites a follow-up into a question that can be understood without the conversation
+  private async condense(question: string, history: ChatTurn[], signal?: AbortSignal): Promise<string> {
+    if (history.length === 0) {
+      return question;
+    }
+    if (!this.modelManager.hasLLM()) {
+      return withPreviousQuestion(question, history);
+    }
+
+    const transcript = history
+      .map(turn => `User: ${turn.question}\nAssistant: ${turn.answer.replace(/\s*\[[\d,\s]+\]/g, '')}`)
+      .join('\n\n');
+    const prompt = `
+Given the conversation below, rewrite the follow-up question as a standalone question that can be understood without the conversation. Resolve pronouns and references such as "it" or "the second one". If it already stands alone, repeat it unchanged. Reply with the question only.
+
+Conversation:
+${transcript}
+
+Follow-up question: ${question}
+
+Standalone question:`;
+
+    try {
+      const reply = await this.modelManager.generate(prompt, { signal });
+      const condensed = reply.trim().replace(/^["']|["']$/g, '');
+      return condensed || question;
+    } catch (error) {
+      logger.warn(`Could not condense the follow-up question: ${(error as Error).message}`);
+      return withPreviousQuestion(question, history);
+    }
+  }
+
+  private answer(
+    session: ChatSession,
+    question: string,
+    options: QAOptions,
+    stream: StreamOptions
+  ): Promise<QAResult | CorpusQAResult> {
+    const documentIds = session.documentIds?.filter(id => documentStore.getDocument(id));
+    if (session.documentIds && documentIds!.length === 0) {
+      throw new SessionReferenceError('None of the session\'s documents exist any more');
+    }
+    const collections = session.collections?.filter(name => documentStore.getCollection(name));
+    if (session.collections && collections!.length === 0) {
+      throw new SessionReferenceError('None of the session\'s collections exist any more');
+    }
+
+    if (documentIds?.length === 1 && !collections) {
+      return questionAnswerer.answerQuestion(documentStore.getDocument(documentIds[0])!, question, options, stream);
+    }
+    return questionAnswerer.answerAcrossDocuments(question, {
+      ...options,
+      documentIds,
+      collections,
+    }, stream);
+  }
+}
+
+// Retrieval still finds the earlier topic when the recent questions ride along.
+// The turns' own questions are used, not their standalone forms, which already
+// carry the turns before them, and only as many as fit the history budget.
+const withPreviousQuestion = (question: string, history: ChatTurn[]): string => {
+  const previous: string[] = [];
+  let budget = config.settings.chatHistoryTokens;
+  for (let index = history.length - 1; index >= 0; index--) {
+    const cost = estimateTokens(history[index].question);
+    if (cost > budget) {
+      if (previous.length === 0) {
+        previous.push(history[index].question.slice(0, budget * CHARS_PER_TOKEN));
+      }
+      break;
+    }
+    previous.unshift(history[index].question);
+    budget -= cost;
+  }
+  return previous[0] ? `${question} (${previous.join(' ')})` : question;
+};
+
+/**
+ * The most recent turns that fit within `maxTokens`, oldest first. The latest
+ * turn is always kept, its answer shortened if needed, since follow-ups refer
+ * to it most often.
+ */
+export const recentHistory = (turns: ChatTurn[], maxTokens: number): ChatTurn[] => {
+  const history: ChatTurn[] = [];
+  let budget = maxTokens;
+  for (let index = turns.length - 1; index >= 0; index--) {
+    const turn = turns[index];
+    const cost = estimateTokens(turn.question) + estimateTokens(turn.answer);
+    if (cost > budget) {
+      if (history.length === 0) {
+        const room = Math.max(0, budget - estimateTokens(turn.question)) * CHARS_PER_TOKEN;
+        history.push({ ...turn, answer: turn.answer.slice(0, room) });
+      }
+      break;
+    }
+    history.push(turn);
+    budget -= cost;
+  }
+  return history.reverse();
+};
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const chatEngine = new ChatEngine(sessionStore);
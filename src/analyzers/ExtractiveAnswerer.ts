@@ -0,0 +1,132 @@
+import { ChunkHit, documentStore } from '../core/types';
+import { splitSentences } from '../search/sentences';
+
+/**
+ * An answer made of sentences quoted from the passages, each followed by the
+ * `[n]` marker of its passage. `confidence` runs from 0 to 1.
+ */
+export interface ExtractedAnswer {
+  answer: string;
+  confidence: number;
+  found: boolean;
+}
+
+interface CandidateSentence {
+  text: string;
+  marker: number;
+  // Position within the passages, to quote sentences in reading order
+  order: number;
+  terms: Set<string>;
+  // First term of the sentence, usually its subject
+  leadTerm?: string;
+  // The question's terms under the sentence's document analyzer
+  questionTerms: string[];
+}
+
+// Below this confidence the passages are taken not to answer the question
+const MIN_CONFIDENCE = 0.3;
+
+// Further sentences are quoted when they score at least this share of the best one
+const CLOSE_SCORE = 0.8;
+const MAX_SENTENCES = 2;
+
+// Added for sentences that lead with a question term, i.e. are about the question's subject
+const LEAD_BONUS = 0.15;
+
+// Score lost per rank of the passage a sentence comes from
+const RANK_DECAY = 0.05;
+
+// Score kept by sentences lacking the kind of value the question asks for
+const TYPE_MISMATCH = 0.6;
+
+// Share of characters in code punctuation above which a sentence is taken for code
+const CODE_SYMBOLS = 0.05;
+
+// Questions that expect a particular kind of value, and what such a value looks like
+const ANSWER_TYPES: Array<{ question: RegExp; answer: RegExp }> = [
+  { question: /^\s*when\b|\bwhat (?:year|date|day|month|time)\b/i, answer: /\b\d{4}\b|\b\d{1,2}[/.-]\d{1,2}\b|\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b|\b(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|today|yesterday|tomorrow)\b/i },
+  { question: /\bhow (?:many|much|long|old|often|far|big|large)\b|\bwhat (?:percentage|number|amount)\b/i, answer: /\d|\b(?:one|two|three|four|five|six|seven|eight|nine|ten|twelve|hundred|thousand|million|billion|half|once|twice)\b/i },
+  { question: /^\s*(?:who|whom|whose)\b/i, answer: /\b\p{Lu}\p{Ll}+(?:\s+\p{Lu}\p{Ll}+)+|\b(?:he|she|they|team|company|department)\b/u },
+];
+
+/**
+ * Answers questions without a language model by quoting the passage sentences
+ * that best cover the question's terms. Terms are weighted by how rare they
+ * are across the store's chunks, sentences from better-ranked passages
+ * are preferred, and a sentence that lacks the kind of value the question
+ * asks for (a date for "when", a number for "how many") is marked down.
+ */
+export class ExtractiveAnswerer {
+  public extract(question: string, passages: ChunkHit[]): ExtractedAnswer {
+    const candidates = this.candidateSentences(question, passages);
+    if (candidates.length === 0) {
+      return { answer: '', confidence: 0, found: false };
+    }
+
+    const weight = (term: string) => documentStore.chunkTermWeight(term);
+    const answerType = ANSWER_TYPES.find(type => type.question.test(question));
+    const ranked = candidates
+      .map(candidate => {
+        const total = sum(candidate.questionTerms.map(weight));
+        const covered = sum(candidate.questionTerms.filter(term => candidate.terms.has(term)).map(weight));
+        const lead = candidate.leadTerm && candidate.questionTerms.includes(candidate.leadTerm) ? LEAD_BONUS : 0;
+        const coverage = total > 0 ? Math.min(1, covered / total + lead) : 0;
+        const typeFactor = answerType && !answerType.answer.test(candidate.text) ? TYPE_MISMATCH : 1;
+        const rankFactor = Math.max(0, 1 - RANK_DECAY * (candidate.marker - 1));
+        return { ...candidate, score: coverage * typeFactor * rankFactor };
+      })
+      .sort((a, b) => b.score - a.score);
+    const best = ranked[0];
+    if (best.score < MIN_CONFIDENCE) {
+      return { answer: '', confidence: best.score, found: false };
+    }
+
+    const quoted = ranked
+      .filter(sentence => sentence.score >= best.score * CLOSE_SCORE)
+      .slice(0, MAX_SENTENCES)
+      .sort((a, b) => a.order - b.order);
+    return {
+      answer: quoted.map(sentence => withMarker(sentence.text, sentence.marker)).join(' '),
+      confidence: best.score,
+      found: true,
+    };
+  }
+
+  // Distinct sentences of the passages with their analyzed terms, leaving out
+  // headings, questions and code, which do not answer anything
+  private candidateSentences(question: string, passages: ChunkHit[]): CandidateSentence[] {
+    const seen = new Set<string>();
+    const candidates: CandidateSentence[] = [];
+    passages.forEach((hit, index) => {
+      const document = documentStore.getDocument(hit.chunk.documentId);
+      if (!document) return;
+
+      const analyzer = documentStore.analyzerFor(document);
+      const questionTerms = Array.from(new Set(analyzer.analyze(question)));
+      for (const sentence of splitSentences(hit.chunk.content)) {
+        const text = sentence.text.replace(/\s+/g, ' ');
+        // Overlapping chunks repeat sentences; the better-ranked passage keeps them
+        if (seen.has(text) || !isStatement(text)) continue;
+        seen.add(text);
+
+        const terms = analyzer.analyze(text);
+        candidates.push({ text, marker: index + 1, order: candidates.length, terms: new Set(terms), leadTerm: terms[0], questionTerms });
+      }
+    });
+    return candidates;
+  }
+}
+
+const isStatement = (text: string): boolean =>
+  !/^#{1,6}\s|\?["'”’)]*$|```/.test(text) &&
+  (text.match(/[{}();=<>]/g)?.length || 0) < text.length * CODE_SYMBOLS;
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+// Cites the passage before the sentence's closing punctuation, as generated answers do
+const withMarker = (sentence: string, marker: number): string => {
+  const match = sentence.match(/^(.*?)([.!?…]+["'”’)\]]*)$/s);
+  return match ? `${match[1]} [${marker}]${match[2]}` : `${sentence} [${marker}]`;
+};
+
+export const extractiveAnswerer = new ExtractiveAnswerer();
@@ -0,0 +1,149 @@
+import { ModelManager } from '../core/models';
+import { ChunkHit, documentStore } from '../core/types';
+import { logger } from '../utils/logger';
+
+export type ClaimStatus = 'supported' | 'partial' | 'unsupported';
+
+// `mixed` when the model judged some claims and the rest were checked lexically
+export type GroundingMethod = 'llm' | 'lexical' | 'mixed';
+
+/**
+ * How well the retrieved passages back one claim. `support` runs from 0 to 1;
+ * `evidence` holds the numbers of the passages that back it, best first.
+ */
+export interface ClaimCheck {
+  status: ClaimStatus;
+  support: number;
+  evidence: number[];
+}
+
+export interface GroundingReport {
+  checks: ClaimCheck[];
+  // Mean support over all claims, 0 to 1
+  score: number;
+  method: GroundingMethod;
+}
+
+// Support credited per status by the LLM check
+const STATUS_SUPPORT: Record<ClaimStatus, number> = { supported: 1, partial: 0.5, unsupported: 0 };
+
+// Share of a claim's terms a passage must contain for the lexical check
+const SUPPORTED_COVERAGE = 0.8;
+const PARTIAL_COVERAGE = 0.5;
+
+// Passage text shown to the model per passage
+const PASSAGE_LENGTH = 1200;
+
+const MARKER_PATTERN = /\s*\[\d+(?:\s*,\s*\d+)*\]/g;
+
+/**
+ * Checks each claim of an answer against the passages the answer was drawn
+ * from: the configured LLM judges entailment, and when it is unavailable or
+ * its reply cannot be read, claims are scored by how many of their terms a
+ * passage contains. Claims the model's reply skips are scored that way too.
+ */
+export class GroundingVerifier {
+  private modelManager: ModelManager;
+
+  constructor() {
+    this.modelManager = ModelManager.getInstance();
+  }
+
+  public async verify(claims: string[], passages: ChunkHit[]): Promise<GroundingReport> {
+    if (claims.length === 0) {
+      return { checks: [], score: 1, method: 'lexical' };
+    }
+
+    let checks: ClaimCheck[];
+    let method: GroundingMethod = 'llm';
+    if (!this.modelManager.hasLLM()) {
+      checks = claims.map(claim => checkLexically(claim, passages));
+      method = 'lexical';
+    } else {
+      try {
+        const verdicts = await this.checkWithLLM(claims, passages);
+        const skipped = verdicts.filter(check => !check).length;
+        if (skipped > 0) {
+          logger.warn(`LLM grounding check skipped ${skipped} of ${claims.length} claims, using lexical overlap for those`);
+          method = skipped === claims.length ? 'lexical' : 'mixed';
+        }
+        checks = verdicts.map((check, index) => check || checkLexically(claims[index], passages));
+      } catch (error) {
+        logger.warn(`LLM grounding check failed, using lexical overlap: ${(error as Error).message}`);
+        checks = claims.map(claim => checkLexically(claim, passages));
+        method = 'lexical';
+      }
+    }
+
+    const score = checks.reduce((sum, check) => sum + check.support, 0) / checks.length;
+    return { checks, score, method };
+  }
+
+  // The model's verdict per claim, undefined for claims its reply skips
+  private async checkWithLLM(claims: string[], passages: ChunkHit[]): Promise<Array<ClaimCheck | undefined>> {
+    const numberedPassages = passages
+      .map((hit, index) => `[${index + 1}] ${hit.chunk.content.slice(0, PASSAGE_LENGTH).replace(/\s+/g, ' ')}`)
+      .join('\n\n');
+    const numberedClaims = claims
+      .map((claim, index) => `${index + 1}. ${claim.replace(MARKER_PATTERN, '')}`)
+      .join('\n');
+    const prompt = `
+For each claim, decide whether the passages entail it:
+- "supported": the passages state or directly imply the whole claim
+- "partial": the passages back part of the claim, or only loosely
+- "unsupported": the passages do not back the claim, or contradict it
+
+Passages:
+${numberedPassages}
+
+Claims:
+${numberedClaims}
+
+Respond with JSON only, one entry per claim, listing the passages that back it:
+[{"claim": 1, "status": "supported", "passages": [2]}, ...]`;
+
+    const response = await this.modelManager.getLLM().invoke(prompt);
+    const jsonMatch = response.content.toString().match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('reply contained no verdicts');
+    }
+
+    const checks = new Array<ClaimCheck | undefined>(claims.length).fill(undefined);
+    for (const entry of JSON.parse(jsonMatch[0])) {
+      const index = Number(entry?.claim) - 1;
+      const status = entry?.status as ClaimStatus;
+      if (index < 0 || index >= claims.length || !Object.prototype.hasOwnProperty.call(STATUS_SUPPORT, status)) continue;
+
+      const evidence = Array.isArray(entry.passages)
+        ? entry.passages.map(Number).filter((n: number) => Number.isInteger(n) && n >= 1 && n <= passages.length)
+        : [];
+      checks[index] = { status, support: STATUS_SUPPORT[status], evidence };
+    }
+    return checks;
+  }
+}
+
+// Coverage of the claim's terms by the passage that covers most of them
+const checkLexically = (claim: string, passages: ChunkHit[]): ClaimCheck => {
+  const text = claim.replace(MARKER_PATTERN, '');
+  const coverage = passages.map((hit, index) => {
+    const document = documentStore.getDocument(hit.chunk.documentId);
+    if (!document) {
+      return { marker: index + 1, value: 0 };
+    }
+
+    const analyzer = documentStore.analyzerFor(document);
+    const claimTerms = new Set(analyzer.analyze(text));
+    // Claims may name the document they come from
+    const passageTerms = new Set(analyzer.analyze(`${hit.chunk.content} ${document.metadata.filename}`));
+    const covered = Array.from(claimTerms).filter(term => passageTerms.has(term)).length;
+    return { marker: index + 1, value: claimTerms.size > 0 ? covered / claimTerms.size : 1 };
+  });
+
+  const ranked = coverage.filter(entry => entry.value >= PARTIAL_COVERAGE).sort((a, b) => b.value - a.value);
+  const support = Math.max(0, ...coverage.map(entry => entry.value));
+  const status: ClaimStatus = support >= SUPPORTED_COVERAGE ? 'supported' : support >= PARTIAL_COVERAGE ? 'partial' : 'unsupported';
+  return { status, support, evidence: ranked.map(entry => entry.marker) };
+};
+
+export const groundingVerifier = new GroundingVerifier();
@@ -1,5 +1,9 @@
-import { ModelManager } from '../core/models';
-import { Document, DocumentChunk } from '../core/types';
+import { ModelManager, StreamOptions } from '../core/models';
+import { cosineSimilarity } from '../core/embeddings';
+import { hybridRetriever } from '../search/HybridRetriever';
+import { SearchQuery } from '../search/QueryParser';
+import { Document, DocumentChunk, documentStore } from '../core/types';
+import { extractKeywords } from '../search/TextAnalyzer';
 
 export interface KeywordExtractionResult {
   keywords: string[];
@@ -24,7 +28,7 @@ export class InsightAnalyzer {
     this.modelManager = ModelManager.getInstance();
   }
 
-  public async extractKeywords(document: Document): Promise<KeywordExtractionResult> {
+  public async extractKeywords(document: Document, stream: StreamOptions = {}): Promise<KeywordExtractionResult> {
     const prompt = `
 Analyze the following document and extract:
 1. Keywords (10-15 most important terms)
@@ -44,14 +48,14 @@ Document content:
 ${document.content.substring(0, 2000)}...`;
 
     try {
-      const llm = this.modelManager.getLLM();
-      const response = await llm.invoke(prompt);
+      const reply = await this.modelManager.generate(prompt, stream);
       
-      return this.parseKeywordResponse(response.content.toString());
+      return this.parseKeywordResponse(reply);
     } catch (error) {
       console.error('Failed to extract keywords:', error);
+      // Frequent terms still give a usable keyword list without the model
       return {
-        keywords: [],
+        keywords: extractKeywords(document.content, documentStore.analyzerFor(document), 15),
         entities: [],
         topics: [],
         concepts: []
@@ -59,7 +63,7 @@ ${document.content.substring(0, 2000)}...`;
     }
   }
 
-  public async analyzeInsights(document: Document): Promise<InsightAnalysisResult> {
+  public async analyzeInsights(document: Document, stream: StreamOptions = {}): Promise<InsightAnalysisResult> {
     const prompt = `
 Perform a comprehensive analysis of the following document and provide insights on:
 
@@ -84,10 +88,9 @@ Document content:
 ${document.content.substring(0, 2500)}...`;
 
     try {
-      const llm = this.modelManager.getLLM();
-      const response = await llm.invoke(prompt);
+      const reply = await this.modelManager.generate(prompt, stream);
       
-      return this.parseInsightResponse(response.content.toString());
+      return this.parseInsightResponse(reply);
     } catch (error) {
       console.error('Failed to analyze insights:', error);
       return {
@@ -102,18 +105,29 @@ ${document.content.substring(0, 2500)}...`;
   }
 
   public async findSimilarConcepts(chunks: DocumentChunk[], query: string): Promise<DocumentChunk[]> {
-    // Simple similarity search based on keyword matching
-    const queryWords = query.toLowerCase().split(' ');
-    
-    const scored = chunks.map(chunk => {
-      const content = chunk.content.toLowerCase();
-      const score = queryWords.reduce((acc, word) => {
-        const count = (content.match(new RegExp(word, 'g')) || []).length;
-        return acc + count;
-      }, 0);
-      
-      return { chunk, score };
+    // Stored chunks go through the hybrid retriever, scoped to their documents
+    const candidates = new Map(chunks.map(chunk => [chunk.id, chunk]));
+    const hits = await hybridRetriever.retrieveChunks(SearchQuery.fromText(query), {
+      mode: 'hybrid',
+      documentIds: Array.from(new Set(chunks.map(chunk => chunk.documentId))),
+      limit: Math.max(5, chunks.length),
     });
+    const retrieved = hits.filter(hit => candidates.has(hit.chunk.id)).map(hit => candidates.get(hit.chunk.id)!);
+    if (retrieved.length > 0) {
+      return retrieved.slice(0, 5);
+    }
+
+    // Chunks that were never stored are embedded on the fly
+    const embeddings = this.modelManager.getEmbeddings();
+    const [queryVector, chunkVectors] = await Promise.all([
+      embeddings.embedQuery(query),
+      embeddings.embedDocuments(chunks.map(chunk => chunk.content)),
+    ]);
+
+    const scored = chunks.map((chunk, index) => ({
+      chunk,
+      score: cosineSimilarity(queryVector, chunkVectors[index]),
+    }));
 
     return scored
       .filter(item => item.score > 0)
@@ -122,7 +136,7 @@ ${document.content.substring(0, 2500)}...`;
       .map(item => item.chunk);
   }
 
-  public async generateQuestions(document: Document): Promise<string[]> {
+  public async generateQuestions(document: Document, stream: StreamOptions = {}): Promise<string[]> {
     const prompt = `
 Based on the following document content, generate 5-10 thoughtful questions that would help someone understand and engage with the material. Include:
 - Comprehension questions
@@ -139,10 +153,9 @@ Document content:
 ${document.content.substring(0, 1500)}...`;
 
     try {
-      const llm = this.modelManager.getLLM();
-      const response = await llm.invoke(prompt);
+      const reply = await this.modelManager.generate(prompt, stream);
       
-      return this.parseQuestions(response.content.toString());
+      return this.parseQuestions(reply);
     } catch (error) {
       console.error('Failed to generate questions:', error);
       return [];
@@ -0,0 +1,374 @@
+import { ModelManager, StreamOptions } from '../core/models';
+import { ChunkHit, Document, DocumentQuery, documentStore, DEFAULT_COLLECTION } from '../core/types';
+import { hybridRetriever } from '../search/HybridRetriever';
+import { ExpandedQuery, queryExpander } from '../search/QueryExpander';
+import { SearchQuery } from '../search/QueryParser';
+import { HitPreview, previewHit } from '../search/snippets';
+import { ClaimCheck, GroundingMethod, groundingVerifier } from './GroundingVerifier';
+import { extractiveAnswerer } from './ExtractiveAnswerer';
+
+/**
+ * How answers are produced: `generative` has the LLM write them from the
+ * passages, `extractive` quotes the passage sentences that best answer the
+ * question and needs no model.
+ */
+export type QAEngine = 'generative' | 'extractive';
+
+export const QA_ENGINES: QAEngine[] = ['generative', 'extractive'];
+
+export interface QAOptions {
+  // Generative when an LLM is configured, extractive otherwise
+  engine?: QAEngine;
+  // Passages retrieved to answer from
+  passages?: number;
+  rerank?: string;
+  candidates?: number;
+  // Also retrieve with paraphrases, glossary expansions and sub-queries
+  expand?: boolean;
+  // Check each claim of the answer against the passages; on by default
+  verify?: boolean;
+}
+
+/**
+ * Cross-document QA options; the document query selects the documents to
+ * answer from, the whole store when empty.
+ */
+export interface CorpusQAOptions extends QAOptions, DocumentQuery {
+  // Most passages taken from any one document, so more documents are consulted
+  passagesPerDocument?: number;
+}
+
+/**
+ * A passage cited in an answer. `marker` is the number used in the answer's
+ * inline `[n]` markers.
+ */
+export interface Citation extends HitPreview {
+  marker: number;
+  documentId: string;
+  filename: string;
+}
+
+/**
+ * One sentence of an answer with the passages and documents it cites, and
+ * when the answer was verified, how well the passages support it.
+ */
+export interface Claim extends Partial<ClaimCheck> {
+  text: string;
+  markers: number[];
+  documentIds: string[];
+}
+
+export interface QAResult {
+  question: string;
+  answer: string;
+  // False when the passages do not answer the question
+  found: boolean;
+  engine: QAEngine;
+  // How well the quoted sentences match the question (0 to 1), for extractive answers
+  confidence?: number;
+  citations: Citation[];
+  claims: Claim[];
+  // Overall support of the claims (0 to 1) and how it was judged, when verified
+  grounding?: { score: number; method: GroundingMethod };
+  // Every passage shown to the model, best first; `[n]` refers to passages[n - 1]
+  passages: ChunkHit[];
+  queries: ExpandedQuery[];
+}
+
+/**
+ * A document behind a cross-document answer, with the passage numbers it
+ * supplied (consulted) or that the answer cites (contributing).
+ */
+export interface SourceDocument {
+  documentId: string;
+  filename: string;
+  markers: number[];
+}
+
+export interface CorpusQAResult extends QAResult {
+  // Documents whose passages were shown to the model
+  consulted: SourceDocument[];
+  // Consulted documents the answer cites
+  contributing: SourceDocument[];
+}
+
+const DEFAULT_PASSAGES = 5;
+const DEFAULT_CORPUS_PASSAGES = 10;
+const DEFAULT_PASSAGES_PER_DOCUMENT = 3;
+
+// Reply the model is told to give when the passages do not answer the question
+const NOT_FOUND = 'NOT_FOUND';
+
+// Inline citation markers such as [2] or [1, 3]
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Answers questions from retrieved passages, of one document or across the
+ * store. The model sees only those passages, numbered, and cites them inline;
+ * without a model the answer quotes them instead. Either way citations are
+ * resolved back to documents, chunk ids, character offsets and pages.
+ */
+export class QuestionAnswerer {
+  private modelManager: ModelManager;
+
+  constructor() {
+    this.modelManager = ModelManager.getInstance();
+  }
+
+  /**
+   * With `stream.onToken`, the answer is passed on as the model writes it; the
+   * returned answer is final, with markers to missing passages removed.
+   */
+  public async answerQuestion(
+    document: Document,
+    question: string,
+    options: QAOptions = {},
+    stream: StreamOptions = {}
+  ): Promise<QAResult> {
+    const engine = this.resolveEngine(options.engine);
+    const { queries, passages } = await this.retrievePassages(document, question, options);
+    const notFound = `The answer was not found in "${document.metadata.filename}".`;
+    if (passages.length === 0) {
+      return { question, answer: notFound, found: false, engine, citations: [], claims: [], passages, queries };
+    }
+
+    const prompt = this.buildPrompt(
+      `Answer the question using only the numbered passages from the document "${document.metadata.filename}".`,
+      [],
+      question,
+      passages
+    );
+    return this.answerFrom(question, prompt, passages, queries, notFound, { engine, verify: options.verify ?? true }, stream);
+  }
+
+  /**
+   * Answers a question from the best passages across the selected documents,
+   * attributing each claim to the documents whose passages it cites.
+   */
+  public async answerAcrossDocuments(
+    question: string,
+    options: CorpusQAOptions = {},
+    stream: StreamOptions = {}
+  ): Promise<CorpusQAResult> {
+    const { passages: limit, passagesPerDocument, rerank, candidates, expand, verify, engine: requested, ...scope } = options;
+    const engine = this.resolveEngine(requested);
+    const queries = expand ? await queryExpander.expand(question, { collections: scope.collections }) : [];
+    const hits = await hybridRetriever.retrieveChunks(SearchQuery.fromText(question), {
+      ...scope,
+      mode: 'hybrid',
+      limit: (limit ?? DEFAULT_CORPUS_PASSAGES) * (passagesPerDocument ?? DEFAULT_PASSAGES_PER_DOCUMENT),
+      rerank,
+      candidates,
+      expansions: queries.map(expanded => expanded.text),
+    });
+    const passages = capPerDocument(hits, passagesPerDocument ?? DEFAULT_PASSAGES_PER_DOCUMENT)
+      .slice(0, limit ?? DEFAULT_CORPUS_PASSAGES);
+
+    const consulted = sourceDocuments(passages, passages.map((_, index) => index + 1));
+    if (passages.length === 0) {
+      return {
+        question, answer: 'No documents matched the question.', found: false, engine,
+        citations: [], claims: [], passages, queries, consulted, contributing: [],
+      };
+    }
+
+    const prompt = this.buildPrompt(
+      'Answer the question using only the numbered passages below, which come from several documents.',
+      ['Attribute each statement to its source document by name as well as citing its passages'],
+      question,
+      passages
+    );
+    const notFound = `The answer was not found in the ${consulted.length} document${consulted.length === 1 ? '' : 's'} consulted.`;
+    const result = await this.answerFrom(question, prompt, passages, queries, notFound, { engine, verify: verify ?? true }, stream);
+    const contributing = sourceDocuments(passages, result.citations.map(citation => citation.marker));
+    return { ...result, consulted, contributing };
+  }
+
+  /**
+   * The passages of a document most relevant to a question, best first, with
+   * the expanded queries used to find them.
+   */
+  public async retrievePassages(
+    document: Document,
+    question: string,
+    options: QAOptions = {}
+  ): Promise<{ queries: ExpandedQuery[]; passages: ChunkHit[] }> {
+    const queries = options.expand
+      ? await queryExpander.expand(question, { collections: [document.metadata.collection || DEFAULT_COLLECTION] })
+      : [];
+    const passages = await hybridRetriever.retrieveChunks(SearchQuery.fromText(question), {
+      mode: 'hybrid',
+      documentIds: [document.id],
+      limit: options.passages ?? DEFAULT_PASSAGES,
+      rerank: options.rerank,
+      candidates: options.candidates,
+      expansions: queries.map(expanded => expanded.text),
+    });
+    return { queries, passages };
+  }
+
+  private async answerFrom(
+    question: string,
+    prompt: string,
+    passages: ChunkHit[],
+    queries: ExpandedQuery[],
+    notFound: string,
+    { engine, verify }: { engine: QAEngine; verify: boolean },
+    stream: StreamOptions
+  ): Promise<QAResult> {
+    let reply: string;
+    let confidence: number | undefined;
+    if (engine === 'extractive') {
+      const extracted = extractiveAnswerer.extract(question, passages);
+      reply = extracted.found ? extracted.answer : NOT_FOUND;
+      confidence = extracted.confidence;
+      if (extracted.found) {
+        stream.onToken?.(reply);
+      }
+    } else {
+      try {
+        const onToken = stream.onToken && withholdNotFound(stream.onToken);
+        reply = (await this.modelManager.generate(prompt, { ...stream, onToken })).trim();
+      } catch (error) {
+        throw new Error(`Failed to answer question: ${(error as Error).message}`);
+      }
+    }
+
+    if (!reply || reply.includes(NOT_FOUND)) {
+      return { question, answer: notFound, found: false, engine, confidence, citations: [], claims: [], passages, queries };
+    }
+
+    const answer = stripInvalidMarkers(reply, passages.length);
+    const terms = documentStore.queryTerms(SearchQuery.fromText(question));
+    const citations: Citation[] = [];
+    for (const marker of citedMarkers(answer)) {
+      const hit = passages[marker - 1];
+      const document = documentStore.getDocument(hit.chunk.documentId);
+      if (!document) continue;
+      citations.push({
+        marker,
+        documentId: document.id,
+        filename: document.metadata.filename,
+        ...previewHit(document, hit, terms, documentStore.analyzerFor(document)),
+      });
+    }
+    const claims: Claim[] = splitClaims(answer).map(text => {
+      const markers = citedMarkers(text);
+      const documentIds = markers.map(marker => passages[marker - 1].chunk.documentId);
+      return { text, markers, documentIds: Array.from(new Set(documentIds)) };
+    });
+    if (!verify) {
+      return { question, answer, found: true, engine, confidence, citations, claims, passages, queries };
+    }
+
+    stream.signal?.throwIfAborted();
+    const report = await groundingVerifier.verify(claims.map(claim => claim.text), passages);
+    const verified = claims.map((claim, index) => ({ ...claim, ...report.checks[index] }));
+    const grounding = { score: report.score, method: report.method };
+    return { question, answer, found: true, engine, confidence, citations, claims: verified, grounding, passages, queries };
+  }
+
+  // The requested engine, or the best one available
+  private resolveEngine(engine?: QAEngine): QAEngine {
+    return engine ?? (this.modelManager.hasLLM() ? 'generative' : 'extractive');
+  }
+
+  private buildPrompt(instruction: string, extraRules: string[], question: string, passages: ChunkHit[]): string {
+    const numbered = passages
+      .map((hit, index) => {
+        const filename = documentStore.getDocument(hit.chunk.documentId)?.metadata.filename;
+        return `[${index + 1}] (${filename}) ${hit.chunk.content.replace(/\s+/g, ' ').trim()}`;
+      })
+      .join('\n\n');
+    const rules = [
+      'After each statement, cite the passages that support it with their numbers in square brackets, e.g. [1] or [2, 3]',
+      'Do not use knowledge from outside the passages',
+      ...extraRules,
+      `If the passages do not contain the answer, reply with ${NOT_FOUND} and nothing else`,
+    ];
+
+    return `
+${instruction}
+
+Rules:
+${rules.map(rule => `- ${rule}`).join('\n')}
+
+Passages:
+${numbered}
+
+Question: ${question}
+
+Answer:`;
+  }
+}
+
+// Keeps at most `cap` hits per document, in rank order
+const capPerDocument = (hits: ChunkHit[], cap: number): ChunkHit[] => {
+  const taken = new Map<string, number>();
+  return hits.filter(hit => {
+    const count = taken.get(hit.chunk.documentId) || 0;
+    taken.set(hit.chunk.documentId, count + 1);
+    return count < cap;
+  });
+};
+
+// Documents of the given passage numbers, in order of first appearance
+const sourceDocuments = (passages: ChunkHit[], markers: number[]): SourceDocument[] => {
+  const documents = new Map<string, SourceDocument>();
+  for (const marker of markers) {
+    const documentId = passages[marker - 1].chunk.documentId;
+    const source = documents.get(documentId);
+    if (source) {
+      source.markers.push(marker);
+    } else {
+      const filename = documentStore.getDocument(documentId)?.metadata.filename || documentId;
+      documents.set(documentId, { documentId, filename, markers: [marker] });
+    }
+  }
+  return Array.from(documents.values());
+};
+
+// Holds tokens back while the reply could still be the NOT_FOUND reply, which is never shown
+const withholdNotFound = (onToken: (token: string) => void) => {
+  let pending = '';
+  let released = false;
+  return (token: string) => {
+    if (released) {
+      onToken(token);
+      return;
+    }
+    pending += token;
+    if (!NOT_FOUND.startsWith(pending.trimStart())) {
+      released = true;
+      onToken(pending);
+    }
+  };
+};
+
+// Drops marker numbers that refer to no passage, and markers left empty by that
+const stripInvalidMarkers = (answer: string, passageCount: number): string =>
+  answer
+    .replace(MARKER_PATTERN, (_, numbers: string) => {
+      const valid = numbers.split(',').map(Number).filter(n => n >= 1 && n <= passageCount);
+      return valid.length > 0 ? `[${valid.join(', ')}]` : '';
+    })
+    .replace(/[ \t]+([.,;:!?])/g, '$1')
+    .trim();
+
+// Passage numbers cited in an answer, in order of first citation
+const citedMarkers = (answer: string): number[] => {
+  const markers = new Set<number>();
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    match[1].split(',').forEach(number => markers.add(Number(number)));
+  }
+  return Array.from(markers);
+};
+
+// Sentences and list items of an answer; markers after a full stop stay with their sentence
+const splitClaims = (answer: string): string[] =>
+  answer
+    .split(/(?<=[.!?](?:\s*\[[\d,\s]+\])*)\s+(?=[^\s[])|\n+/)
+    .map(text => text.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(text => /[\p{L}\p{N}]/u.test(text.replace(MARKER_PATTERN, '')));
+
+export const questionAnswerer = new QuestionAnswerer();
@@ -1,9 +1,13 @@
-import { ModelManager } from '../core/models';
+import { ModelManager, StreamOptions } from '../core/models';
 import { Document, DocumentChunk } from '../core/types';
 
+export type SummaryStyle = 'bullet-points' | 'paragraph' | 'executive';
+
+export const SUMMARY_STYLES: SummaryStyle[] = ['bullet-points', 'paragraph', 'executive'];
+
 export interface SummaryOptions {
   maxLength?: number;
-  style?: 'bullet-points' | 'paragraph' | 'executive';
+  style?: SummaryStyle;
   focus?: string;
 }
 
@@ -21,7 +25,14 @@ export class SummaryAnalyzer {
     this.modelManager = ModelManager.getInstance();
   }
 
-  public async summarizeDocument(document: Document, options: SummaryOptions = {}): Promise<SummaryResult> {
+  /**
+   * With `stream.onToken`, the summary text is passed on as the model writes it.
+   */
+  public async summarizeDocument(
+    document: Document,
+    options: SummaryOptions = {},
+    stream: StreamOptions = {}
+  ): Promise<SummaryResult> {
     const {
       maxLength = 500,
       style = 'paragraph',
@@ -31,10 +42,9 @@ export class SummaryAnalyzer {
     const prompt = this.buildSummaryPrompt(document.content, maxLength, style, focus);
     
     try {
-      const llm = this.modelManager.getLLM();
-      const response = await llm.invoke(prompt);
+      const reply = await this.modelManager.generate(prompt, stream);
       
-      return this.parseSummaryResponse(response.content.toString());
+      return this.parseSummaryResponse(reply);
     } catch (error) {
       throw new Error(`Failed to generate summary: ${error}`);
     }
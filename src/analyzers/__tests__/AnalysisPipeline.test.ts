@@ -0,0 +1,79 @@
+import { StreamOptions } from '../../core/models';
+import { documentStore } from '../../core/store';
+import { AnalysisPipeline, AnalysisProgress } from '../AnalysisPipeline';
+import { InsightAnalyzer } from '../InsightAnalyzer';
+import { SummaryAnalyzer } from '../SummaryAnalyzer';
+import { makeDocument } from '../../__tests__/fixtures';
+
+const document = makeDocument('report', 'Quarterly results were strong.', { contentHash: 'abc' });
+
+const summary = { summary: 'Strong quarter.', keyPoints: [], wordCount: 4, confidence: 0.9 };
+const keywords = { keywords: ['results'], entities: [], topics: [], concepts: [] };
+const insights = {
+  sentiment: 'positive' as const,
+  topics: [],
+  complexity: 'low' as const,
+  readabilityScore: 80,
+  keyInsights: [],
+  recommendations: [],
+};
+
+describe('AnalysisPipeline', () => {
+  let streams: StreamOptions[];
+
+  beforeEach(() => {
+    streams = [];
+    // Each step writes one token naming itself
+    const step = <T>(name: string, result: T) => async (_document: unknown, ...rest: unknown[]) => {
+      const stream = rest[rest.length - 1] as StreamOptions;
+      streams.push(stream);
+      stream.onToken?.(name);
+      return result;
+    };
+    jest.spyOn(SummaryAnalyzer.prototype, 'summarizeDocument').mockImplementation(step('summary', summary));
+    jest.spyOn(InsightAnalyzer.prototype, 'extractKeywords').mockImplementation(step('keywords', keywords));
+    jest.spyOn(InsightAnalyzer.prototype, 'analyzeInsights').mockImplementation(step('insights', insights));
+    jest.spyOn(InsightAnalyzer.prototype, 'generateQuestions').mockImplementation(step('questions', ['Why?']));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    documentStore.clear();
+  });
+
+  it('runs the steps in order, reporting progress around each and passing tokens on', async () => {
+    const events: string[] = [];
+    const onProgress = (progress: AnalysisProgress) =>
+      events.push(`${progress.index}/${progress.total} ${progress.step} ${progress.status}${progress.result ? ' with result' : ''}`);
+
+    const analysis = await new AnalysisPipeline().analyze(document, { onProgress, onToken: token => events.push(`token ${token}`) });
+
+    expect(events).toEqual([
+      '1/4 summary started', 'token summary', '1/4 summary completed with result',
+      '2/4 keywords started', 'token keywords', '2/4 keywords completed with result',
+      '3/4 insights started', 'token insights', '3/4 insights completed with result',
+      '4/4 questions started', 'token questions', '4/4 questions completed with result',
+    ]);
+    expect(streams.every(stream => !('onProgress' in stream))).toBe(true);
+    expect(analysis).toEqual(expect.objectContaining({ documentId: 'report', contentHash: 'abc', summary, keywords, insights, questions: ['Why?'] }));
+    expect(documentStore.getAnalysis('report')).toEqual(analysis);
+  });
+
+  it('stops before the next step once aborted, saving nothing', async () => {
+    const controller = new AbortController();
+    const completed: string[] = [];
+
+    const analysis = new AnalysisPipeline().analyze(document, {
+      signal: controller.signal,
+      onProgress: progress => {
+        if (progress.status === 'completed') completed.push(progress.step);
+      },
+      onToken: token => token === 'keywords' && controller.abort(),
+    });
+
+    await expect(analysis).rejects.toThrow();
+    expect(completed).toEqual(['summary']);
+    expect(InsightAnalyzer.prototype.analyzeInsights).not.toHaveBeenCalled();
+    expect(documentStore.getAnalysis('report')).toBeUndefined();
+  });
+});
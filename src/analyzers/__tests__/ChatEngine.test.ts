@@ -0,0 +1,115 @@
+import { config } from '../../core/config';
+import { ModelManager } from '../../core/models';
+import { SessionStore } from '../../core/sessions';
+import { DocumentStore } from '../../core/store';
+import { MemoryStorageBackend } from '../../core/storage';
+import { ChatTurn } from '../../core/types';
+import { ChatEngine, estimateTokens, recentHistory } from '../ChatEngine';
+import { CorpusQAResult, questionAnswerer } from '../QuestionAnswerer';
+import { makeDocument } from '../../__tests__/fixtures';
+
+const turn = (question: string, answer: string): ChatTurn => ({
+  question,
+  standaloneQuestion: question,
+  answer,
+  found: true,
+  citations: [],
+  askedAt: new Date('2024-01-01T00:00:00Z'),
+});
+
+describe('recentHistory', () => {
+  const turns = [turn('first?', 'a'.repeat(400)), turn('second?', 'b'.repeat(400)), turn('third?', 'c'.repeat(400))];
+
+  it('keeps the most recent turns that fit the budget, oldest first', () => {
+    const perTurn = estimateTokens('second?') + estimateTokens('b'.repeat(400));
+
+    expect(recentHistory(turns, perTurn * 2).map(entry => entry.question)).toEqual(['second?', 'third?']);
+    expect(recentHistory(turns, 10000)).toHaveLength(3);
+  });
+
+  it('always keeps the latest turn, shortening its answer to fit', () => {
+    const [latest] = recentHistory(turns, 20);
+
+    expect(latest.question).toBe('third?');
+    expect(latest.answer.length).toBeLessThan(400);
+  });
+});
+
+describe('ChatEngine', () => {
+  const backend = new MemoryStorageBackend();
+  const store = new DocumentStore(backend);
+  const sessions = new SessionStore(store, backend);
+  const engine = new ChatEngine(sessions);
+
+  let asked: string[];
+
+  beforeEach(() => {
+    asked = [];
+    jest.spyOn(questionAnswerer, 'answerAcrossDocuments').mockImplementation(async question => {
+      asked.push(question);
+      return { question, answer: `About ${question} [1].`, found: true, engine: 'extractive', citations: [], claims: [], passages: [], queries: [], consulted: [], contributing: [] } as CorpusQAResult;
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('condenses follow-ups into standalone questions with the model', async () => {
+    jest.spyOn(ModelManager.getInstance(), 'hasLLM').mockReturnValue(true);
+    const invoke = jest.fn(async (_prompt: string) => ({ content: '"What are LangChain agents?"' }));
+    jest.spyOn(ModelManager.getInstance(), 'getLLM').mockReturnValue({ invoke } as never);
+    const session = sessions.createSession();
+
+    await engine.ask(session.id, 'What is LangChain?');
+    const reply = await engine.ask(session.id, 'and agents?');
+
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(invoke.mock.calls[0][0]).toContain('User: What is LangChain?\nAssistant: About What is LangChain?.\n');
+    expect(asked).toEqual(['What is LangChain?', 'What are LangChain agents?']);
+    expect(reply.turn).toEqual(expect.objectContaining({ question: 'and agents?', standaloneQuestion: 'What are LangChain agents?' }));
+    expect(reply.session.turns).toHaveLength(2);
+  });
+
+  it('carries the earlier questions, not their standalone forms, into follow-ups without a model', async () => {
+    const session = sessions.createSession();
+    for (const question of ['What is LangChain?', 'and agents?', 'and chains?', 'and memory?']) {
+      await engine.ask(session.id, question);
+    }
+
+    expect(asked).toEqual([
+      'What is LangChain?',
+      'and agents? (What is LangChain?)',
+      'and chains? (What is LangChain? and agents?)',
+      'and memory? (What is LangChain? and agents? and chains?)',
+    ]);
+    expect(sessions.getSession(session.id)!.turns.map(entry => entry.standaloneQuestion)).toEqual(asked);
+  });
+
+  it('keeps the carried questions within the chat history budget', async () => {
+    const budget = config.settings.chatHistoryTokens;
+    config.settings.chatHistoryTokens = estimateTokens('and agents?');
+    try {
+      const session = sessions.createSession();
+      for (const question of ['What is LangChain?', 'and agents?', 'and chains?']) {
+        await engine.ask(session.id, question);
+      }
+    } finally {
+      config.settings.chatHistoryTokens = budget;
+    }
+
+    expect(asked[2]).toBe('and chains? (and agents?)');
+  });
+
+  it('rejects unknown sessions', async () => {
+    await expect(engine.ask('missing', 'Hello?')).rejects.toThrow('Chat session not found: missing');
+  });
+
+  it('survives clearing the document store', () => {
+    store.addDocument(makeDocument('doc', 'Text'));
+    const session = sessions.createSession();
+
+    store.clear();
+
+    expect(store.getAllDocuments()).toEqual([]);
+    expect(sessions.getSession(session.id)).toBeDefined();
+  });
+});
@@ -0,0 +1,72 @@
+import { documentStore } from '../../core/store';
+import { ChunkHit } from '../../core/types';
+import { extractiveAnswerer } from '../ExtractiveAnswerer';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+const history = makeDocument('history', [
+  '# History of AI',
+  'Artificial intelligence research started in the 1950s at Dartmouth. Early programs played chess and proved theorems.',
+  'Research funding fell during the AI winters, when results lagged behind the promises.',
+].join('\n\n'));
+const tools = makeDocument('tools', [
+  'LangChain is a framework for building applications with language models.',
+  'What is a chain? A chain links prompts, models and parsers. `const chain = prompt.pipe(model);`',
+].join('\n\n'));
+const launch = makeDocument('launch', [
+  'The product launch happened quietly.',
+  'The product launch happened in March 2021.',
+].join('\n\n'));
+
+beforeAll(() => {
+  for (const document of [history, tools, launch]) {
+    documentStore.addDocument(document);
+    documentStore.addChunks(document.id, paragraphChunks(document));
+  }
+});
+
+afterAll(() => documentStore.clear());
+
+// The named chunks as retrieved passages, best first
+const passages = (...chunkIds: string[]): ChunkHit[] =>
+  chunkIds.map((id, rank) => ({
+    chunk: documentStore.getChunks(id.split('-')[0]).find(chunk => chunk.id === id)!,
+    score: 1 - rank * 0.1,
+  }));
+
+describe('ExtractiveAnswerer', () => {
+  it('quotes the sentence covering the question, citing its passage', () => {
+    const result = extractiveAnswerer.extract('When did artificial intelligence research start?', passages('history-1', 'history-2'));
+
+    expect(result.found).toBe(true);
+    expect(result.answer).toBe('Artificial intelligence research started in the 1950s at Dartmouth [1].');
+    expect(result.confidence).toBeGreaterThan(0.5);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('prefers sentences holding the kind of value asked for', () => {
+    // Both sentences cover the question; only the lower-ranked one says when
+    const result = extractiveAnswerer.extract('When did the product launch happen?', passages('launch-0', 'launch-1'));
+
+    expect(result.answer).toBe('The product launch happened in March 2021 [2].');
+  });
+
+  it('cites later passages with their own marker', () => {
+    const result = extractiveAnswerer.extract('What is LangChain?', passages('history-2', 'tools-0'));
+
+    expect(result.answer).toBe('LangChain is a framework for building applications with language models [2].');
+  });
+
+  it('skips headings, questions and code', () => {
+    const result = extractiveAnswerer.extract('What is a chain?', passages('tools-1'));
+
+    expect(result.answer).toBe('A chain links prompts, models and parsers [1].');
+  });
+
+  it('reports no answer when nothing covers the question well enough', () => {
+    const result = extractiveAnswerer.extract('Who won the 1998 football world cup?', passages('history-1', 'tools-0'));
+
+    expect(result).toEqual(expect.objectContaining({ answer: '', found: false }));
+    expect(result.confidence).toBeLessThan(0.3);
+    expect(extractiveAnswerer.extract('Anything?', [])).toEqual({ answer: '', confidence: 0, found: false });
+  });
+});
@@ -0,0 +1,102 @@
+import { ModelManager } from '../../core/models';
+import { documentStore } from '../../core/store';
+import { ChunkHit } from '../../core/types';
+import { groundingVerifier } from '../GroundingVerifier';
+import { logger } from '../../utils/logger';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+const handbook = makeDocument('handbook', [
+  'Employees receive twenty five days of paid leave per year.',
+  'Remote work requires approval from a manager.',
+].join('\n\n'), { filename: 'handbook.md' });
+
+beforeAll(() => {
+  documentStore.addDocument(handbook);
+  documentStore.addChunks(handbook.id, paragraphChunks(handbook));
+});
+
+afterAll(() => documentStore.clear());
+
+afterEach(() => jest.restoreAllMocks());
+
+const passages = (): ChunkHit[] => documentStore.getChunks('handbook').map(chunk => ({ chunk, score: 1 }));
+
+// Makes a language model appear configured, replying to every prompt with `reply`
+const stubLLM = (reply: string) => {
+  jest.spyOn(ModelManager.getInstance(), 'hasLLM').mockReturnValue(true);
+  const invoke = jest.fn(async () => ({ content: reply }));
+  jest.spyOn(ModelManager.getInstance(), 'getLLM').mockReturnValue({ invoke } as never);
+  return invoke;
+};
+
+const claims = [
+  'Employees get twenty five days of paid leave [1].',
+  'Remote work needs manager approval and a signed contract [2].',
+  'Pets are welcome in the office.',
+];
+
+describe('GroundingVerifier', () => {
+  it('scores claims by the share of their terms the best passage contains without a model', async () => {
+    jest.spyOn(ModelManager.getInstance(), 'hasLLM').mockReturnValue(false);
+
+    const report = await groundingVerifier.verify(claims, passages());
+
+    expect(report.method).toBe('lexical');
+    expect(report.checks.map(check => [check.status, check.evidence])).toEqual([
+      ['supported', [1]],
+      ['partial', [2]],
+      ['unsupported', []],
+    ]);
+    expect(report.score).toBeCloseTo(report.checks.reduce((sum, check) => sum + check.support, 0) / 3);
+  });
+
+  it('uses the model verdicts, keeping only evidence numbers of real passages', async () => {
+    const invoke = stubLLM(`[
+      {"claim": 1, "status": "supported", "passages": [1]},
+      {"claim": 2, "status": "partial", "passages": [2, 9]},
+      {"claim": 3, "status": "unsupported", "passages": []}
+    ]`);
+
+    const report = await groundingVerifier.verify(claims, passages());
+
+    expect(invoke.mock.calls[0]).toEqual([expect.stringContaining('1. Employees get twenty five days of paid leave.\n')]);
+    expect(report).toEqual({
+      method: 'llm',
+      score: 0.5,
+      checks: [
+        { status: 'supported', support: 1, evidence: [1] },
+        { status: 'partial', support: 0.5, evidence: [2] },
+        { status: 'unsupported', support: 0, evidence: [] },
+      ],
+    });
+  });
+
+  it('checks only the claims the model skips lexically, keeping its other verdicts', async () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    stubLLM('[{"claim": 1, "status": "partial", "passages": [2]}, {"claim": 3, "status": "toString", "passages": [1]}]');
+
+    const report = await groundingVerifier.verify(claims, passages());
+
+    expect(report.method).toBe('mixed');
+    expect(report.checks.map(check => [check.status, check.evidence])).toEqual([
+      ['partial', [2]],
+      ['partial', [2]],
+      ['unsupported', []],
+    ]);
+    expect(warn).toHaveBeenCalledWith('LLM grounding check skipped 2 of 3 claims, using lexical overlap for those');
+  });
+
+  it('falls back to the lexical check when the reply holds no verdicts', async () => {
+    jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    stubLLM('I cannot tell.');
+
+    const report = await groundingVerifier.verify(claims, passages());
+
+    expect(report.method).toBe('lexical');
+    expect(report.checks.map(check => check.status)).toEqual(['supported', 'partial', 'unsupported']);
+  });
+
+  it('treats an answer without claims as fully grounded', async () => {
+    expect(await groundingVerifier.verify([], passages())).toEqual({ checks: [], score: 1, method: 'lexical' });
+  });
+});
@@ -0,0 +1,130 @@
+import { ModelManager, StreamOptions } from '../../core/models';
+import { documentStore } from '../../core/store';
+import { questionAnswerer } from '../QuestionAnswerer';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+const contract = makeDocument('contract', [
+  'Either party may terminate the agreement with thirty days notice.',
+  'Payment is due within fourteen days of the invoice.',
+  'The agreement is governed by Dutch law.',
+].join('\n\n'), { filename: 'contract.pdf', pageOffsets: [0, 60] });
+const invoice = makeDocument('invoice', [
+  'Invoice 42: payment of 900 euros is due by 1 March.',
+  'Late payment incurs a fee of two percent per month.',
+  'Payment by bank transfer only.',
+  'Payment questions go to the finance team.',
+].join('\n\n'), { filename: 'invoice.txt', collection: 'billing' });
+
+beforeAll(() => {
+  for (const document of [contract, invoice]) {
+    documentStore.addDocument(document);
+    documentStore.addChunks(document.id, paragraphChunks(document));
+  }
+});
+
+afterAll(() => documentStore.clear());
+
+afterEach(() => jest.restoreAllMocks());
+
+// A language model stand-in writing `reply`, streamed word by word when asked to
+const stubModel = (reply: string) =>
+  jest.spyOn(ModelManager.getInstance(), 'generate').mockImplementation(async (_prompt: string, options: StreamOptions = {}) => {
+    reply.split(/(?<= )/).forEach(token => options.onToken?.(token));
+    return reply;
+  });
+
+describe('QuestionAnswerer', () => {
+  it('numbers the retrieved passages in the prompt and resolves cited markers to passages', async () => {
+    const generate = stubModel('Notice is thirty days [1]. Payment is due in fourteen days [2, 7].');
+
+    const result = await questionAnswerer.answerQuestion(contract, 'What notice period and payment terms apply?', { engine: 'generative', verify: false });
+
+    const prompt = generate.mock.calls[0][0];
+    result.passages.forEach((hit, index) => expect(prompt).toContain(`[${index + 1}] (contract.pdf) ${hit.chunk.content}`));
+    expect(result.found).toBe(true);
+    expect(result.answer).toBe('Notice is thirty days [1]. Payment is due in fourteen days [2].');
+    expect(result.citations.map(({ marker, chunkId, filename }) => ({ marker, chunkId, filename }))).toEqual([
+      { marker: 1, chunkId: result.passages[0].chunk.id, filename: 'contract.pdf' },
+      { marker: 2, chunkId: result.passages[1].chunk.id, filename: 'contract.pdf' },
+    ]);
+    expect(result.claims.map(claim => [claim.text, claim.markers])).toEqual([
+      ['Notice is thirty days [1].', [1]],
+      ['Payment is due in fourteen days [2].', [2]],
+    ]);
+  });
+
+  it('reports not found without streaming the reply', async () => {
+    stubModel('NOT_FOUND');
+    const tokens: string[] = [];
+
+    const result = await questionAnswerer.answerQuestion(contract, 'Who signed the agreement?', { engine: 'generative' }, {
+      onToken: token => tokens.push(token),
+    });
+
+    expect(result).toEqual(expect.objectContaining({ found: false, answer: 'The answer was not found in "contract.pdf".', citations: [] }));
+    expect(tokens).toEqual([]);
+  });
+
+  it('streams answers as they are written', async () => {
+    stubModel('Dutch law applies [1].');
+    const tokens: string[] = [];
+
+    await questionAnswerer.answerQuestion(contract, 'Which law governs the agreement?', { engine: 'generative', verify: false }, {
+      onToken: token => tokens.push(token),
+    });
+
+    expect(tokens.join('')).toBe('Dutch law applies [1].');
+  });
+
+  it('quotes the passages without a model', async () => {
+    const generate = jest.spyOn(ModelManager.getInstance(), 'generate');
+
+    const result = await questionAnswerer.answerQuestion(contract, 'When is payment due?', { engine: 'extractive', verify: false });
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(result.answer).toBe('Payment is due within fourteen days of the invoice [1].');
+    expect(result.citations[0]).toEqual(expect.objectContaining({ chunkId: 'contract-1', page: 2 }));
+  });
+
+  it('reports model failures', async () => {
+    jest.spyOn(ModelManager.getInstance(), 'generate').mockRejectedValue(new Error('rate limited'));
+
+    await expect(questionAnswerer.answerQuestion(contract, 'When is payment due?', { engine: 'generative' }))
+      .rejects.toThrow('Failed to answer question: rate limited');
+  });
+});
+
+describe('QuestionAnswerer across documents', () => {
+  it('caps the passages per document and attributes the answer to the documents it cites', async () => {
+    stubModel('Payment is due within fourteen days [1], and late payment costs two percent a month [3].');
+
+    const result = await questionAnswerer.answerAcrossDocuments('When is payment due and what if payment is late?', {
+      engine: 'generative',
+      verify: false,
+      passagesPerDocument: 2,
+    });
+
+    const perDocument = result.passages.map(hit => hit.chunk.documentId);
+    expect(perDocument.filter(id => id === 'invoice')).toHaveLength(2);
+    expect(result.consulted.map(source => source.filename).sort()).toEqual(['contract.pdf', 'invoice.txt']);
+    expect(result.contributing.flatMap(source => source.markers).sort()).toEqual([1, 3]);
+    expect(result.contributing.map(source => source.documentId))
+      .toEqual(Array.from(new Set([perDocument[0], perDocument[2]])));
+    expect(result.claims[0].documentIds).toEqual(Array.from(new Set([perDocument[0], perDocument[2]])));
+  });
+
+  it('answers only from the selected collections', async () => {
+    stubModel('NOT_FOUND');
+
+    const result = await questionAnswerer.answerAcrossDocuments('Who signed the payment agreement?', { engine: 'generative', collections: ['billing'] });
+
+    expect(result.consulted.map(source => source.documentId)).toEqual(['invoice']);
+    expect(result.answer).toBe('The answer was not found in the 1 document consulted.');
+  });
+
+  it('reports when no document matches', async () => {
+    const result = await questionAnswerer.answerAcrossDocuments('zeppelin', { engine: 'extractive' });
+
+    expect(result).toEqual(expect.objectContaining({ found: false, answer: 'No documents matched the question.', consulted: [] }));
+  });
+});
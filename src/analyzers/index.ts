@@ -1,7 +1,13 @@
-export { SummaryAnalyzer } from './SummaryAnalyzer';
+export { SummaryAnalyzer, SUMMARY_STYLES } from './SummaryAnalyzer';
 export { InsightAnalyzer } from './InsightAnalyzer';
+export { QuestionAnswerer, questionAnswerer, QA_ENGINES } from './QuestionAnswerer';
+export { ExtractiveAnswerer, extractiveAnswerer } from './ExtractiveAnswerer';
+export { GroundingVerifier, groundingVerifier } from './GroundingVerifier';
+export { ChatEngine, chatEngine, recentHistory, estimateTokens } from './ChatEngine';
+export { AnalysisPipeline, analysisPipeline, ANALYSIS_STEPS } from './AnalysisPipeline';
 
 export type {
+  SummaryStyle,
   SummaryOptions,
   SummaryResult
 } from './SummaryAnalyzer';
@@ -10,3 +16,31 @@ export type {
   KeywordExtractionResult,
   InsightAnalysisResult
 } from './InsightAnalyzer';
+
+export type {
+  QAEngine,
+  QAOptions,
+  QAResult,
+  CorpusQAOptions,
+  CorpusQAResult,
+  Citation,
+  Claim,
+  SourceDocument
+} from './QuestionAnswerer';
+
+export type { ExtractedAnswer } from './ExtractiveAnswerer';
+
+export type {
+  ClaimStatus,
+  ClaimCheck,
+  GroundingMethod,
+  GroundingReport
+} from './GroundingVerifier';
+
+export type { ChatReply } from './ChatEngine';
+
+export type {
+  AnalysisStep,
+  AnalysisProgress,
+  AnalysisStreamOptions
+} from './AnalysisPipeline';
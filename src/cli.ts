@@ -5,11 +5,25 @@ import chalk from 'chalk';
 import { DocumentIntelligenceSystem } from './index';
 import { logger } from './utils/index';
 import { config } from './core/config';
+import { SEARCH_MODES } from './core/types';
+import { SESSION_EXPORT_FORMATS } from './core/sessions';
+import { SUMMARY_STYLES, QA_ENGINES } from './analyzers/index';
+import { LANGUAGES, FACETS, hybridRetriever, resolveFacet } from './search/index';
 import path from 'path';
+import readline from 'readline';
 
 const program = new Command();
 const system = new DocumentIntelligenceSystem();
 
+const parseList = (value?: string): string[] | undefined =>
+  value ? value.split(',').map(name => name.trim()).filter(Boolean) : undefined;
+
+// The first of the named count options that is set but not a positive integer
+const countOptionError = (options: Record<string, string | undefined>, names: string[]): string | undefined => {
+  const invalid = names.find(name => options[name] !== undefined && !/^[1-9]\d*$/.test(options[name]!.trim()));
+  return invalid ? `--${invalid} must be a positive integer, got "${options[invalid]}"` : undefined;
+};
+
 // Header
 console.log(chalk.cyan.bold('📚 LangChain Document Intelligence System'));
 console.log(chalk.gray('────────────────────────────────────────'));
@@ -35,19 +49,17 @@ program
   .command('process <file>')
   .description('Process a single document file')
   .option('-a, --analyze', 'Analyze the document after processing')
+  .option('-c, --collection <name>', 'Collection to ingest the document into')
   .action(async (file: string, options) => {
     const success = await system.initialize();
     if (!success) return;
 
     const filePath = path.resolve(file);
-    const processed = await system.processFile(filePath);
+    const result = await system.processFile(filePath, { collection: options.collection });
     
-    if (processed && options.analyze) {
-      const documents = system.listDocuments();
-      // Get the last processed document (most recent)
-      // This is a simple implementation - in real app you'd track the document ID
+    if (result && options.analyze) {
       console.log('\n🔍 Analyzing processed document...');
-      // For demo, we'll need to modify this to get the actual document ID
+      await system.analyzeDocument(result.documentId);
     }
   });
 
@@ -56,15 +68,16 @@ program
   .command('process-dir <directory>')
   .description('Process all supported files in a directory')
   .option('-r, --recursive', 'Process subdirectories recursively', true)
+  .option('-c, --collection <name>', 'Collection to ingest the documents into')
   .action(async (directory: string, options) => {
     const success = await system.initialize();
     if (!success) return;
 
     const dirPath = path.resolve(directory);
-    const processed = await system.processDirectory(dirPath);
+    const summary = await system.processDirectory(dirPath, { collection: options.collection });
     
-    if (processed > 0) {
-      system.showStats();
+    if (summary.total > 0 || summary.removed > 0) {
+      system.showStats({ collections: parseList(options.collection) });
     }
   });
 
@@ -79,12 +92,262 @@ program
     await system.analyzeDocument(documentId);
   });
 
+// Summarize command
+program
+  .command('summarize <documentId>')
+  .description('Summarize a document, printing the summary as it is written')
+  .option('-s, --style <style>', SUMMARY_STYLES.join(', '), 'paragraph')
+  .option('-l, --length <words>', 'Maximum length in words', '500')
+  .option('-f, --focus <focus>', 'What the summary should focus on')
+  .option('--no-stream', 'Print the summary only once it is complete')
+  .action(async (documentId: string, options) => {
+    if (!SUMMARY_STYLES.includes(options.style)) {
+      logger.error(`Unknown style "${options.style}" (use ${SUMMARY_STYLES.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const success = await system.initialize();
+    if (!success) return;
+
+    const summary = await system.summarizeDocument(documentId, {
+      style: options.style,
+      maxLength: parseInt(options.length),
+      focus: options.focus,
+    }, options.stream);
+    if (!summary) {
+      process.exitCode = 1;
+    }
+  });
+
 // Search command
 program
   .command('search <query>')
-  .description('Search through processed documents')
-  .action(async (query: string) => {
-    await system.searchDocuments(query);
+  .description('Search through processed documents ("phrases", AND/OR/NOT, -term, field:value, term*, term~)')
+  .option('-c, --collection <names>', 'Comma-separated collections to search')
+  .option('-w, --where <filter>', 'Metadata filter, e.g. "fileType = .pdf and size > 100000"')
+  .option('-t, --tag <tags>', 'Comma-separated tags documents must carry')
+  .option('-l, --limit <n>', 'Documents per page', '10')
+  .option('--cursor <cursor>', 'Cursor printed with the previous page')
+  .option('-s, --sort <field>', 'relevance, filename, size or processedAt', 'relevance')
+  .option('--order <order>', 'asc or desc (default: asc for filename, desc otherwise)')
+  .option('-m, --mode <mode>', 'keyword, semantic or hybrid', 'keyword')
+  .option('-r, --rerank <reranker>', 'Rerank candidates: none, lexical, llm or llm-pointwise (default from RERANKER)')
+  .option('--candidates <n>', 'Candidates retrieved for the reranker (default from RERANK_CANDIDATES)')
+  .option('-x, --expand', 'Also search paraphrases, glossary expansions and sub-queries')
+  .option('-f, --facets <names>', `Comma-separated facets to count over all matches: ${FACETS.join(', ')}`)
+  .action(async (query: string, options) => {
+    if (!SEARCH_MODES.includes(options.mode)) {
+      logger.error(`Unknown search mode "${options.mode}" (use ${SEARCH_MODES.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+    const countError = countOptionError(options, ['candidates']);
+    if (countError) {
+      logger.error(countError);
+      process.exitCode = 1;
+      return;
+    }
+    const unknownFacet = (parseList(options.facets) || []).find(name => !resolveFacet(name));
+    if (unknownFacet) {
+      logger.error(`Unknown facet "${unknownFacet}" (use ${FACETS.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+    if (options.rerank && !hybridRetriever.rerankerNames.includes(options.rerank)) {
+      logger.error(`Unknown reranker "${options.rerank}" (use ${hybridRetriever.rerankerNames.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+
+    await system.searchDocuments(query, {
+      mode: options.mode,
+      collections: parseList(options.collection),
+      where: options.where,
+      tags: parseList(options.tag),
+      limit: parseInt(options.limit),
+      cursor: options.cursor,
+      sort: options.sort,
+      order: options.order,
+      rerank: options.rerank,
+      candidates: options.candidates ? parseInt(options.candidates) : undefined,
+      expand: options.expand,
+      facets: parseList(options.facets),
+    });
+  });
+
+// Ask command
+program
+  .command('ask <documentIdOrQuestion> [question]')
+  .description('Answer a question from a document, or across documents with --all, citing the passages used')
+  .option('-a, --all', 'Answer across all documents (or those selected by the options below)')
+  .option('-d, --documents <ids>', 'Comma-separated documents to answer across')
+  .option('-c, --collection <names>', 'Comma-separated collections to answer across')
+  .option('-w, --where <filter>', 'Metadata filter on the documents to answer across')
+  .option('-t, --tag <tags>', 'Comma-separated tags the documents must carry')
+  .option('-p, --passages <n>', 'Passages retrieved to answer from (default: 5 for one document, 10 across documents)')
+  .option('-e, --engine <engine>', 'generative or extractive (default: generative when an LLM is configured)')
+  .option('-r, --rerank <reranker>', 'Rerank candidates: none, lexical, llm or llm-pointwise (default from RERANKER)')
+  .option('--candidates <n>', 'Candidates retrieved for the reranker (default from RERANK_CANDIDATES)')
+  .option('-x, --expand', 'Also retrieve with paraphrases, glossary expansions and sub-queries')
+  .option('--no-verify', 'Skip checking the answer\'s claims against the passages')
+  .option('--no-stream', 'Print the answer only once it is complete')
+  .action(async (first: string, second: string | undefined, options) => {
+    const acrossDocuments = options.all || options.documents || options.collection || options.where || options.tag;
+    if (acrossDocuments ? second !== undefined : second === undefined) {
+      logger.error(acrossDocuments
+        ? 'Give only the question when asking across documents'
+        : 'Give a document id and a question, or use --all');
+      process.exitCode = 1;
+      return;
+    }
+    if (options.rerank && !hybridRetriever.rerankerNames.includes(options.rerank)) {
+      logger.error(`Unknown reranker "${options.rerank}" (use ${hybridRetriever.rerankerNames.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+    const countError = countOptionError(options, ['passages', 'candidates']);
+    if (countError) {
+      logger.error(countError);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (options.engine && !QA_ENGINES.includes(options.engine)) {
+      logger.error(`Unknown engine "${options.engine}" (use ${QA_ENGINES.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const success = await system.initialize();
+    if (!success) return;
+
+    const qaOptions = {
+      engine: options.engine,
+      passages: options.passages ? parseInt(options.passages) : undefined,
+      rerank: options.rerank,
+      candidates: options.candidates ? parseInt(options.candidates) : undefined,
+      expand: options.expand,
+      verify: options.verify,
+    };
+    const result = acrossDocuments
+      ? await system.askAcrossDocuments(first, {
+          ...qaOptions,
+          documentIds: parseList(options.documents),
+          collections: parseList(options.collection),
+          where: options.where,
+          tags: parseList(options.tag),
+        }, options.stream)
+      : await system.askQuestion(first, second!, qaOptions, options.stream);
+    if (!result) {
+      process.exitCode = 1;
+    }
+  });
+
+// Chat command
+program
+  .command('chat [sessionId]')
+  .description('Chat about documents, with follow-up questions; resumes the session when given its id')
+  .option('-d, --documents <ids>', 'Comma-separated documents to chat about')
+  .option('-c, --collection <names>', 'Comma-separated collections to chat about')
+  .option('--title <title>', 'Title of a new session')
+  .option('-e, --engine <engine>', 'generative or extractive (default: generative when an LLM is configured)')
+  .option('-r, --rerank <reranker>', 'Rerank candidates: none, lexical, llm or llm-pointwise (default from RERANKER)')
+  .option('-x, --expand', 'Also retrieve with paraphrases, glossary expansions and sub-queries')
+  .option('--no-verify', 'Skip checking answers\' claims against the passages')
+  .option('--no-stream', 'Print each answer only once it is complete')
+  .action(async (sessionId: string | undefined, options) => {
+    if (options.rerank && !hybridRetriever.rerankerNames.includes(options.rerank)) {
+      logger.error(`Unknown reranker "${options.rerank}" (use ${hybridRetriever.rerankerNames.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+    if (options.engine && !QA_ENGINES.includes(options.engine)) {
+      logger.error(`Unknown engine "${options.engine}" (use ${QA_ENGINES.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const success = await system.initialize();
+    if (!success) return;
+
+    const chatSession = sessionId
+      ? system.resumeChatSession(sessionId)
+      : system.startChatSession({
+          documentIds: parseList(options.documents),
+          collections: parseList(options.collection),
+        }, options.title);
+    if (!chatSession) {
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(chalk.gray('\nAsk a question, or type "exit" to leave. Resume later with:'));
+    console.log(chalk.gray(`  doc-intel chat ${chatSession.id}`));
+    const input = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: chalk.cyan('\nyou › ') });
+    input.prompt();
+    for await (const line of input) {
+      const question = line.trim();
+      if (question === 'exit' || question === 'quit') break;
+      if (question) {
+        await system.chat(chatSession.id, question, {
+          engine: options.engine,
+          rerank: options.rerank,
+          expand: options.expand,
+          verify: options.verify,
+        }, options.stream);
+      }
+      input.prompt();
+    }
+    input.close();
+  });
+
+// Chat session commands
+const session = program
+  .command('session')
+  .description('Manage chat sessions');
+
+session
+  .command('list')
+  .description('List chat sessions, most recently active first')
+  .action(() => {
+    system.listChatSessions();
+  });
+
+session
+  .command('show <sessionId>')
+  .description('Show the conversation of a chat session')
+  .action((sessionId: string) => {
+    if (!system.resumeChatSession(sessionId)) {
+      process.exitCode = 1;
+    }
+  });
+
+session
+  .command('export <sessionId> <file>')
+  .description('Export a chat session as JSON or a Markdown transcript')
+  .option('-f, --format <format>', `${SESSION_EXPORT_FORMATS.join(' or ')} (default: markdown for .md files, json otherwise)`)
+  .action(async (sessionId: string, file: string, options) => {
+    const format = options.format || (path.extname(file) === '.md' ? 'markdown' : 'json');
+    if (!SESSION_EXPORT_FORMATS.includes(format)) {
+      logger.error(`Unknown format "${format}" (use ${SESSION_EXPORT_FORMATS.join(', ')})`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const success = await system.exportChatSession(sessionId, path.resolve(file), format);
+    if (!success) {
+      process.exitCode = 1;
+    }
+  });
+
+session
+  .command('delete <sessionId>')
+  .description('Delete a chat session and its history')
+  .action((sessionId: string) => {
+    if (!system.deleteChatSession(sessionId)) {
+      process.exitCode = 1;
+    }
   });
 
 // Compare command
@@ -102,22 +365,230 @@ program
 program
   .command('list')
   .description('List all processed documents')
-  .action(() => {
-    system.listDocuments();
+  .option('-c, --collection <names>', 'Comma-separated collections to list')
+  .option('-w, --where <filter>', 'Metadata filter, e.g. "pdfInfo.author exists"')
+  .option('-t, --tag <tags>', 'Comma-separated tags documents must carry')
+  .option('-l, --limit <n>', 'Documents per page', '20')
+  .option('--cursor <cursor>', 'Cursor printed with the previous page')
+  .option('-s, --sort <field>', 'filename, size or processedAt', 'processedAt')
+  .option('--order <order>', 'asc or desc (default: asc for filename, desc otherwise)')
+  .action((options) => {
+    system.listDocuments({
+      collections: parseList(options.collection),
+      where: options.where,
+      tags: parseList(options.tag),
+    }, {
+      limit: parseInt(options.limit),
+      cursor: options.cursor,
+      sort: options.sort,
+      order: options.order,
+    });
+  });
+
+// Reindex command
+program
+  .command('reindex')
+  .description('Embed chunks that are missing from the vector index')
+  .option('-f, --force', 'Re-embed every chunk, e.g. after changing the embedding model')
+  .action(async (options) => {
+    if (!await system.reindexVectors(Boolean(options.force))) {
+      process.exitCode = 1;
+    }
+  });
+
+// Tagging commands
+program
+  .command('tag <documentId> <tags...>')
+  .description('Add tags to a document')
+  .action((documentId: string, tags: string[]) => {
+    if (!system.tagDocument(documentId, tags)) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('untag <documentId> <tags...>')
+  .description('Remove tags from a document')
+  .action((documentId: string, tags: string[]) => {
+    if (!system.tagDocument(documentId, tags, true)) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('note <documentId> [text]')
+  .description('Set (or, without text, clear) the notes on a document')
+  .action((documentId: string, text?: string) => {
+    if (!system.setNotes(documentId, text || null)) {
+      process.exitCode = 1;
+    }
+  });
+
+// Annotation commands
+program
+  .command('annotate <documentId> <startChar> <endChar>')
+  .description('Annotate a character range of a document')
+  .option('-n, --note <text>', 'Annotation note')
+  .option('-t, --tag <tags>', 'Comma-separated annotation tags')
+  .action((documentId: string, startChar: string, endChar: string, options) => {
+    const annotated = system.annotate(documentId, {
+      startChar: parseInt(startChar),
+      endChar: parseInt(endChar),
+      note: options.note,
+      tags: parseList(options.tag),
+    });
+    if (!annotated) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('annotations <documentId>')
+  .description('Show a document\'s tags, notes and annotations')
+  .action((documentId: string) => {
+    system.showAnnotations(documentId);
+  });
+
+program
+  .command('unannotate <documentId> <annotationId>')
+  .description('Remove an annotation')
+  .action((documentId: string, annotationId: string) => {
+    if (!system.removeAnnotation(documentId, annotationId)) {
+      process.exitCode = 1;
+    }
+  });
+
+// History command
+program
+  .command('history <documentId>')
+  .description('List the stored versions of a document')
+  .action((documentId: string) => {
+    system.showHistory(documentId);
+  });
+
+// Diff command
+program
+  .command('diff <documentId> <fromVersion> <toVersion>')
+  .description('Show a line-level diff between two versions of a document')
+  .action((documentId: string, fromVersion: string, toVersion: string) => {
+    system.showDiff(documentId, parseInt(fromVersion), parseInt(toVersion));
   });
 
 // Stats command
 program
   .command('stats')
   .description('Show system statistics')
+  .option('-c, --collection <names>', 'Comma-separated collections to include')
+  .action((options) => {
+    system.showStats({ collections: parseList(options.collection) });
+  });
+
+// Export command
+program
+  .command('export <file>')
+  .description('Export the document store to a portable JSONL bundle')
+  .option('-c, --collection <names>', 'Comma-separated collections to export')
+  .action(async (file: string, options) => {
+    if (!await system.exportCorpus(path.resolve(file), parseList(options.collection))) {
+      process.exitCode = 1;
+    }
+  });
+
+// Import command
+program
+  .command('import <file>')
+  .description('Import a bundle created by "export"')
+  .option('--replace', 'Replace the collections in the bundle instead of merging')
+  .action(async (file: string, options) => {
+    if (!await system.importCorpus(path.resolve(file), options.replace ? 'replace' : 'merge')) {
+      process.exitCode = 1;
+    }
+  });
+
+// Collection commands
+const collection = program
+  .command('collection')
+  .description('Manage document collections');
+
+collection
+  .command('list')
+  .description('List collections with document counts')
   .action(() => {
-    system.showStats();
+    system.listCollections();
+  });
+
+collection
+  .command('create <name>')
+  .description('Create an empty collection')
+  .option('-d, --description <text>', 'Collection description')
+  .action((name: string, options) => {
+    if (!system.createCollection(name, options.description)) {
+      process.exitCode = 1;
+    }
+  });
+
+collection
+  .command('rename <from> <to>')
+  .description('Rename a collection')
+  .action((from: string, to: string) => {
+    if (!system.renameCollection(from, to)) {
+      process.exitCode = 1;
+    }
+  });
+
+collection
+  .command('analysis <name>')
+  .description('Configure tokenization, stopwords and stemming for a collection and reindex it')
+  .option('-l, --language <language>', `auto, none or one of ${LANGUAGES.join(', ')}`, 'auto')
+  .option('--no-stemming', 'Index words unstemmed')
+  .option('--no-stopwords', 'Keep stopwords in the index')
+  .option('--no-fold-accents', 'Keep accents significant')
+  .action((name: string, options) => {
+    const ok = system.configureCollectionAnalysis(name, {
+      language: options.language,
+      stemming: options.stemming,
+      stopwords: options.stopwords,
+      foldAccents: options.foldAccents,
+    });
+    if (!ok) {
+      process.exitCode = 1;
+    }
+  });
+
+collection
+  .command('glossary <name> [entries...]')
+  .description('Show or edit the acronyms used to expand queries, e.g. SLA="service level agreement"')
+  .option('-r, --remove <terms>', 'Comma-separated terms to remove')
+  .action((name: string, entries: string[], options) => {
+    const glossary: Record<string, string> = {};
+    for (const entry of entries) {
+      const separator = entry.indexOf('=');
+      if (separator <= 0) {
+        logger.error(`Glossary entries must look like TERM=expansion: ${entry}`);
+        process.exitCode = 1;
+        return;
+      }
+      glossary[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+
+    if (!system.updateCollectionGlossary(name, glossary, parseList(options.remove))) {
+      process.exitCode = 1;
+    }
+  });
+
+collection
+  .command('delete <name>')
+  .description('Delete a collection and every document in it')
+  .action((name: string) => {
+    if (!system.deleteCollection(name)) {
+      process.exitCode = 1;
+    }
   });
 
 // Clear command
 program
   .command('clear')
-  .description('Clear all processed documents from memory')
+  .description('Clear all processed documents from the document store')
   .action(() => {
     system.clearStore();
   });
@@ -209,12 +680,18 @@ program
     console.log(`\nModel Settings:`);
     console.log(`  OpenAI Model: ${config.openai.model}`);
     console.log(`  Groq Model: ${config.groq.model}`);
-    console.log(`  Embedding Model: ${config.openai.embeddingModel}`);
+    console.log(`  Embedding Provider: ${config.embeddings.provider}`);
+    console.log(`  Embedding Model: ${config.embeddings.provider === 'openai' ? config.openai.embeddingModel : 'local hashed n-grams'}`);
     console.log(`\nProcessing Settings:`);
     console.log(`  Chunk Size: ${config.settings.chunkSize}`);
     console.log(`  Chunk Overlap: ${config.settings.chunkOverlap}`);
     console.log(`  Max Tokens: ${config.settings.maxTokens}`);
     console.log(`  Temperature: ${config.settings.temperature}`);
+    console.log(`  Similarity Threshold: ${config.settings.similarityThreshold}`);
+    console.log(`  Max Results: ${config.settings.maxResults}`);
+    console.log(`\nStorage Settings:`);
+    console.log(`  Backend: ${config.storage.backend}`);
+    console.log(`  Data Directory: ${config.storage.dataDir}`);
   });
 
 // Help command enhancement
@@ -226,7 +703,28 @@ program.on('--help', () => {
   console.log('  $ doc-intel process-dir ./documents       # Process all files in directory');
   console.log('  $ doc-intel analyze <documentId>          # Analyze a document');
   console.log('  $ doc-intel search "artificial intelligence" # Search documents');
+  console.log('  $ doc-intel search "termination rights" -m hybrid # Keyword + semantic search');
+  console.log('  $ doc-intel search \'"machine learning" -finance filename:*.pdf\' # Phrases, exclusions, fields');
+  console.log('  $ doc-intel search "notice period" -m hybrid -r llm --candidates 40 # Rerank the top 40 with the LLM');
+  console.log('  $ doc-intel collection glossary legal SLA="service level agreement" # Expand acronyms in queries');
+  console.log('  $ doc-intel search "SLA penalties" --expand    # Search paraphrases and sub-queries too');
+  console.log('  $ doc-intel search "contract" --facets fileType,author,month # Counts by type, author and month');
+  console.log('  $ doc-intel list --where "fileType = .pdf and size > 100000" # Filter by metadata');
+  console.log('  $ doc-intel list --sort size --limit 50      # Largest documents first, 50 per page');
+  console.log('  $ doc-intel ask <documentId> "What is the notice period?" # Answer with cited passages');
+  console.log('  $ doc-intel ask --all "Which vendors mention SLA penalties?" # Answer across documents');
+  console.log('  $ doc-intel chat -c legal                 # Chat about a collection, with follow-ups');
+  console.log('  $ doc-intel session export <sessionId> chat.md # Export a chat transcript');
   console.log('  $ doc-intel compare <id1> <id2>           # Compare two documents');
+  console.log('  $ doc-intel process-dir ./contracts -c legal # Ingest into a collection');
+  console.log('  $ doc-intel collection list               # List collections');
+  console.log('  $ doc-intel export corpus.jsonl           # Export the store to a bundle');
+  console.log('  $ doc-intel import corpus.jsonl --replace # Import a bundle');
+  console.log('  $ doc-intel history <documentId>          # List document versions');
+  console.log('  $ doc-intel diff <documentId> 1 2         # Diff two document versions');
+  console.log('  $ doc-intel tag <documentId> "key clause" # Tag a document');
+  console.log('  $ doc-intel annotate <documentId> 120 240 -n "Check this" # Annotate a passage');
+  console.log('  $ doc-intel list --tag "needs legal review" # List tagged documents');
   console.log('');
   console.log(chalk.cyan('Configuration:'));
   console.log('  Create a .env file with your API keys:');
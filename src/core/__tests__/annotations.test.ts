@@ -0,0 +1,51 @@
+import { MemoryStorageBackend } from '../storage';
+import { DocumentStore } from '../store';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+describe('annotations', () => {
+  let store: DocumentStore;
+
+  const ingest = (content: string) => {
+    const document = makeDocument('contract', content);
+    store.upsertDocument(document, paragraphChunks(document));
+  };
+
+  beforeEach(() => {
+    store = new DocumentStore(new MemoryStorageBackend());
+    ingest('The term is twelve months. Payment is due in thirty days.');
+  });
+
+  it('records the quoted text of the range, with normalized tags', () => {
+    const annotation = store.addAnnotation('contract', { startChar: 12, endChar: 25, note: 'Check renewal', tags: ['Legal', 'legal'] })!;
+
+    expect(annotation).toEqual(expect.objectContaining({ quote: 'twelve months', note: 'Check renewal', tags: ['legal'] }));
+    expect(store.getAnnotations('contract')).toEqual([annotation]);
+    expect(store.addAnnotation('missing', { startChar: 0, endChar: 1, note: 'x' })).toBeUndefined();
+  });
+
+  it.each([[-1, 3], [5, 5], [0, 1000], [1.5, 3]])('rejects the range %d-%d', (startChar, endChar) => {
+    expect(() => store.addAnnotation('contract', { startChar, endChar, note: 'x' })).toThrow('Invalid annotation range');
+  });
+
+  it('removes annotations by id', () => {
+    const annotation = store.addAnnotation('contract', { startChar: 0, endChar: 3, note: 'x' })!;
+
+    expect(store.removeAnnotation('contract', 'unknown')).toBe(false);
+    expect(store.removeAnnotation('contract', annotation.id)).toBe(true);
+    expect(store.getAnnotations('contract')).toEqual([]);
+  });
+
+  it('follows its quote when the document is re-ingested, and is orphaned when the quote is gone', () => {
+    const moved = store.addAnnotation('contract', { startChar: 27, endChar: 34, note: 'Terms' })!;
+    const removed = store.addAnnotation('contract', { startChar: 12, endChar: 25, note: 'Renewal' })!;
+
+    ingest('Preamble. The term is one year. Payment is due in thirty days.');
+
+    const [followed, orphaned] = store.getAnnotations('contract');
+    expect(followed).toEqual(expect.objectContaining({ id: moved.id, startChar: 32, endChar: 39, orphaned: undefined }));
+    expect(orphaned).toEqual(expect.objectContaining({ id: removed.id, orphaned: true }));
+
+    ingest('The term is twelve months. Payment is due in thirty days.');
+    expect(store.getAnnotations('contract').map(annotation => annotation.orphaned)).toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,145 @@
+import { Readable, Writable } from 'stream';
+import { exportBundle, importBundle } from '../bundle';
+import { MemoryStorageBackend } from '../storage';
+import { DocumentStore } from '../store';
+import { VectorStore } from '../vectors';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+// The bundle written for the store, as text
+const exportText = async (store: DocumentStore, collections: string[] = []): Promise<string> => {
+  let text = '';
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      text += chunk;
+      callback();
+    },
+  });
+  await exportBundle(store, output, collections);
+  return text;
+};
+
+const stubVectors = (embedDocument: (id: string) => Promise<number>) => ({ embedDocument }) as unknown as VectorStore;
+
+describe('corpus bundles', () => {
+  let source: DocumentStore;
+  const embedded: string[] = [];
+  const vectors = stubVectors(async id => {
+    embedded.push(id);
+    return 1;
+  });
+
+  beforeEach(() => {
+    embedded.length = 0;
+    source = new DocumentStore(new MemoryStorageBackend());
+    source.createCollection('research', 'Papers');
+    for (const [id, collection] of [['paper', 'research'], ['memo', undefined]] as const) {
+      const document = makeDocument(id, `${id} text.\n\nMore ${id} text.`, { collection });
+      source.upsertDocument(document, paragraphChunks(document));
+    }
+    const revised = makeDocument('paper', 'paper text, revised.', { collection: 'research' });
+    source.upsertDocument(revised, paragraphChunks(revised));
+    source.addAnnotation('paper', { startChar: 0, endChar: 5, note: 'Title' });
+  });
+
+  it('round-trips documents, chunks, revisions, collections and annotations, embedding what it imports', async () => {
+    const target = new DocumentStore(new MemoryStorageBackend());
+
+    const summary = await importBundle(target, Readable.from(await exportText(source)), 'merge', vectors);
+
+    expect(summary).toEqual(expect.objectContaining({
+      documentsAdded: 2,
+      documentsReplaced: 0,
+      chunks: 3,
+      revisions: 1,
+      annotations: 1,
+      embedded: 2,
+      collections: ['default', 'research'],
+      warnings: [],
+    }));
+    expect(embedded.sort()).toEqual(['memo', 'paper']);
+    expect(target.getDocument('paper')).toEqual(source.getDocument('paper'));
+    expect(target.getVersion('paper', 1)!.content).toBe('paper text.\n\nMore paper text.');
+    expect(target.getCollection('research')!.description).toBe('Papers');
+    expect(target.getAnnotations('paper')[0].quote).toBe('paper');
+  });
+
+  it('exports only the requested collections, and replace clears just those', async () => {
+    const target = new DocumentStore(new MemoryStorageBackend());
+    const stale = makeDocument('stale', 'Old paper.', { collection: 'research' });
+    target.createCollection('research');
+    target.upsertDocument(stale, paragraphChunks(stale));
+    target.upsertDocument(makeDocument('other', 'Kept.'), []);
+
+    await importBundle(target, Readable.from(await exportText(source, ['research'])), 'replace', vectors);
+
+    expect(target.getAllDocuments().map(document => document.id).sort()).toEqual(['other', 'paper']);
+  });
+
+  it('keeps the import and warns when embedding fails', async () => {
+    const target = new DocumentStore(new MemoryStorageBackend());
+    const failing = stubVectors(async () => {
+      throw new Error('Embedding provider unavailable');
+    });
+
+    const summary = await importBundle(target, Readable.from(await exportText(source)), 'merge', failing);
+
+    expect(summary.documentsAdded).toBe(2);
+    expect(summary.embedded).toBe(0);
+    expect(summary.warnings).toEqual([
+      'Embedded 0 of 2 imported documents: Embedding provider unavailable. Run reindex to embed the rest.',
+    ]);
+  });
+
+  it('rejects truncated or malformed bundles without touching the store', async () => {
+    const target = new DocumentStore(new MemoryStorageBackend());
+    const lines = (await exportText(source)).trim().split('\n');
+
+    await expect(importBundle(target, Readable.from(lines.slice(0, -1).join('\n')), 'merge', vectors))
+      .rejects.toThrow('truncated file?');
+    await expect(importBundle(target, Readable.from(lines.slice(1).join('\n')), 'merge', vectors))
+      .rejects.toThrow('the first line must be the manifest');
+    await expect(importBundle(target, Readable.from('{not json'), 'merge', vectors))
+      .rejects.toThrow('line 1 is not valid JSON');
+    expect(target.getAllDocuments()).toEqual([]);
+  });
+
+  it('rejects invalid collection names before a replace deletes anything', async () => {
+    const target = new DocumentStore(new MemoryStorageBackend());
+    target.upsertDocument(makeDocument('kept', 'Kept.'), []);
+    const lines = (await exportText(source)).trim().split('\n');
+    const withRecord = (type: string, edit: (record: any) => void) => lines.map(line => {
+      const record = JSON.parse(line);
+      if (record.type === type) edit(record);
+      return JSON.stringify(record);
+    }).join('\n');
+
+    await expect(importBundle(target, Readable.from(withRecord('collection', record => {
+      record.collection.name = 'bad name';
+    })), 'replace', vectors)).rejects.toThrow('Invalid bundle: Invalid collection name "bad name"');
+    await expect(importBundle(target, Readable.from(withRecord('document', record => {
+      record.document.metadata.collection = 42;
+    })), 'replace', vectors)).rejects.toThrow('Invalid bundle: collection name must be a string, got 42');
+    await expect(importBundle(target, Readable.from(withRecord('collection', record => {
+      record.collection.analysis = { language: 'klingon' };
+    })), 'replace', vectors)).rejects.toThrow('Invalid bundle: Unsupported language: klingon');
+    expect(target.getAllDocuments().map(document => document.id)).toEqual(['kept']);
+  });
+
+  it('keeps existing annotations when merging, and applies collection settings to existing collections', async () => {
+    const target = new DocumentStore(new MemoryStorageBackend());
+    target.createCollection('research');
+    target.upsertDocument(makeDocument('memo', 'memo text.\n\nMore memo text.'), []);
+    const local = target.addAnnotation('memo', { startChar: 0, endChar: 4, note: 'Local' })!;
+    source.setCollectionGlossary('research', { NLP: 'natural language processing' });
+    source.setCollectionAnalysis('research', { stemming: false });
+
+    await importBundle(target, Readable.from(await exportText(source)), 'merge', vectors);
+
+    expect(target.getAnnotations('memo')).toEqual([local]);
+    expect(target.getAnnotations('paper').map(annotation => annotation.note)).toEqual(['Title']);
+    expect(target.getCollection('research')).toEqual(expect.objectContaining({
+      glossary: { NLP: 'natural language processing' },
+      analysis: { stemming: false },
+    }));
+  });
+});
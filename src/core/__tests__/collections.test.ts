@@ -0,0 +1,61 @@
+import { chatEngine } from '../../analyzers/ChatEngine';
+import { CorpusQAResult, questionAnswerer } from '../../analyzers/QuestionAnswerer';
+import { sessionStore } from '../sessions';
+import { documentStore } from '../store';
+import { makeDocument } from '../../__tests__/fixtures';
+
+beforeEach(() => {
+  documentStore.addDocument(makeDocument('policy', 'Leave policy', { collection: 'hr' }));
+  documentStore.addDocument(makeDocument('budget', 'Budget plan', { collection: 'finance' }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  documentStore.clear();
+  sessionStore.listSessions().forEach(session => sessionStore.deleteSession(session.id));
+});
+
+describe('collections', () => {
+  it('creates collections under valid, unused names', () => {
+    documentStore.createCollection('legal', 'Contracts');
+
+    expect(documentStore.listCollections().map(({ name, documentCount }) => [name, documentCount]))
+      .toEqual([['finance', 1], ['hr', 1], ['legal', 0]]);
+    expect(() => documentStore.createCollection('legal')).toThrow('Collection already exists: legal');
+    expect(() => documentStore.createCollection('two words')).toThrow('Invalid collection name "two words"');
+  });
+
+  it('renames a collection, moving its documents and the chat sessions scoped to it', () => {
+    const scoped = sessionStore.createSession({ collections: ['hr', 'finance'] });
+    const unscoped = sessionStore.createSession();
+
+    documentStore.renameCollection('hr', 'people');
+
+    expect(documentStore.getCollection('hr')).toBeUndefined();
+    expect(documentStore.getDocument('policy')?.metadata.collection).toBe('people');
+    expect(documentStore.getAllDocuments({ collections: ['people'] }).map(doc => doc.id)).toEqual(['policy']);
+    expect(sessionStore.getSession(scoped.id)?.collections).toEqual(['people', 'finance']);
+    expect(sessionStore.getSession(unscoped.id)?.collections).toBeUndefined();
+  });
+
+  it('refuses to rename a missing collection or onto an existing one', () => {
+    expect(() => documentStore.renameCollection('legal', 'law')).toThrow('Collection not found: legal');
+    expect(() => documentStore.renameCollection('hr', 'finance')).toThrow('Collection already exists: finance');
+    expect(documentStore.getDocument('policy')?.metadata.collection).toBe('hr');
+  });
+
+  it('deletes a collection with its documents, leaving sessions to answer from what remains', async () => {
+    const answerAcrossDocuments = jest.spyOn(questionAnswerer, 'answerAcrossDocuments')
+      .mockResolvedValue({ answer: 'Answer', found: false, citations: [] } as unknown as CorpusQAResult);
+    const onlyHr = sessionStore.createSession({ collections: ['hr'] });
+    const both = sessionStore.createSession({ collections: ['hr', 'finance'] });
+
+    expect(documentStore.deleteCollection('hr')).toBe(1);
+
+    expect(documentStore.getDocument('policy')).toBeUndefined();
+    await expect(chatEngine.ask(onlyHr.id, 'What is the leave policy?'))
+      .rejects.toThrow('None of the session\'s collections exist any more');
+    await chatEngine.ask(both.id, 'What is the budget?');
+    expect(answerAcrossDocuments).toHaveBeenCalledWith('What is the budget?', expect.objectContaining({ collections: ['finance'] }), {});
+  });
+});
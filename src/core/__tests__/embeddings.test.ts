@@ -0,0 +1,43 @@
+import { cosineSimilarity, createEmbeddingProvider, LocalEmbeddings } from '../embeddings';
+
+describe('LocalEmbeddings', () => {
+  const embeddings = new LocalEmbeddings(256);
+
+  it('produces stable unit vectors of the configured dimension', () => {
+    const vector = embeddings.embed('Quarterly revenue grew in Europe.');
+
+    expect(vector).toHaveLength(256);
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 6);
+    expect(embeddings.embed('Quarterly revenue grew in Europe.')).toEqual(vector);
+    expect(embeddings.embed('')).toEqual(new Array(256).fill(0));
+  });
+
+  it('places texts sharing vocabulary closer than unrelated ones', async () => {
+    const [query] = await embeddings.embedDocuments(['revenue growth in european markets']);
+    const related = await embeddings.embedQuery('Revenue grew strongly across European markets.');
+    const unrelated = await embeddings.embedQuery('The hiking trail climbs through pine forests.');
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(0.3);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated) + 0.2);
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('names the local vector space after its dimension', () => {
+    const provider = createEmbeddingProvider('local');
+
+    expect(provider.model).toBe(`local-hashed-ngrams-v1-${provider.dimension}`);
+    expect(provider.embeddings).toBeInstanceOf(LocalEmbeddings);
+  });
+
+  it('requires an API key for OpenAI', () => {
+    expect(() => createEmbeddingProvider('openai')).toThrow('OpenAI API key is required');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('is 1 for parallel vectors and 0 against a zero vector', () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(cosineSimilarity([1, 1], [2, 2])).toBeCloseTo(1);
+  });
+});
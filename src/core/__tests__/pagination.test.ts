@@ -0,0 +1,79 @@
+import { CursorError, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, pageRequest, paginate } from '../pagination';
+import { Document, PageRequest } from '../types';
+import { makeDocument } from '../../__tests__/fixtures';
+
+const documents = [
+  makeDocument('a', 'x', { filename: 'Charlie.txt', size: 300 }),
+  makeDocument('b', 'x', { filename: 'alpha.txt', size: 100 }),
+  makeDocument('c', 'x', { filename: 'bravo.txt', size: 300 }),
+  makeDocument('d', 'x', { filename: 'delta.txt', size: 200 }),
+];
+
+const same = (document: Document) => document;
+
+// Every item id, following nextCursor page by page
+const walk = (items: Document[], request: PageRequest): string[][] => {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = paginate(items, { ...request, cursor }, same);
+    pages.push(page.items.map(document => document.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+};
+
+describe('pageRequest', () => {
+  it('fills in defaults', () => {
+    expect(pageRequest({}, 'relevance')).toEqual({ sort: 'relevance', order: 'desc', limit: DEFAULT_PAGE_SIZE, cursor: undefined });
+    expect(pageRequest({ sort: 'filename' }, 'relevance').order).toBe('asc');
+  });
+
+  it.each([
+    [{ sort: 'title' }, 'Sort must be one of'],
+    [{ order: 'up' }, 'Order must be asc or desc'],
+    [{ limit: '0' }, 'Limit must be an integer'],
+    [{ limit: String(MAX_PAGE_SIZE + 1) }, 'Limit must be an integer'],
+    [{ cursor: ['a'] }, 'Cursor must be a string'],
+  ])('rejects %j', (input, message) => {
+    expect(() => pageRequest(input, 'relevance')).toThrow(CursorError);
+    expect(() => pageRequest(input, 'relevance')).toThrow(message);
+  });
+});
+
+describe('paginate', () => {
+  it('pages relevance order by rank', () => {
+    expect(walk(documents, { sort: 'relevance', limit: 3 })).toEqual([['a', 'b', 'c'], ['d']]);
+    expect(walk(documents, { sort: 'relevance', order: 'asc', limit: 3 })).toEqual([['d', 'c', 'b'], ['a']]);
+  });
+
+  it('sorts by field (filename ascending, others descending), breaking ties by id', () => {
+    expect(walk(documents, { sort: 'filename', limit: 2 })).toEqual([['b', 'c'], ['a', 'd']]);
+    expect(walk(documents, { sort: 'size', limit: 2 })).toEqual([['a', 'c'], ['d', 'b']]);
+  });
+
+  it('counts every item and ends with a null cursor', () => {
+    const page = paginate(documents, { sort: 'size', limit: 10 }, same);
+
+    expect(page.total).toBe(4);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('continues after the last item even when items before it were removed', () => {
+    const first = paginate(documents, { sort: 'filename', limit: 2 }, same);
+    const remaining = documents.filter(document => document.id !== 'b');
+
+    const next = paginate(remaining, { sort: 'filename', limit: 2, cursor: first.nextCursor! }, same);
+    expect(next.items.map(document => document.id)).toEqual(['a', 'd']);
+  });
+
+  it('rejects cursors issued for another sort, and malformed ones', () => {
+    const { nextCursor } = paginate(documents, { sort: 'size', limit: 1 }, same);
+
+    expect(() => paginate(documents, { sort: 'filename', cursor: nextCursor! }, same))
+      .toThrow('Cursor was issued for sort size desc, not filename asc');
+    expect(() => paginate(documents, { sort: 'size', cursor: 'not-a-cursor' }, same)).toThrow(CursorError);
+    expect(() => paginate(documents, { sort: 'relevance', cursor: Buffer.from('{"sort":"relevance","order":"desc","rank":-1}').toString('base64url') }, same))
+      .toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,55 @@
+import { MemoryStorageBackend } from '../storage';
+import { DocumentStore } from '../store';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+describe('document revisions', () => {
+  let store: DocumentStore;
+
+  // Ingests `content` as the next revision of the document `report`
+  const ingest = (content: string, extra: Parameters<typeof makeDocument>[3] = {}) => {
+    const document = makeDocument('report', content, { contentHash: content }, extra);
+    store.upsertDocument(document, paragraphChunks(document));
+    return document;
+  };
+
+  beforeEach(() => {
+    store = new DocumentStore(new MemoryStorageBackend());
+  });
+
+  it('archives the current content as a numbered revision on re-ingestion', () => {
+    ingest('First draft.');
+    ingest('Second draft.\n\nWith an appendix.');
+
+    expect(store.getDocument('report')!.metadata.version).toBe(2);
+    expect(store.getVersions('report')!.map(({ version, current, chunkCount }) => ({ version, current, chunkCount })))
+      .toEqual([
+        { version: 1, current: false, chunkCount: 1 },
+        { version: 2, current: true, chunkCount: 2 },
+      ]);
+    expect(store.getVersion('report', 1)!.content).toBe('First draft.');
+    expect(store.getVersion('report', 2)!.content).toBe('Second draft.\n\nWith an appendix.');
+    expect(store.getVersion('report', 3)).toBeUndefined();
+  });
+
+  it('diffs any two versions', () => {
+    ingest('Title\nOld line');
+    ingest('Title\nNew line');
+
+    const diff = store.diffVersions('report', 1, 2)!;
+    expect([diff.added, diff.removed]).toEqual([1, 1]);
+    expect(store.diffVersions('report', 1, 5)).toBeUndefined();
+    expect(store.getVersions('missing')).toBeUndefined();
+  });
+
+  it('carries tags and notes over to the new revision, and chunk tags to unchanged chunks', () => {
+    const first = ingest('Kept paragraph.\n\nOld paragraph.', { tags: ['finance'], notes: 'Check totals' });
+    store.addChunks(first.id, store.getChunks(first.id).map(chunk => ({ ...chunk, tags: ['reviewed'] })));
+
+    ingest('Kept paragraph.\n\nNew paragraph.');
+
+    const document = store.getDocument('report')!;
+    expect(document.tags).toEqual(['finance']);
+    expect(document.notes).toBe('Check totals');
+    expect(store.getChunks('report').map(chunk => chunk.tags)).toEqual([['reviewed'], undefined]);
+  });
+});
@@ -0,0 +1,94 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { FileStorageBackend, MemoryStorageBackend, StorageBackend } from '../storage';
+import { DocumentStore } from '../store';
+import { logger } from '../../utils/logger';
+import { makeDocument } from '../../__tests__/fixtures';
+
+const tempDirs: string[] = [];
+
+const tempDir = (): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doc-intel-test-'));
+  tempDirs.push(dir);
+  return dir;
+};
+
+afterAll(() => tempDirs.forEach(dir => fs.removeSync(dir)));
+
+describe.each([
+  ['memory', () => new MemoryStorageBackend()],
+  ['file', () => new FileStorageBackend(tempDir())],
+])('%s storage backend', (_name, create: () => StorageBackend) => {
+  let backend: StorageBackend;
+
+  beforeEach(() => {
+    backend = create();
+  });
+
+  it('reads back what was set, per namespace', () => {
+    backend.set('documents', 'a', { value: 1 });
+    backend.set('chunks', 'a', { value: 2 });
+
+    expect(backend.get('documents', 'a')).toEqual({ value: 1 });
+    expect(backend.get('chunks', 'a')).toEqual({ value: 2 });
+    expect(backend.get('documents', 'missing')).toBeUndefined();
+  });
+
+  it('lists entries with their keys, including keys that need escaping', () => {
+    backend.set('documents', 'a/b c', 1);
+    backend.set('documents', 'd', 2);
+
+    expect(backend.entries<number>('documents').sort()).toEqual([['a/b c', 1], ['d', 2]]);
+    expect(backend.entries('unknown')).toEqual([]);
+  });
+
+  it('deletes single records and clears one namespace or all of them', () => {
+    backend.set('documents', 'a', 1);
+    backend.set('documents', 'b', 2);
+    backend.set('sessions', 's', 3);
+
+    backend.delete('documents', 'a');
+    expect(backend.get('documents', 'a')).toBeUndefined();
+
+    backend.clear('documents');
+    expect(backend.entries('documents')).toEqual([]);
+    expect(backend.get('sessions', 's')).toBe(3);
+
+    backend.clear();
+    expect(backend.get('sessions', 's')).toBeUndefined();
+  });
+});
+
+describe('FileStorageBackend', () => {
+  it('shares records between instances over the same directory', () => {
+    const dataDir = tempDir();
+    new FileStorageBackend(dataDir).set('documents', 'a', { value: 1 });
+
+    expect(new FileStorageBackend(dataDir).get('documents', 'a')).toEqual({ value: 1 });
+  });
+
+  it('skips unreadable records with a warning', () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    const dataDir = tempDir();
+    const backend = new FileStorageBackend(dataDir);
+    backend.set('documents', 'a', 1);
+    fs.writeFileSync(path.join(dataDir, 'documents', 'b.json'), '{ truncated');
+
+    expect(backend.entries('documents')).toEqual([['a', 1]]);
+    expect(backend.get('documents', 'b')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Skipping unreadable record ${path.join(dataDir, 'documents', 'b.json')}`));
+    warn.mockRestore();
+  });
+});
+
+describe('DocumentStore over a file backend', () => {
+  it('loads documents written by another store, with dates revived', () => {
+    const dataDir = tempDir();
+    new DocumentStore(new FileStorageBackend(dataDir)).addDocument(makeDocument('doc-1', 'Persisted text'));
+
+    const reloaded = new DocumentStore(new FileStorageBackend(dataDir)).getDocument('doc-1');
+    expect(reloaded?.content).toBe('Persisted text');
+    expect(reloaded?.metadata.createdAt).toEqual(new Date('2024-01-01T00:00:00Z'));
+  });
+});
@@ -0,0 +1,71 @@
+import { createEmbeddingProvider, EmbeddingProvider } from '../embeddings';
+import { MemoryStorageBackend } from '../storage';
+import { DocumentStore } from '../store';
+import { VectorStore } from '../vectors';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+describe('VectorStore', () => {
+  let store: DocumentStore;
+  let backend: MemoryStorageBackend;
+  let provider: EmbeddingProvider;
+  let vectors: VectorStore;
+  let embedded: string[];
+
+  const ingest = (id: string, content: string, collection?: string) => {
+    const document = makeDocument(id, content, { collection });
+    store.upsertDocument(document, paragraphChunks(document));
+  };
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    store = new DocumentStore(backend);
+    provider = createEmbeddingProvider('local');
+    vectors = new VectorStore(store, backend, () => provider);
+    embedded = [];
+    const embedDocuments = provider.embeddings.embedDocuments.bind(provider.embeddings);
+    jest.spyOn(provider.embeddings, 'embedDocuments').mockImplementation(async texts => {
+      embedded.push(...texts);
+      return embedDocuments(texts);
+    });
+
+    ingest('finance', 'Quarterly revenue grew in Europe.\n\nOperating costs fell.');
+    ingest('travel', 'The hiking trail climbs through pine forests.', 'trips');
+  });
+
+  it('finds the chunks closest to the query, within the requested collections', async () => {
+    await vectors.sync();
+
+    const hits = await vectors.search('european revenue growth', { threshold: 0 });
+    expect(hits[0].chunk.id).toBe('finance-0');
+    const scoped = await vectors.search('european revenue growth', { threshold: 0, collections: ['trips'] });
+    expect(scoped.map(hit => hit.chunk.documentId)).toEqual(['travel']);
+  });
+
+  it('embeds only chunks whose text changed', async () => {
+    await vectors.sync();
+    embedded = [];
+
+    ingest('finance', 'Quarterly revenue grew in Europe.\n\nOperating costs rose.');
+    expect(await vectors.embedDocument('finance')).toBe(1);
+    expect(embedded).toEqual(['Operating costs rose.']);
+  });
+
+  it('embeds nothing but the query when searching', async () => {
+    await vectors.search('revenue', { threshold: 0 });
+
+    expect(embedded).toEqual([]);
+    expect(await vectors.sync()).toEqual({ embedded: 2, removed: 0, unchanged: 0 });
+    expect(await vectors.sync()).toEqual({ embedded: 0, removed: 0, unchanged: 2 });
+  });
+
+  it('drops the vectors of removed documents', async () => {
+    await vectors.sync();
+
+    store.removeDocument('travel');
+
+    expect(vectors.size).toBe(2);
+    expect(await vectors.search('hiking trail', { threshold: 0 })).not.toContainEqual(
+      expect.objectContaining({ chunk: expect.objectContaining({ documentId: 'travel' }) })
+    );
+  });
+});
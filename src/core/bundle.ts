@@ -0,0 +1,364 @@
+import readline from 'readline';
+import { once } from 'events';
+import { Readable, Writable } from 'stream';
+import { config } from './config';
+import { MemoryStorageBackend } from './storage';
+import { DocumentStore, reviveDocument, collectionOf } from './store';
+import { VectorStore } from './vectors';
+import { Document, DocumentChunk, DocumentRevision, CachedAnalysis, Collection, Annotation } from './types';
+
+export const BUNDLE_FORMAT = 'doc-intel-bundle';
+// Version 2 added annotation records
+export const BUNDLE_SCHEMA_VERSION = 2;
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  // Collections the bundle was scoped to; empty for a full-store export
+  scope: string[];
+  chunking: {
+    chunkSize: number;
+    chunkOverlap: number;
+  };
+  counts: {
+    collections: number;
+    documents: number;
+    chunks: number;
+    revisions: number;
+    analyses: number;
+    annotations?: number;
+  };
+}
+
+export type BundleRecord =
+  | { type: 'manifest'; manifest: BundleManifest }
+  | { type: 'collection'; collection: Collection }
+  | { type: 'document'; document: Document }
+  | { type: 'chunk'; chunk: DocumentChunk }
+  | { type: 'revision'; revision: DocumentRevision }
+  | { type: 'analysis'; analysis: CachedAnalysis }
+  | { type: 'annotation'; annotation: Annotation };
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+  mode: ImportMode;
+  documentsAdded: number;
+  documentsReplaced: number;
+  chunks: number;
+  revisions: number;
+  analyses: number;
+  annotations: number;
+  // Imported documents whose chunks were embedded into the vector index
+  embedded: number;
+  collections: string[];
+  warnings: string[];
+}
+
+/**
+ * Writes the store (or the given collections) as JSON Lines: a manifest line
+ * followed by one record per collection, document, chunk, archived revision,
+ * cached analysis and annotation.
+ */
+export const exportBundle = async (
+  store: DocumentStore,
+  output: Writable,
+  collections: string[] = []
+): Promise<BundleManifest> => {
+  const documents = store.getAllDocuments({ collections });
+  const scope = new Set(documents.map(collectionOf).concat(collections));
+  const records: BundleRecord[] = [];
+
+  store.listCollections()
+    .filter(collection => scope.has(collection.name))
+    .forEach(({ name, description, createdAt, analysis, glossary }) => {
+      records.push({ type: 'collection', collection: { name, description, createdAt, analysis, glossary } });
+    });
+
+  for (const document of documents) {
+    records.push({ type: 'document', document });
+    store.getChunks(document.id).forEach(chunk => records.push({ type: 'chunk', chunk }));
+    store.getArchivedRevisions(document.id).forEach(revision => records.push({ type: 'revision', revision }));
+
+    const analysis = store.getAnalysis(document.id);
+    if (analysis) {
+      records.push({ type: 'analysis', analysis });
+    }
+    store.getAnnotations(document.id).forEach(annotation => records.push({ type: 'annotation', annotation }));
+  }
+
+  const count = (type: BundleRecord['type']) => records.filter(record => record.type === type).length;
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    scope: collections,
+    chunking: {
+      chunkSize: config.settings.chunkSize,
+      chunkOverlap: config.settings.chunkOverlap,
+    },
+    counts: {
+      collections: count('collection'),
+      documents: count('document'),
+      chunks: count('chunk'),
+      revisions: count('revision'),
+      analyses: count('analysis'),
+      annotations: count('annotation'),
+    },
+  };
+
+  for (const record of [{ type: 'manifest', manifest } as BundleRecord, ...records]) {
+    if (!output.write(JSON.stringify(record) + '\n')) {
+      await once(output, 'drain');
+    }
+  }
+
+  return manifest;
+};
+
+/**
+ * Reads and validates a whole bundle before touching the store, so a corrupt
+ * or incompatible file never leaves a half-imported corpus behind.
+ *
+ * `merge` keeps existing documents and overwrites those with the same id,
+ * keeping their annotations alongside the imported ones; `replace` first
+ * deletes the collections the bundle covers (the entire store for a full
+ * export). The bundle's collection settings apply to existing collections too.
+ * Imported documents are then embedded into `vectors`, which must index
+ * `store`; if that fails the import stands and a warning points to `reindex`.
+ */
+export const importBundle = async (
+  store: DocumentStore,
+  input: Readable,
+  mode: ImportMode,
+  vectors: VectorStore
+): Promise<ImportSummary> => {
+  const { manifest, records } = await readBundle(input);
+  const warnings: string[] = [];
+
+  if (
+    manifest.chunking.chunkSize !== config.settings.chunkSize ||
+    manifest.chunking.chunkOverlap !== config.settings.chunkOverlap
+  ) {
+    warnings.push(
+      `Bundle was chunked with size ${manifest.chunking.chunkSize}/overlap ${manifest.chunking.chunkOverlap}; ` +
+      `current settings are ${config.settings.chunkSize}/${config.settings.chunkOverlap}. Re-process files to rechunk.`
+    );
+  }
+
+  const collections = records.flatMap(record => (record.type === 'collection' ? [record.collection] : []));
+  const documents = records.flatMap(record => (record.type === 'document' ? [reviveDocument(record.document)] : []));
+  const chunksByDocument = groupBy(records, 'chunk', record => record.chunk.documentId, record => record.chunk);
+  const revisionsByDocument = groupBy(records, 'revision', record => record.revision.documentId, record => record.revision);
+  const analyses = records.flatMap(record => (record.type === 'analysis' ? [record.analysis] : []));
+  const annotationsByDocument = groupBy(
+    records,
+    'annotation',
+    record => record.annotation.documentId,
+    record => ({ ...record.annotation, createdAt: new Date(record.annotation.createdAt) })
+  );
+
+  if (mode === 'replace') {
+    if (manifest.scope.length === 0) {
+      store.clear();
+    } else {
+      manifest.scope
+        .filter(name => store.getCollection(name))
+        .forEach(name => store.deleteCollection(name));
+    }
+  }
+
+  for (const collection of collections) {
+    if (!store.getCollection(collection.name)) {
+      store.createCollection(collection.name, collection.description);
+    }
+    if (collection.analysis) {
+      store.setCollectionAnalysis(collection.name, collection.analysis);
+    }
+    if (collection.glossary) {
+      store.setCollectionGlossary(collection.name, collection.glossary);
+    }
+  }
+
+  const summary: ImportSummary = {
+    mode,
+    documentsAdded: 0,
+    documentsReplaced: 0,
+    chunks: 0,
+    revisions: 0,
+    analyses: 0,
+    annotations: 0,
+    embedded: 0,
+    collections: collections.map(collection => collection.name),
+    warnings,
+  };
+
+  for (const document of documents) {
+    const chunks = (chunksByDocument.get(document.id) || []).sort((a, b) => a.index - b.index);
+    const revisions = revisionsByDocument.get(document.id) || [];
+    const annotations = annotationsByDocument.get(document.id) || [];
+
+    if (store.getDocument(document.id)) {
+      summary.documentsReplaced++;
+    } else {
+      summary.documentsAdded++;
+    }
+
+    store.addDocument(document);
+    store.addChunks(document.id, chunks);
+    store.setArchivedRevisions(document.id, revisions);
+    store.setAnnotations(document.id, mergeAnnotations(store.getAnnotations(document.id), annotations));
+    summary.chunks += chunks.length;
+    summary.revisions += revisions.length;
+    summary.annotations += annotations.length;
+  }
+
+  for (const analysis of analyses) {
+    store.saveAnalysis(analysis);
+    summary.analyses++;
+  }
+
+  try {
+    for (const document of documents) {
+      await vectors.embedDocument(document.id);
+      summary.embedded++;
+    }
+  } catch (error) {
+    warnings.push(
+      `Embedded ${summary.embedded} of ${documents.length} imported documents: ${(error as Error).message}. ` +
+      'Run reindex to embed the rest.'
+    );
+  }
+
+  return summary;
+};
+
+const readBundle = async (input: Readable): Promise<{ manifest: BundleManifest; records: BundleRecord[] }> => {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  const records: BundleRecord[] = [];
+  let manifest: BundleManifest | undefined;
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let record: BundleRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid bundle: line ${lineNumber} is not valid JSON`);
+    }
+
+    if (!manifest) {
+      if (record.type !== 'manifest') {
+        throw new Error('Invalid bundle: the first line must be the manifest');
+      }
+      manifest = validateManifest(record.manifest);
+      continue;
+    }
+
+    if (!['collection', 'document', 'chunk', 'revision', 'analysis', 'annotation'].includes(record.type)) {
+      throw new Error(`Invalid bundle: unknown record type "${record.type}" on line ${lineNumber}`);
+    }
+    records.push(record);
+  }
+
+  if (!manifest) {
+    throw new Error('Invalid bundle: file is empty');
+  }
+
+  const documentCount = records.filter(record => record.type === 'document').length;
+  const chunkCount = records.filter(record => record.type === 'chunk').length;
+  if (documentCount !== manifest.counts.documents || chunkCount !== manifest.counts.chunks) {
+    throw new Error(
+      `Invalid bundle: manifest lists ${manifest.counts.documents} documents and ${manifest.counts.chunks} chunks ` +
+      `but the file contains ${documentCount} and ${chunkCount} (truncated file?)`
+    );
+  }
+
+  const documentIds = new Set(records.flatMap(record => (record.type === 'document' ? [record.document.id] : [])));
+  const orphan = records.find(record => record.type === 'chunk' && !documentIds.has(record.chunk.documentId));
+  if (orphan && orphan.type === 'chunk') {
+    throw new Error(`Invalid bundle: chunk ${orphan.chunk.id} references unknown document ${orphan.chunk.documentId}`);
+  }
+  validateCollections(manifest, records);
+
+  return { manifest, records };
+};
+
+// Applies the bundle's collections, and those its documents and scope name, to
+// a scratch store, so anything the real store would reject fails the import
+// before a replace deletes anything
+const validateCollections = (manifest: BundleManifest, records: BundleRecord[]): void => {
+  const scratch = new DocumentStore(new MemoryStorageBackend());
+  const ensure = (name: unknown) => {
+    if (typeof name !== 'string') {
+      throw new Error(`collection name must be a string, got ${JSON.stringify(name)}`);
+    }
+    if (!scratch.getCollection(name)) {
+      scratch.createCollection(name);
+    }
+  };
+
+  try {
+    manifest.scope.forEach(ensure);
+    for (const record of records) {
+      if (record.type === 'collection') {
+        ensure(record.collection.name);
+        if (record.collection.analysis) {
+          scratch.setCollectionAnalysis(record.collection.name, record.collection.analysis);
+        }
+        if (record.collection.glossary) {
+          scratch.setCollectionGlossary(record.collection.name, record.collection.glossary);
+        }
+      } else if (record.type === 'document') {
+        ensure(collectionOf(record.document));
+      }
+    }
+  } catch (error) {
+    throw new Error(`Invalid bundle: ${(error as Error).message}`);
+  }
+};
+
+// The existing annotations with the imported ones added, imported taking precedence by id
+const mergeAnnotations = (existing: Annotation[], imported: Annotation[]): Annotation[] => {
+  const importedIds = new Set(imported.map(annotation => annotation.id));
+  return [...existing.filter(annotation => !importedIds.has(annotation.id)), ...imported];
+};
+
+const validateManifest = (manifest: BundleManifest | undefined): BundleManifest => {
+  if (!manifest || manifest.format !== BUNDLE_FORMAT) {
+    throw new Error(`Invalid bundle: manifest format must be "${BUNDLE_FORMAT}"`);
+  }
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported bundle schema version ${manifest.schemaVersion} (this build reads up to ${BUNDLE_SCHEMA_VERSION})`
+    );
+  }
+  if (!manifest.counts || !manifest.chunking || !Array.isArray(manifest.scope)) {
+    throw new Error('Invalid bundle: manifest is missing counts, chunking or scope');
+  }
+  return manifest;
+};
+
+const groupBy = <T extends BundleRecord['type'], V>(
+  records: BundleRecord[],
+  type: T,
+  keyOf: (record: Extract<BundleRecord, { type: T }>) => string,
+  valueOf: (record: Extract<BundleRecord, { type: T }>) => V
+): Map<string, V[]> => {
+  const groups = new Map<string, V[]>();
+  for (const record of records) {
+    if (record.type !== type) continue;
+
+    const typed = record as Extract<BundleRecord, { type: T }>;
+    const key = keyOf(typed);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(valueOf(typed));
+  }
+  return groups;
+};
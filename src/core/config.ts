@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import path from 'path';
 
 // Load environment variables
 dotenv.config();
@@ -16,6 +17,9 @@ export interface AppConfig {
   huggingface: {
     apiKey: string;
   };
+  embeddings: {
+    provider: 'openai' | 'local';
+  };
   settings: {
     chunkSize: number;
     chunkOverlap: number;
@@ -24,9 +28,27 @@ export interface AppConfig {
     vectorDimension: number;
     similarityThreshold: number;
     maxResults: number;
+    // Reranker applied when a search does not name one ('none' disables reranking)
+    reranker: string;
+    rerankCandidates: number;
+    // Approximate tokens of earlier turns kept when condensing a chat follow-up
+    chatHistoryTokens: number;
+  };
+  storage: {
+    backend: 'file' | 'memory';
+    dataDir: string;
+  };
+  server: {
+    adminToken: string;
   };
 }
 
+// Without an explicit choice, use OpenAI when a key is configured and embed offline otherwise
+const embeddingProvider: AppConfig['embeddings']['provider'] =
+  process.env.EMBEDDING_PROVIDER === 'openai' || process.env.EMBEDDING_PROVIDER === 'local'
+    ? process.env.EMBEDDING_PROVIDER
+    : process.env.OPENAI_API_KEY ? 'openai' : 'local';
+
 export const config: AppConfig = {
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
@@ -40,14 +62,28 @@ export const config: AppConfig = {
   huggingface: {
     apiKey: process.env.HUGGINGFACE_API_KEY || '',
   },
+  embeddings: {
+    provider: embeddingProvider,
+  },
   settings: {
     chunkSize: parseInt(process.env.DEFAULT_CHUNK_SIZE || '1000'),
     chunkOverlap: parseInt(process.env.DEFAULT_CHUNK_OVERLAP || '200'),
     maxTokens: parseInt(process.env.MAX_TOKENS || '500'),
     temperature: parseFloat(process.env.TEMPERATURE || '0.7'),
     vectorDimension: parseInt(process.env.VECTOR_DIMENSION || '1536'),
-    similarityThreshold: parseFloat(process.env.SIMILARITY_THRESHOLD || '0.8'),
+    // Local hashed vectors score lower than learned embeddings for the same match
+    similarityThreshold: parseFloat(process.env.SIMILARITY_THRESHOLD || (embeddingProvider === 'local' ? '0.15' : '0.8')),
     maxResults: parseInt(process.env.MAX_RESULTS || '5'),
+    reranker: process.env.RERANKER || 'none',
+    rerankCandidates: parseInt(process.env.RERANK_CANDIDATES || '30'),
+    chatHistoryTokens: parseInt(process.env.CHAT_HISTORY_TOKENS || '1500'),
+  },
+  storage: {
+    backend: process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'file',
+    dataDir: path.resolve(process.env.DATA_DIR || path.join(process.cwd(), 'data')),
+  },
+  server: {
+    adminToken: process.env.ADMIN_TOKEN || '',
   },
 };
 
@@ -57,8 +93,9 @@ export const validateConfig = (): boolean => {
   const hasHuggingFace = !!config.huggingface.apiKey;
 
   if (!hasOpenAI && !hasGroq && !hasHuggingFace) {
-    console.error('❌ No API keys configured. Please set at least one of: OPENAI_API_KEY, GROQ_API_KEY, or HUGGINGFACE_API_KEY');
-    return false;
+    // Processing, search and extractive QA need no provider
+    console.warn('⚠️  No API keys configured; running offline. Set OPENAI_API_KEY or GROQ_API_KEY for generative features');
+    return true;
   }
 
   console.log('✅ Configuration validated successfully');
@@ -70,6 +107,8 @@ export const validateConfig = (): boolean => {
     console.log('🚀 Using Groq API (Free) for language model operations');
   } else if (hasOpenAI) {
     console.log('🚀 Using OpenAI API for language model operations');
+  } else {
+    console.log('📌 No language model configured; questions are answered extractively');
   }
   
   return true;
@@ -0,0 +1,133 @@
+import { Embeddings } from '@langchain/core/embeddings';
+import { OpenAIEmbeddings } from '@langchain/openai';
+import { config, AppConfig } from './config';
+import { tokenize } from '../search/TextAnalyzer';
+
+export type EmbeddingProviderName = AppConfig['embeddings']['provider'];
+
+/**
+ * An embedding model together with the identity of the vector space it
+ * produces. Vectors are only comparable when their `model` strings match.
+ */
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  dimension: number;
+  embeddings: Embeddings;
+}
+
+const LOCAL_MODEL = 'local-hashed-ngrams-v1';
+
+// Relative weight of each feature family in a local embedding
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * Offline embeddings built with the hashing trick: word unigrams, word
+ * bigrams and character trigrams are hashed into a fixed number of signed
+ * buckets, log-scaled and L2-normalised. Needs no network or model files, and
+ * texts sharing vocabulary (including inflections, via trigrams) land close
+ * together under cosine similarity.
+ */
+export class LocalEmbeddings extends Embeddings {
+  constructor(public readonly dimension = config.settings.vectorDimension) {
+    super({});
+  }
+
+  public async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map(text => this.embed(text));
+  }
+
+  public async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  public embed(text: string): number[] {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    const words = tokenize(text);
+    words.forEach((word, index) => {
+      add(`w:${word}`, WORD_WEIGHT);
+      if (index > 0) {
+        add(`b:${words[index - 1]} ${word}`, BIGRAM_WEIGHT);
+      }
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, weight] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimension] += sign * Math.log1p(weight);
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Builds the configured embedding provider. `openai` requires OPENAI_API_KEY;
+ * `local` works offline.
+ */
+export const createEmbeddingProvider = (
+  name: EmbeddingProviderName = config.embeddings.provider
+): EmbeddingProvider => {
+  if (name === 'openai') {
+    if (!config.openai.apiKey) {
+      throw new Error('OpenAI API key is required for the "openai" embedding provider. Set EMBEDDING_PROVIDER=local to embed offline.');
+    }
+
+    return {
+      name,
+      model: config.openai.embeddingModel,
+      dimension: config.settings.vectorDimension,
+      embeddings: new OpenAIEmbeddings({
+        openAIApiKey: config.openai.apiKey,
+        modelName: config.openai.embeddingModel,
+      }),
+    };
+  }
+
+  const embeddings = new LocalEmbeddings();
+  return {
+    name,
+    model: `${LOCAL_MODEL}-${embeddings.dimension}`,
+    dimension: embeddings.dimension,
+    embeddings,
+  };
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+// 32-bit FNV-1a; stable across runs so stored vectors stay comparable
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -1,12 +1,22 @@
 import { ChatOpenAI } from '@langchain/openai';
-import { OpenAIEmbeddings } from '@langchain/openai';
 import { ChatGroq } from '@langchain/groq';
+import { Embeddings } from '@langchain/core/embeddings';
 import { config } from './config';
+import { EmbeddingProvider, createEmbeddingProvider } from './embeddings';
+
+/**
+ * Hooks for a streamed LLM call: `onToken` receives the reply as the model
+ * produces it, and aborting `signal` cancels the request.
+ */
+export interface StreamOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
 
 export class ModelManager {
   private static instance: ModelManager;
   private llm: ChatOpenAI | ChatGroq | null = null;
-  private embeddings: OpenAIEmbeddings | null = null;
+  private embeddingProvider: EmbeddingProvider | null = null;
 
   private constructor() {}
 
@@ -17,6 +27,14 @@ export class ModelManager {
     return ModelManager.instance;
   }
 
+  /**
+   * Whether a language model is configured. Without one, QA answers
+   * extractively and checks fall back to their lexical versions.
+   */
+  public hasLLM(): boolean {
+    return this.llm !== null || Boolean(config.groq.apiKey || config.openai.apiKey);
+  }
+
   public getLLM(): ChatOpenAI | ChatGroq {
     if (!this.llm) {
       // Prefer Groq if available (free), fallback to OpenAI
@@ -41,19 +59,38 @@ export class ModelManager {
     return this.llm;
   }
   
-  public getEmbeddings(): OpenAIEmbeddings {
-    if (!this.embeddings) {
-      if (!config.openai.apiKey) {
-        console.warn('⚠️  OpenAI API key required for embeddings. Some features may be limited.');
-        throw new Error('OpenAI API key is required for embedding operations. Semantic search will not be available.');
+  /**
+   * The model's reply to a prompt. With `onToken` the reply is streamed and
+   * each piece is passed on as it arrives; the full reply is still returned.
+   */
+  public async generate(prompt: string, options: StreamOptions = {}): Promise<string> {
+    const llm = this.getLLM();
+    if (!options.onToken) {
+      const response = await llm.invoke(prompt, { signal: options.signal });
+      return response.content.toString();
+    }
+
+    let reply = '';
+    const stream = await llm.stream(prompt, { signal: options.signal });
+    for await (const chunk of stream) {
+      const token = typeof chunk.content === 'string' ? chunk.content : '';
+      if (token) {
+        reply += token;
+        options.onToken(token);
       }
-      
-      this.embeddings = new OpenAIEmbeddings({
-        openAIApiKey: config.openai.apiKey,
-        modelName: config.openai.embeddingModel,
-      });
     }
-    return this.embeddings;
+    return reply;
+  }
+
+  public getEmbeddingProvider(): EmbeddingProvider {
+    if (!this.embeddingProvider) {
+      this.embeddingProvider = createEmbeddingProvider();
+    }
+    return this.embeddingProvider;
+  }
+
+  public getEmbeddings(): Embeddings {
+    return this.getEmbeddingProvider().embeddings;
   }
 
   public async testConnection(): Promise<boolean> {
@@ -0,0 +1,144 @@
+import { CursorPage, Document, PageRequest, SortField, SortOrder, SORT_FIELDS } from './types';
+
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 500;
+
+type SortValue = string | number;
+
+// Relevance pages by rank; field sorts page by the last item's sort value and id,
+// so inserts and deletions elsewhere in the list neither skip nor repeat items
+interface Cursor {
+  sort: SortField;
+  order: SortOrder;
+  rank?: number;
+  value?: SortValue;
+  id?: string;
+}
+
+/**
+ * Sort order used when a request names none.
+ */
+export const defaultOrder = (sort: SortField): SortOrder => (sort === 'filename' ? 'asc' : 'desc');
+
+/**
+ * Validated page request; throws `CursorError` for unknown sort fields,
+ * orders or page sizes.
+ */
+export const pageRequest = (
+  input: { limit?: unknown; cursor?: unknown; sort?: unknown; order?: unknown },
+  defaultSort: SortField
+): PageRequest & { sort: SortField; order: SortOrder; limit: number } => {
+  const sort = (input.sort ?? defaultSort) as SortField;
+  if (!SORT_FIELDS.includes(sort)) {
+    throw new CursorError(`Sort must be one of: ${SORT_FIELDS.join(', ')}`);
+  }
+  const order = (input.order ?? defaultOrder(sort)) as SortOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    throw new CursorError('Order must be asc or desc');
+  }
+  const limit = input.limit === undefined ? DEFAULT_PAGE_SIZE : Number(input.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new CursorError(`Limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  if (input.cursor !== undefined && typeof input.cursor !== 'string') {
+    throw new CursorError('Cursor must be a string');
+  }
+
+  return { sort, order, limit, cursor: input.cursor || undefined };
+};
+
+/**
+ * One page of `items`, which are in relevance order. Field sorts are applied
+ * here, with the document id breaking ties so the ordering is total.
+ */
+export const paginate = <T>(
+  items: T[],
+  request: PageRequest,
+  documentOf: (item: T) => Document
+): CursorPage<T> => {
+  const sort = request.sort || 'relevance';
+  const order = request.order || defaultOrder(sort);
+  const limit = request.limit ?? DEFAULT_PAGE_SIZE;
+  const cursor = request.cursor ? decodeCursor(request.cursor, sort, order) : undefined;
+
+  let start = 0;
+  let ordered = items;
+  if (sort === 'relevance') {
+    start = cursor?.rank ?? 0;
+    if (order === 'asc') {
+      ordered = [...items].reverse();
+    }
+  } else {
+    const direction = order === 'asc' ? 1 : -1;
+    const keyed = items.map(item => ({ item, value: sortValue(documentOf(item), sort), id: documentOf(item).id }));
+    keyed.sort((a, b) => direction * compareValues(a.value, b.value) || a.id.localeCompare(b.id));
+    ordered = keyed.map(entry => entry.item);
+    if (cursor) {
+      const after = keyed.findIndex(entry =>
+        direction * compareValues(entry.value, cursor.value!) > 0 ||
+        (compareValues(entry.value, cursor.value!) === 0 && entry.id.localeCompare(cursor.id!) > 0)
+      );
+      start = after < 0 ? keyed.length : after;
+    }
+  }
+
+  const page = ordered.slice(start, start + limit);
+  const hasMore = start + limit < ordered.length;
+  let nextCursor: string | null = null;
+  if (hasMore) {
+    const last = documentOf(page[page.length - 1]);
+    nextCursor = encodeCursor(sort === 'relevance'
+      ? { sort, order, rank: start + limit }
+      : { sort, order, value: sortValue(last, sort), id: last.id });
+  }
+
+  return { items: page, total: items.length, nextCursor, sort, order };
+};
+
+const sortValue = (document: Document, sort: Exclude<SortField, 'relevance'>): SortValue => {
+  switch (sort) {
+    case 'filename':
+      return document.metadata.filename.toLowerCase();
+    case 'size':
+      return document.metadata.size;
+    case 'processedAt': {
+      const time = new Date(document.metadata.processedAt ?? document.metadata.createdAt).getTime();
+      return isNaN(time) ? 0 : time;
+    }
+  }
+};
+
+const compareValues = (a: SortValue, b: SortValue): number =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+
+const encodeCursor = (cursor: Cursor): string => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (encoded: string, sort: SortField, order: SortOrder): Cursor => {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new CursorError('Invalid cursor');
+  }
+  if (!cursor || typeof cursor !== 'object') {
+    throw new CursorError('Invalid cursor');
+  }
+  if (cursor.sort !== sort || cursor.order !== order) {
+    throw new CursorError(`Cursor was issued for sort ${cursor.sort} ${cursor.order}, not ${sort} ${order}`);
+  }
+
+  const valid = sort === 'relevance'
+    ? Number.isInteger(cursor.rank) && cursor.rank! >= 0
+    : (typeof cursor.value === 'string' || typeof cursor.value === 'number') && typeof cursor.id === 'string';
+  if (!valid) {
+    throw new CursorError('Invalid cursor');
+  }
+  return cursor;
+};
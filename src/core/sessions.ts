@@ -0,0 +1,169 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentStore, documentStore } from './store';
+import { StorageBackend, createStorageBackend } from './storage';
+import { ChatSession, ChatSessionSummary, ChatTurn } from './types';
+
+const SESSIONS = 'sessions';
+
+export interface SessionScope {
+  documentIds?: string[];
+  collections?: string[];
+}
+
+export type SessionExportFormat = 'json' | 'markdown';
+
+export const SESSION_EXPORT_FORMATS: SessionExportFormat[] = ['json', 'markdown'];
+
+/**
+ * A chat session, or a document or collection it is scoped to, that does not
+ * exist.
+ */
+export class SessionReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionReferenceError';
+  }
+}
+
+/**
+ * Chat sessions and their turn history, one record per session, persisted
+ * beside the document store so a conversation can be resumed from the CLI or
+ * the API.
+ */
+export class SessionStore {
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly backend: StorageBackend
+  ) {
+    store.on('collectionRenamed', (from: string, to: string) => this.renameCollection(from, to));
+  }
+
+  /**
+   * Starts a session over the given documents and collections (the whole
+   * store when neither is given). Throws for unknown documents or collections.
+   */
+  public createSession(scope: SessionScope = {}, title?: string): ChatSession {
+    const missingDocument = scope.documentIds?.find(id => !this.store.getDocument(id));
+    if (missingDocument) {
+      throw new SessionReferenceError(`Document not found: ${missingDocument}`);
+    }
+    const missingCollection = scope.collections?.find(name => !this.store.getCollection(name));
+    if (missingCollection) {
+      throw new SessionReferenceError(`Collection not found: ${missingCollection}`);
+    }
+
+    const now = new Date();
+    const session: ChatSession = {
+      id: uuidv4(),
+      title: title?.trim() || undefined,
+      documentIds: scope.documentIds?.length ? scope.documentIds : undefined,
+      collections: scope.collections?.length ? scope.collections : undefined,
+      createdAt: now,
+      updatedAt: now,
+      turns: [],
+    };
+    this.backend.set(SESSIONS, session.id, session);
+    return session;
+  }
+
+  public getSession(id: string): ChatSession | undefined {
+    const session = this.backend.get<ChatSession>(SESSIONS, id);
+    return session ? reviveSession(session) : undefined;
+  }
+
+  /**
+   * Every session without its turns, most recently active first.
+   */
+  public listSessions(): ChatSessionSummary[] {
+    return this.backend.entries<ChatSession>(SESSIONS)
+      .map(([, session]) => {
+        const { turns, ...summary } = reviveSession(session);
+        return { ...summary, title: summary.title || turns[0]?.question, turnCount: turns.length };
+      })
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  public addTurn(id: string, turn: ChatTurn): ChatSession | undefined {
+    const session = this.getSession(id);
+    if (!session) {
+      return undefined;
+    }
+
+    session.turns.push(turn);
+    session.updatedAt = turn.askedAt;
+    this.backend.set(SESSIONS, id, session);
+    return session;
+  }
+
+  public deleteSession(id: string): boolean {
+    if (!this.backend.get(SESSIONS, id)) {
+      return false;
+    }
+    this.backend.delete(SESSIONS, id);
+    return true;
+  }
+
+  public exportSession(id: string, format: SessionExportFormat = 'json'): string | undefined {
+    const session = this.getSession(id);
+    if (!session) {
+      return undefined;
+    }
+    return format === 'markdown' ? sessionToMarkdown(session) : JSON.stringify(session, null, 2);
+  }
+
+  // Keeps sessions scoped to a renamed collection pointed at its new name
+  private renameCollection(from: string, to: string): void {
+    for (const [id, session] of this.backend.entries<ChatSession>(SESSIONS)) {
+      if (session.collections?.includes(from)) {
+        const collections = session.collections.map(name => (name === from ? to : name));
+        this.backend.set(SESSIONS, id, { ...session, collections });
+      }
+    }
+  }
+}
+
+/**
+ * The session as a Markdown transcript, with each answer's citations listed
+ * beneath it.
+ */
+export const sessionToMarkdown = (session: ChatSession): string => {
+  const scope = [
+    session.documentIds ? `Documents: ${session.documentIds.join(', ')}` : null,
+    session.collections ? `Collections: ${session.collections.join(', ')}` : null,
+  ].filter(Boolean);
+  const lines = [
+    `# ${session.title || session.turns[0]?.question || 'Chat session'}`,
+    '',
+    `Session ${session.id}, started ${session.createdAt.toISOString()}`,
+    scope.length > 0 ? scope.join('; ') : 'All documents',
+  ];
+
+  for (const turn of session.turns) {
+    lines.push('', `## ${turn.question}`, '');
+    if (turn.standaloneQuestion !== turn.question) {
+      lines.push(`_Searched as: ${turn.standaloneQuestion}_`, '');
+    }
+    lines.push(turn.answer);
+    if (turn.groundedness !== undefined) {
+      lines.push('', `_Groundedness: ${Math.round(turn.groundedness * 100)}%_`);
+    }
+    if (turn.citations.length > 0) {
+      lines.push('');
+      for (const citation of turn.citations) {
+        const page = citation.page !== undefined ? `, page ${citation.page}` : '';
+        lines.push(`- [${citation.marker}] ${citation.filename}${page}, chars ${citation.startChar}-${citation.endChar} (chunk ${citation.chunkId})`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+};
+
+// JSON round-trips turn dates into ISO strings
+const reviveSession = (session: ChatSession): ChatSession => ({
+  ...session,
+  createdAt: new Date(session.createdAt),
+  updatedAt: new Date(session.updatedAt),
+  turns: session.turns.map(turn => ({ ...turn, askedAt: new Date(turn.askedAt) })),
+});
+
+export const sessionStore = new SessionStore(documentStore, createStorageBackend());
@@ -0,0 +1,122 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { config } from './config';
+import { logger } from '../utils/logger';
+
+/**
+ * Persistence layer behind DocumentStore. Records are JSON-serializable values
+ * grouped into namespaces (documents, chunks, ...) and addressed by key.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  get<T>(namespace: string, key: string): T | undefined;
+  entries<T>(namespace: string): Array<[string, T]>;
+  set<T>(namespace: string, key: string, value: T): void;
+  delete(namespace: string, key: string): void;
+  clear(namespace?: string): void;
+}
+
+export class MemoryStorageBackend implements StorageBackend {
+  public readonly name = 'memory';
+  private namespaces: Map<string, Map<string, unknown>> = new Map();
+
+  public get<T>(namespace: string, key: string): T | undefined {
+    return this.namespaces.get(namespace)?.get(key) as T | undefined;
+  }
+
+  public entries<T>(namespace: string): Array<[string, T]> {
+    return Array.from(this.namespaces.get(namespace)?.entries() || []) as Array<[string, T]>;
+  }
+
+  public set<T>(namespace: string, key: string, value: T): void {
+    if (!this.namespaces.has(namespace)) {
+      this.namespaces.set(namespace, new Map());
+    }
+    this.namespaces.get(namespace)!.set(key, value);
+  }
+
+  public delete(namespace: string, key: string): void {
+    this.namespaces.get(namespace)?.delete(key);
+  }
+
+  public clear(namespace?: string): void {
+    if (namespace) {
+      this.namespaces.delete(namespace);
+    } else {
+      this.namespaces.clear();
+    }
+  }
+}
+
+/**
+ * Stores every record as `<dataDir>/<namespace>/<key>.json` so separate CLI
+ * invocations and server restarts share the same corpus.
+ */
+export class FileStorageBackend implements StorageBackend {
+  public readonly name = 'file';
+
+  constructor(private readonly dataDir: string) {}
+
+  public get<T>(namespace: string, key: string): T | undefined {
+    const filePath = this.recordPath(namespace, key);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    return this.readRecord<T>(filePath);
+  }
+
+  public entries<T>(namespace: string): Array<[string, T]> {
+    const dir = path.join(this.dataDir, namespace);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    const entries: Array<[string, T]> = [];
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith('.json')) continue;
+
+      const value = this.readRecord<T>(path.join(dir, file));
+      if (value !== undefined) {
+        entries.push([decodeURIComponent(file.slice(0, -'.json'.length)), value]);
+      }
+    }
+    return entries;
+  }
+
+  public set<T>(namespace: string, key: string, value: T): void {
+    const filePath = this.recordPath(namespace, key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    // Write then rename so a crashed process never leaves a half-written record
+    fs.ensureDirSync(path.dirname(filePath));
+    fs.writeJsonSync(tempPath, value);
+    fs.renameSync(tempPath, filePath);
+  }
+
+  public delete(namespace: string, key: string): void {
+    fs.removeSync(this.recordPath(namespace, key));
+  }
+
+  public clear(namespace?: string): void {
+    fs.removeSync(namespace ? path.join(this.dataDir, namespace) : this.dataDir);
+  }
+
+  private recordPath(namespace: string, key: string): string {
+    return path.join(this.dataDir, namespace, `${encodeURIComponent(key)}.json`);
+  }
+
+  private readRecord<T>(filePath: string): T | undefined {
+    try {
+      return fs.readJsonSync(filePath) as T;
+    } catch (error) {
+      logger.warn(`Skipping unreadable record ${filePath}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+}
+
+export const createStorageBackend = (backend = config.storage.backend): StorageBackend => {
+  return backend === 'memory'
+    ? new MemoryStorageBackend()
+    : new FileStorageBackend(config.storage.dataDir);
+};
@@ -0,0 +1,909 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Document,
+  DocumentChunk,
+  DocumentRevision,
+  DocumentVersionSummary,
+  DocumentQuery,
+  Page,
+  PageRequest,
+  CursorPage,
+  Collection,
+  CollectionSummary,
+  CachedAnalysis,
+  Annotation,
+  AnnotationInput,
+  SearchOptions,
+  SearchHit,
+  ChunkHit,
+  DEFAULT_COLLECTION,
+} from './types';
+import { StorageBackend, MemoryStorageBackend, createStorageBackend } from './storage';
+import { CursorError, pageRequest, paginate } from './pagination';
+import { MetadataFilter } from '../search/MetadataFilter';
+import { BM25Index } from '../search/BM25Index';
+import { TextAnalyzer, AnalysisSettings, LANGUAGES, resolveAnalyzer } from '../search/TextAnalyzer';
+import { SearchQuery, QueryMatcher, QueryTarget } from '../search/QueryParser';
+import { diffText, TextDiff } from '../utils/diff';
+
+const DOCUMENTS = 'documents';
+const CHUNKS = 'chunks';
+const VERSIONS = 'versions';
+const COLLECTIONS = 'collections';
+const ANALYSES = 'analyses';
+const ANNOTATIONS = 'annotations';
+
+// The namespaces the store owns, and clears; chat sessions share the backend and are kept
+const NAMESPACES = [DOCUMENTS, CHUNKS, VERSIONS, COLLECTIONS, ANALYSES, ANNOTATIONS];
+
+// The metadata callers may edit, all strings. The rest is maintained by ingestion,
+// and a document's collection changes only with the collection itself
+const EDITABLE_METADATA = ['filename', 'title', 'author', 'description', 'language'];
+
+const COLLECTION_NAME_PATTERN = /^[\w.-]{1,64}$/;
+
+export const collectionOf = (document: Document): string =>
+  document.metadata.collection || DEFAULT_COLLECTION;
+
+// Emits `documentRemoved` (id), `collectionRenamed` (from, to) and `cleared` so
+// derived indexes and chat sessions can follow deletions and renames
+export class DocumentStore extends EventEmitter {
+  private documents: Map<string, Document> = new Map();
+  private chunks: Map<string, DocumentChunk[]> = new Map();
+  private collections: Map<string, Collection> = new Map();
+  private annotations: Map<string, Annotation[]> = new Map();
+  // Lexical indexes are rebuilt from the backend on load and kept in step with every write
+  private documentIndex = new BM25Index();
+  private chunkIndex = new BM25Index();
+  private chunkOwners: Map<string, string> = new Map();
+  // Each document's index terms in order, kept from indexing for phrase matching
+  private documentTokens: Map<string, string[]> = new Map();
+  // Analyzer each document was indexed with, per its collection's settings and language
+  private analyzers: Map<string, TextAnalyzer> = new Map();
+  private loaded = false;
+
+  constructor(private readonly backend: StorageBackend = new MemoryStorageBackend()) {
+    super();
+  }
+
+  public get backendName(): string {
+    return this.backend.name;
+  }
+
+  public addDocument(document: Document): void {
+    this.ensureLoaded();
+    this.ensureCollection(collectionOf(document));
+    this.documents.set(document.id, document);
+    this.backend.set(DOCUMENTS, document.id, document);
+    this.indexDocument(document);
+  }
+
+  public getDocument(id: string): Document | undefined {
+    this.ensureLoaded();
+    return this.documents.get(id);
+  }
+
+  public findBySourcePath(sourcePath: string, collection = DEFAULT_COLLECTION): Document | undefined {
+    return this.getAllDocuments({ collections: [collection] })
+      .find(doc => doc.metadata.sourcePath === sourcePath);
+  }
+
+  /**
+   * The uploaded document with these bytes. Uploads have no source path of
+   * their own, so a shared filename says nothing about being the same file.
+   */
+  public findUpload(contentHash: string, collection = DEFAULT_COLLECTION): Document | undefined {
+    return this.getAllDocuments({ collections: [collection] })
+      .find(doc => !doc.metadata.sourcePath && doc.metadata.contentHash === contentHash);
+  }
+
+  /**
+   * Documents matching the query's collection scope and metadata filter.
+   * `tags` in the filter and the `tags` option both match `tagsOf`.
+   * Throws FilterParseError when `where` is an invalid expression.
+   */
+  public getAllDocuments(query: DocumentQuery = {}): Document[] {
+    this.ensureLoaded();
+    let documents = Array.from(this.documents.values());
+
+    if (query.documentIds) {
+      const ids = new Set(query.documentIds);
+      documents = documents.filter(doc => ids.has(doc.id));
+    }
+    if (query.collections && query.collections.length > 0) {
+      const scope = new Set(query.collections);
+      documents = documents.filter(doc => scope.has(collectionOf(doc)));
+    }
+    if (query.where) {
+      const filter = MetadataFilter.from(query.where);
+      documents = documents.filter(doc => filter.matches({ ...doc, tags: this.tagsOf(doc) }));
+    }
+    if (query.tags && query.tags.length > 0) {
+      const required = normalizeTags(query.tags);
+      documents = documents.filter(doc => {
+        const tags = new Set(this.tagsOf(doc));
+        return required.every(tag => tags.has(tag));
+      });
+    }
+
+    return documents;
+  }
+
+  /**
+   * A document's tags together with those of its chunks and annotations.
+   */
+  public tagsOf(document: Document): string[] {
+    return Array.from(new Set([
+      ...(document.tags || []),
+      ...this.getChunks(document.id).flatMap(chunk => chunk.tags || []),
+      ...this.getAnnotations(document.id).flatMap(annotation => annotation.tags),
+    ]));
+  }
+
+  /**
+   * One page of `getAllDocuments`, newest first unless sorted otherwise.
+   * Throws `CursorError` for an invalid page request, including a relevance
+   * sort, which needs a search query.
+   */
+  public getDocumentsPage(query: DocumentQuery = {}, page: PageRequest = {}): CursorPage<Document> {
+    if (page.sort === 'relevance') {
+      throw new CursorError('Sorting by relevance needs a search query');
+    }
+    return paginate(this.getAllDocuments(query), pageRequest(page, 'processedAt'), doc => doc);
+  }
+
+  /**
+   * Shallow-merges `patch` into a document's metadata; `null` values remove a
+   * key. Only the editable fields (filename, title, author, description and
+   * language) are accepted, as strings; the filename cannot be removed.
+   */
+  public updateDocumentMetadata(id: string, patch: Record<string, unknown>): Document | undefined {
+    const document = this.getDocument(id);
+    if (!document) {
+      return undefined;
+    }
+
+    const readOnly = Object.keys(patch).filter(key => !EDITABLE_METADATA.includes(key));
+    if (readOnly.length > 0) {
+      throw new Error(`Metadata fields cannot be edited: ${readOnly.join(', ')} (editable: ${EDITABLE_METADATA.join(', ')})`);
+    }
+    const invalid = Object.keys(patch).filter(key => patch[key] !== null && typeof patch[key] !== 'string');
+    if (invalid.length > 0) {
+      throw new Error(`Metadata fields must be strings, or null to remove them: ${invalid.join(', ')}`);
+    }
+
+    const metadata: Document['metadata'] = { ...document.metadata };
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        delete metadata[key];
+      } else {
+        metadata[key] = value;
+      }
+    }
+    if (!metadata.filename?.trim()) {
+      throw new Error('Metadata field "filename" cannot be removed or empty');
+    }
+
+    const updated: Document = { ...document, metadata };
+    this.addDocument(updated);
+    return updated;
+  }
+
+  /**
+   * Stores a document together with its chunks. When the id already exists the
+   * current content, metadata and chunks are archived as a prior revision
+   * before being replaced.
+   */
+  public upsertDocument(document: Document, chunks: DocumentChunk[]): void {
+    const current = this.getDocument(document.id);
+
+    if (current) {
+      const currentVersion = current.metadata.version || 1;
+      const revisions = this.readRevisions(document.id);
+      revisions.push({
+        documentId: current.id,
+        version: currentVersion,
+        content: current.content,
+        metadata: current.metadata,
+        chunks: this.getChunks(current.id),
+        archivedAt: new Date(),
+      });
+      this.backend.set(VERSIONS, document.id, revisions);
+      document.metadata.version = currentVersion + 1;
+
+      // User curation survives re-ingestion: tags, notes, and chunk tags whose text is unchanged
+      document.tags = document.tags ?? current.tags;
+      document.notes = document.notes ?? current.notes;
+      const previousChunks = new Map(this.getChunks(current.id).map(chunk => [chunk.content, chunk]));
+      chunks.forEach(chunk => {
+        const previous = previousChunks.get(chunk.content);
+        chunk.tags = chunk.tags ?? previous?.tags;
+        chunk.notes = chunk.notes ?? previous?.notes;
+      });
+      this.reanchorAnnotations(document);
+    } else {
+      document.metadata.version = document.metadata.version || 1;
+    }
+
+    this.addDocument(document);
+    this.addChunks(document.id, chunks);
+  }
+
+  public getVersions(id: string): DocumentVersionSummary[] | undefined {
+    const current = this.getDocument(id);
+    if (!current) {
+      return undefined;
+    }
+
+    const summarize = (revision: DocumentRevision, isCurrent: boolean): DocumentVersionSummary => ({
+      version: revision.version,
+      current: isCurrent,
+      contentHash: revision.metadata.contentHash,
+      size: revision.metadata.size,
+      chunkCount: revision.chunks.length,
+      processedAt: revision.metadata.processedAt,
+      archivedAt: revision.archivedAt,
+    });
+
+    return [
+      ...this.readRevisions(id).map(revision => summarize(revision, false)),
+      summarize(this.currentRevision(current), true),
+    ];
+  }
+
+  public getVersion(id: string, version: number): DocumentRevision | undefined {
+    const current = this.getDocument(id);
+    if (!current) {
+      return undefined;
+    }
+
+    if ((current.metadata.version || 1) === version) {
+      return this.currentRevision(current);
+    }
+    return this.readRevisions(id).find(revision => revision.version === version);
+  }
+
+  public diffVersions(id: string, fromVersion: number, toVersion: number): TextDiff | undefined {
+    const from = this.getVersion(id, fromVersion);
+    const to = this.getVersion(id, toVersion);
+    if (!from || !to) {
+      return undefined;
+    }
+    return diffText(from.content, to.content);
+  }
+
+  public getArchivedRevisions(id: string): DocumentRevision[] {
+    return this.readRevisions(id);
+  }
+
+  public setArchivedRevisions(id: string, revisions: DocumentRevision[]): void {
+    if (revisions.length === 0) {
+      this.backend.delete(VERSIONS, id);
+    } else {
+      this.backend.set(VERSIONS, id, revisions);
+    }
+  }
+
+  public getAnalysis(documentId: string): CachedAnalysis | undefined {
+    const analysis = this.backend.get<CachedAnalysis>(ANALYSES, documentId);
+    return analysis ? { ...analysis, analyzedAt: new Date(analysis.analyzedAt) } : undefined;
+  }
+
+  public saveAnalysis(analysis: CachedAnalysis): void {
+    this.backend.set(ANALYSES, analysis.documentId, analysis);
+  }
+
+  public removeDocument(id: string): boolean {
+    this.ensureLoaded();
+    if (!this.documents.has(id)) {
+      return false;
+    }
+
+    this.unindexChunks(id);
+    this.documentIndex.remove(id);
+    this.documentTokens.delete(id);
+    this.analyzers.delete(id);
+    this.documents.delete(id);
+    this.chunks.delete(id);
+    this.backend.delete(DOCUMENTS, id);
+    this.backend.delete(CHUNKS, id);
+    this.backend.delete(VERSIONS, id);
+    this.backend.delete(ANALYSES, id);
+    this.annotations.delete(id);
+    this.backend.delete(ANNOTATIONS, id);
+    this.emit('documentRemoved', id);
+    return true;
+  }
+
+  public tagDocument(id: string, tags: string[]): Document | undefined {
+    return this.updateDocument(id, doc => {
+      doc.tags = normalizeTags([...(doc.tags || []), ...tags]);
+    });
+  }
+
+  public untagDocument(id: string, tags: string[]): Document | undefined {
+    const removed = new Set(normalizeTags(tags));
+    return this.updateDocument(id, doc => {
+      doc.tags = (doc.tags || []).filter(tag => !removed.has(tag));
+    });
+  }
+
+  public setDocumentNotes(id: string, notes: string | null): Document | undefined {
+    return this.updateDocument(id, doc => {
+      doc.notes = notes || undefined;
+    });
+  }
+
+  public tagChunk(documentId: string, chunkId: string, tags: string[]): DocumentChunk | undefined {
+    return this.updateChunk(documentId, chunkId, chunk => {
+      chunk.tags = normalizeTags([...(chunk.tags || []), ...tags]);
+    });
+  }
+
+  public untagChunk(documentId: string, chunkId: string, tags: string[]): DocumentChunk | undefined {
+    const removed = new Set(normalizeTags(tags));
+    return this.updateChunk(documentId, chunkId, chunk => {
+      chunk.tags = (chunk.tags || []).filter(tag => !removed.has(tag));
+    });
+  }
+
+  public setChunkNotes(documentId: string, chunkId: string, notes: string | null): DocumentChunk | undefined {
+    return this.updateChunk(documentId, chunkId, chunk => {
+      chunk.notes = notes || undefined;
+    });
+  }
+
+  public getAnnotations(documentId: string): Annotation[] {
+    this.ensureLoaded();
+    return this.annotations.get(documentId) || [];
+  }
+
+  /**
+   * Anchors a note to a character range of the document's current content.
+   * Throws when the range falls outside the content.
+   */
+  public addAnnotation(documentId: string, input: AnnotationInput): Annotation | undefined {
+    const document = this.getDocument(documentId);
+    if (!document) {
+      return undefined;
+    }
+
+    const { startChar, endChar } = input;
+    if (!Number.isInteger(startChar) || !Number.isInteger(endChar) ||
+        startChar < 0 || endChar <= startChar || endChar > document.content.length) {
+      throw new Error(`Invalid annotation range ${startChar}-${endChar} (document has ${document.content.length} characters)`);
+    }
+
+    const annotation: Annotation = {
+      id: uuidv4(),
+      documentId,
+      startChar,
+      endChar,
+      quote: document.content.slice(startChar, endChar),
+      note: input.note,
+      tags: normalizeTags(input.tags || []),
+      createdAt: new Date(),
+    };
+    this.setAnnotations(documentId, [...this.getAnnotations(documentId), annotation]);
+    return annotation;
+  }
+
+  public removeAnnotation(documentId: string, annotationId: string): boolean {
+    const annotations = this.getAnnotations(documentId);
+    const remaining = annotations.filter(annotation => annotation.id !== annotationId);
+    if (remaining.length === annotations.length) {
+      return false;
+    }
+
+    this.setAnnotations(documentId, remaining);
+    return true;
+  }
+
+  public setAnnotations(documentId: string, annotations: Annotation[]): void {
+    this.ensureLoaded();
+    if (annotations.length === 0) {
+      this.annotations.delete(documentId);
+      this.backend.delete(ANNOTATIONS, documentId);
+    } else {
+      this.annotations.set(documentId, annotations);
+      this.backend.set(ANNOTATIONS, documentId, annotations);
+    }
+  }
+
+  public addChunks(documentId: string, chunks: DocumentChunk[]): void {
+    this.ensureLoaded();
+    this.unindexChunks(documentId);
+    this.chunks.set(documentId, chunks);
+    this.backend.set(CHUNKS, documentId, chunks);
+    this.indexChunks(documentId, chunks);
+  }
+
+  public getChunks(documentId: string): DocumentChunk[] {
+    this.ensureLoaded();
+    return this.chunks.get(documentId) || [];
+  }
+
+  public getChunksPage(documentId: string, offset = 0, limit = 20): Page<DocumentChunk> {
+    const chunks = this.getChunks(documentId);
+    const start = Math.max(0, offset);
+    const size = Math.max(1, limit);
+
+    return {
+      items: chunks.slice(start, start + size),
+      total: chunks.length,
+      offset: start,
+      limit: size,
+    };
+  }
+
+  public getAllChunks(query: DocumentQuery = {}): DocumentChunk[] {
+    return this.getAllDocuments(query).flatMap(doc => this.getChunks(doc.id));
+  }
+
+  /**
+   * Documents matching a query (see `SearchQuery` for the syntax), ranked by
+   * BM25 over its content terms. Documents that match only through fields or
+   * exclusions follow with a score of 0. Throws FilterParseError when `where`
+   * is invalid.
+   */
+  public searchDocuments(query: string | SearchQuery, options: SearchOptions = {}): SearchHit[] {
+    const parsed = SearchQuery.from(query);
+    if (parsed.isEmpty) {
+      return [];
+    }
+
+    const matcher = this.bindQuery(parsed);
+    // A query of nothing but stopwords matches nothing
+    if (matcher.terms.length === 0 && !parsed.isRestrictive) {
+      return [];
+    }
+    const matching = this.matchDocuments(matcher, options);
+    const chunksByDocument = new Map<string, ChunkHit[]>();
+    for (const hit of this.rankChunks(matcher.terms, matching)) {
+      const hits = chunksByDocument.get(hit.chunk.documentId) || [];
+      hits.push(hit);
+      chunksByDocument.set(hit.chunk.documentId, hits);
+    }
+
+    const scored = this.documentIndex.search(matcher.terms, id => matching.has(id));
+    const scoredIds = new Set(scored.map(({ key }) => key));
+    const hits = [
+      ...scored,
+      ...Array.from(matching).filter(id => !scoredIds.has(id)).map(key => ({ key, score: 0 })),
+    ].map(({ key, score }) => ({
+      document: this.documents.get(key)!,
+      score,
+      chunks: chunksByDocument.get(key) || [],
+    }));
+    return options.limit ? hits.slice(0, options.limit) : hits;
+  }
+
+  /**
+   * Ids of the documents a query may return, or undefined when it does not
+   * restrict them, so callers can skip filtering entirely.
+   */
+  public documentScope(query: DocumentQuery): Set<string> | undefined {
+    const restricted = Boolean(
+      query.collections?.length || query.where || query.tags?.length || query.documentIds
+    );
+    return restricted ? new Set(this.getAllDocuments(query).map(doc => doc.id)) : undefined;
+  }
+
+  /**
+   * Like `documentScope`, additionally applying the search query's required
+   * clauses and exclusions but not its optional words. Used to filter results
+   * that were not found through the lexical index, e.g. by embeddings.
+   */
+  public queryScope(query: string | SearchQuery, options: DocumentQuery = {}): Set<string> | undefined {
+    const parsed = SearchQuery.from(query);
+    if (!parsed.isRestrictive) {
+      return this.documentScope(options);
+    }
+    return this.matchDocuments(this.bindQuery(parsed), options, true);
+  }
+
+  /**
+   * The content terms of a query that rank and highlight results, with
+   * wildcard and fuzzy terms expanded to the indexed terms they match.
+   */
+  public queryTerms(query: string | SearchQuery): string[] {
+    return this.bindQuery(SearchQuery.from(query)).terms;
+  }
+
+  /**
+   * Chunks ranked by BM25 across all documents in scope that match the query.
+   */
+  public searchChunks(query: string | SearchQuery, options: SearchOptions = {}): ChunkHit[] {
+    const parsed = SearchQuery.from(query);
+    if (parsed.isEmpty) {
+      return [];
+    }
+
+    const matcher = this.bindQuery(parsed);
+    if (matcher.terms.length === 0 && !parsed.isRestrictive) {
+      return [];
+    }
+    const hits = this.rankChunks(matcher.terms, this.matchDocuments(matcher, options));
+    return options.limit ? hits.slice(0, options.limit) : hits;
+  }
+
+  public getStats(query: DocumentQuery = {}) {
+    const documents = this.getAllDocuments(query);
+    const totalDocuments = documents.length;
+    const totalChunks = this.getAllChunks(query).length;
+    const totalSize = documents.reduce((sum, doc) => sum + doc.metadata.size, 0);
+
+    return {
+      totalDocuments,
+      totalChunks,
+      totalSize,
+      averageChunksPerDocument: totalDocuments > 0 ? Math.round(totalChunks / totalDocuments) : 0
+    };
+  }
+
+  public getCollection(name: string): Collection | undefined {
+    this.ensureLoaded();
+    return this.collections.get(name);
+  }
+
+  public listCollections(): CollectionSummary[] {
+    this.ensureLoaded();
+    const documents = this.getAllDocuments();
+
+    return Array.from(this.collections.values())
+      .map(collection => {
+        const members = documents.filter(doc => collectionOf(doc) === collection.name);
+        return {
+          ...collection,
+          documentCount: members.length,
+          totalSize: members.reduce((sum, doc) => sum + doc.metadata.size, 0),
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public createCollection(name: string, description?: string): Collection {
+    this.ensureLoaded();
+    assertCollectionName(name);
+    if (this.collections.has(name)) {
+      throw new Error(`Collection already exists: ${name}`);
+    }
+
+    const collection: Collection = { name, description, createdAt: new Date() };
+    this.saveCollection(collection);
+    return collection;
+  }
+
+  /**
+   * Renames a collection and moves every document in it to the new name.
+   */
+  public renameCollection(from: string, to: string): Collection {
+    this.ensureLoaded();
+    const collection = this.collections.get(from);
+    if (!collection) {
+      throw new Error(`Collection not found: ${from}`);
+    }
+    assertCollectionName(to);
+    if (this.collections.has(to)) {
+      throw new Error(`Collection already exists: ${to}`);
+    }
+
+    const renamed: Collection = { ...collection, name: to };
+    this.saveCollection(renamed);
+    this.getAllDocuments({ collections: [from] }).forEach(doc => {
+      doc.metadata.collection = to;
+      this.addDocument(doc);
+    });
+    this.collections.delete(from);
+    this.backend.delete(COLLECTIONS, from);
+    this.emit('collectionRenamed', from, to);
+
+    return renamed;
+  }
+
+  /**
+   * Deletes a collection along with every document (and its chunks and
+   * history) it contains. Returns the number of documents removed.
+   */
+  public deleteCollection(name: string): number {
+    this.ensureLoaded();
+    if (!this.collections.has(name)) {
+      throw new Error(`Collection not found: ${name}`);
+    }
+
+    const members = this.getAllDocuments({ collections: [name] });
+    members.forEach(doc => this.removeDocument(doc.id));
+    this.collections.delete(name);
+    this.backend.delete(COLLECTIONS, name);
+
+    return members.length;
+  }
+
+  /**
+   * Changes how a collection's text is analyzed and reindexes its documents.
+   * `undefined` restores the defaults.
+   */
+  public setCollectionAnalysis(name: string, analysis: AnalysisSettings | undefined): Collection {
+    this.ensureLoaded();
+    const collection = this.collections.get(name);
+    if (!collection) {
+      throw new Error(`Collection not found: ${name}`);
+    }
+    const language = analysis?.language;
+    if (language && language !== 'auto' && language !== 'none' && !LANGUAGES.includes(language)) {
+      throw new Error(`Unsupported language: ${language} (use auto, none or one of ${LANGUAGES.join(', ')})`);
+    }
+
+    const updated: Collection = { ...collection, analysis };
+    this.saveCollection(updated);
+    this.getAllDocuments({ collections: [name] }).forEach(doc => this.indexDocument(doc));
+    return updated;
+  }
+
+  /**
+   * Replaces a collection's glossary of acronyms and their expansions.
+   * `undefined` removes it.
+   */
+  public setCollectionGlossary(name: string, glossary: Record<string, string> | undefined): Collection {
+    this.ensureLoaded();
+    const collection = this.collections.get(name);
+    if (!collection) {
+      throw new Error(`Collection not found: ${name}`);
+    }
+
+    const entries = Object.entries(glossary || {}).map(([term, expansion]) => [term.trim(), String(expansion).trim()]);
+    const invalid = entries.find(([term, expansion]) => !term || !expansion);
+    if (invalid) {
+      throw new Error(`Glossary entries need a term and an expansion: "${invalid[0]}"`);
+    }
+
+    const updated: Collection = {
+      ...collection,
+      glossary: entries.length > 0 ? Object.fromEntries(entries) : undefined,
+    };
+    this.saveCollection(updated);
+    return updated;
+  }
+
+  /**
+   * The glossary entries of the given collections (all when omitted), merged.
+   */
+  public glossaryFor(collections?: string[]): Record<string, string> {
+    this.ensureLoaded();
+    const names = collections?.length ? collections : Array.from(this.collections.keys());
+    return Object.assign({}, ...names.map(name => this.collections.get(name)?.glossary || {}));
+  }
+
+  /**
+   * The analyzer a document's text is indexed with; search terms and
+   * highlights must be analyzed the same way to match it.
+   */
+  public analyzerFor(document: Document): TextAnalyzer {
+    let analyzer = this.analyzers.get(document.id);
+    if (!analyzer) {
+      analyzer = resolveAnalyzer(this.collections.get(collectionOf(document))?.analysis, document.content);
+      this.analyzers.set(document.id, analyzer);
+    }
+    return analyzer;
+  }
+
+  /**
+   * How rare an index term is across all chunks, as weighed by chunk search.
+   */
+  public chunkTermWeight(term: string): number {
+    this.ensureLoaded();
+    return this.chunkIndex.idf(term);
+  }
+
+  public clear(): void {
+    this.documents.clear();
+    this.chunks.clear();
+    this.documentIndex.clear();
+    this.chunkIndex.clear();
+    this.chunkOwners.clear();
+    this.documentTokens.clear();
+    this.analyzers.clear();
+    this.collections.clear();
+    this.annotations.clear();
+    NAMESPACES.forEach(namespace => this.backend.clear(namespace));
+    this.loaded = true;
+    this.emit('cleared');
+  }
+
+  private bindQuery(query: SearchQuery): QueryMatcher {
+    this.ensureLoaded();
+    return query.bind(this.documentIndex.terms(), Array.from(new Set(this.analyzers.values())));
+  }
+
+  private matchDocuments(matcher: QueryMatcher, options: DocumentQuery, lenient = false): Set<string> {
+    const scope = this.documentScope(options);
+    const ids = scope ? Array.from(scope) : Array.from(this.documents.keys());
+    return new Set(ids.filter(id => matcher.matches(this.queryTarget(this.documents.get(id)!), lenient)));
+  }
+
+  private queryTarget(document: Document): QueryTarget {
+    return {
+      document,
+      analyzer: this.analyzerFor(document),
+      hasTerm: term => this.documentIndex.hasTerm(document.id, term),
+      tokens: () => this.documentTokens.get(document.id) || [],
+    };
+  }
+
+  private rankChunks(terms: string[], scope?: Set<string>): ChunkHit[] {
+    this.ensureLoaded();
+    return this.chunkIndex
+      .search(terms, scope && (id => scope.has(this.chunkOwners.get(id)!)))
+      .map(({ key, score }) => ({
+        chunk: this.getChunks(this.chunkOwners.get(key)!).find(chunk => chunk.id === key)!,
+        score,
+      }));
+  }
+
+  private indexDocument(document: Document): void {
+    const previous = this.analyzers.get(document.id);
+    this.analyzers.delete(document.id);
+    const analyzer = this.analyzerFor(document);
+    const tokens = analyzer.analyze(`${document.metadata.filename}\n${document.content}`);
+    this.documentIndex.add(document.id, tokens);
+    this.documentTokens.set(document.id, tokens);
+
+    // Chunks follow when the analyzer changes, e.g. when the document moves to another collection
+    if (previous && previous !== analyzer && this.chunks.has(document.id)) {
+      this.indexChunks(document.id, this.chunks.get(document.id)!);
+    }
+  }
+
+  private indexChunks(documentId: string, chunks: DocumentChunk[]): void {
+    const document = this.documents.get(documentId);
+    const analyzer = document ? this.analyzerFor(document) : resolveAnalyzer();
+    for (const chunk of chunks) {
+      this.chunkIndex.add(chunk.id, analyzer.analyze(chunk.content));
+      this.chunkOwners.set(chunk.id, documentId);
+    }
+  }
+
+  private unindexChunks(documentId: string): void {
+    for (const chunk of this.chunks.get(documentId) || []) {
+      this.chunkIndex.remove(chunk.id);
+      this.chunkOwners.delete(chunk.id);
+    }
+  }
+
+  private updateDocument(id: string, update: (document: Document) => void): Document | undefined {
+    const document = this.getDocument(id);
+    if (!document) {
+      return undefined;
+    }
+
+    update(document);
+    this.addDocument(document);
+    return document;
+  }
+
+  private updateChunk(
+    documentId: string,
+    chunkId: string,
+    update: (chunk: DocumentChunk) => void
+  ): DocumentChunk | undefined {
+    const chunks = this.getChunks(documentId);
+    const chunk = chunks.find(candidate => candidate.id === chunkId);
+    if (!chunk) {
+      return undefined;
+    }
+
+    update(chunk);
+    this.addChunks(documentId, chunks);
+    return chunk;
+  }
+
+  // Moves annotations to wherever their quoted text now sits, or flags them as orphaned
+  private reanchorAnnotations(document: Document): void {
+    const annotations = this.getAnnotations(document.id);
+    if (annotations.length === 0) return;
+
+    this.setAnnotations(document.id, annotations.map(annotation => {
+      if (document.content.slice(annotation.startChar, annotation.endChar) === annotation.quote) {
+        return { ...annotation, orphaned: undefined };
+      }
+
+      const startChar = document.content.indexOf(annotation.quote);
+      return startChar >= 0
+        ? { ...annotation, startChar, endChar: startChar + annotation.quote.length, orphaned: undefined }
+        : { ...annotation, orphaned: true };
+    }));
+  }
+
+  private ensureCollection(name: string): void {
+    if (!this.collections.has(name)) {
+      assertCollectionName(name);
+      this.saveCollection({ name, createdAt: new Date() });
+    }
+  }
+
+  private saveCollection(collection: Collection): void {
+    this.collections.set(collection.name, collection);
+    this.backend.set(COLLECTIONS, collection.name, collection);
+  }
+
+  private currentRevision(document: Document): DocumentRevision {
+    return {
+      documentId: document.id,
+      version: document.metadata.version || 1,
+      content: document.content,
+      metadata: document.metadata,
+      chunks: this.getChunks(document.id),
+    };
+  }
+
+  private readRevisions(id: string): DocumentRevision[] {
+    return (this.backend.get<DocumentRevision[]>(VERSIONS, id) || []).map(revision => ({
+      ...revision,
+      metadata: reviveDocument({ id, content: '', metadata: { ...revision.metadata } }).metadata,
+      archivedAt: revision.archivedAt ? new Date(revision.archivedAt) : undefined,
+    }));
+  }
+
+  /**
+   * Hydrates the in-memory maps from the backend on first access, so a store
+   * over an empty or unused data directory costs nothing until it is queried.
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    for (const [id, document] of this.backend.entries<Document>(DOCUMENTS)) {
+      this.documents.set(id, reviveDocument(document));
+    }
+    for (const [documentId, chunks] of this.backend.entries<DocumentChunk[]>(CHUNKS)) {
+      this.chunks.set(documentId, chunks);
+    }
+    for (const [documentId, annotations] of this.backend.entries<Annotation[]>(ANNOTATIONS)) {
+      this.annotations.set(documentId, annotations.map(annotation => ({
+        ...annotation,
+        createdAt: new Date(annotation.createdAt),
+      })));
+    }
+    for (const [name, collection] of this.backend.entries<Collection>(COLLECTIONS)) {
+      this.collections.set(name, { ...collection, createdAt: new Date(collection.createdAt) });
+    }
+
+    // Documents written before collections existed belong to the default one
+    for (const document of this.documents.values()) {
+      const name = collectionOf(document);
+      if (!this.collections.has(name)) {
+        this.collections.set(name, { name, createdAt: new Date() });
+      }
+    }
+
+    // Indexing needs each document's collection for its analysis settings
+    for (const document of this.documents.values()) {
+      this.indexDocument(document);
+    }
+    for (const [documentId, chunks] of this.chunks) {
+      this.indexChunks(documentId, chunks);
+    }
+  }
+}
+
+const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim().replace(/\s+/g, ' ').toLowerCase()).filter(Boolean)));
+
+const assertCollectionName = (name: string): void => {
+  if (!COLLECTION_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid collection name "${name}": use up to 64 letters, digits, '.', '_' or '-'`);
+  }
+};
+
+// JSON round-trips turn Date metadata into ISO strings
+export const reviveDocument = (document: Document): Document => {
+  const { createdAt, processedAt } = document.metadata;
+  document.metadata.createdAt = new Date(createdAt);
+  if (processedAt) {
+    document.metadata.processedAt = new Date(processedAt);
+  }
+  return document;
+};
+
+export const documentStore = new DocumentStore(createStorageBackend());
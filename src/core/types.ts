@@ -1,10 +1,12 @@
-import fs from 'fs-extra';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
+import type { MetadataFilter } from '../search/MetadataFilter';
+import type { AnalysisSettings } from '../search/TextAnalyzer';
+import type { SummaryResult, KeywordExtractionResult, InsightAnalysisResult } from '../analyzers/index';
 
 export interface Document {
   id: string;
   content: string;
+  tags?: string[];
+  notes?: string;
   metadata: {
     filename: string;
     fileType: string;
@@ -12,6 +14,12 @@ export interface Document {
     createdAt: Date;
     processedAt?: Date;
     chunkCount?: number;
+    sourcePath?: string;
+    contentHash?: string;
+    version?: number;
+    collection?: string;
+    // Character offset at which each page starts, for paged formats such as PDF
+    pageOffsets?: number[];
     [key: string]: any;
   };
 }
@@ -21,13 +29,38 @@ export interface DocumentChunk {
   documentId: string;
   content: string;
   index: number;
+  tags?: string[];
+  notes?: string;
   metadata: {
     startChar: number;
     endChar: number;
+    // Page the chunk starts on, for paged formats
+    page?: number;
     [key: string]: any;
   };
 }
 
+export interface Annotation {
+  id: string;
+  documentId: string;
+  startChar: number;
+  endChar: number;
+  // Text covered by the range when the annotation was made, used to re-anchor it after re-ingestion
+  quote: string;
+  note?: string;
+  tags: string[];
+  createdAt: Date;
+  // Set when the quoted text no longer appears in the current document content
+  orphaned?: boolean;
+}
+
+export interface AnnotationInput {
+  startChar: number;
+  endChar: number;
+  note?: string;
+  tags?: string[];
+}
+
 export interface ProcessingResult {
   document: Document;
   chunks: DocumentChunk[];
@@ -40,60 +73,188 @@ export interface ProcessingResult {
   };
 }
 
-export class DocumentStore {
-  private documents: Map<string, Document> = new Map();
-  private chunks: Map<string, DocumentChunk[]> = new Map();
+export type IngestionStatus = 'added' | 'updated' | 'unchanged';
 
-  public addDocument(document: Document): void {
-    this.documents.set(document.id, document);
-  }
+export interface IngestionResult {
+  documentId: string;
+  status: IngestionStatus;
+  chunkCount: number;
+}
+
+export interface IngestionOptions {
+  collection?: string;
+  // Recorded instead of the file's basename, e.g. the original name of an upload
+  filename?: string;
+  // The file is a temporary copy of an upload: it is matched to earlier uploads
+  // with the same bytes and its path is not recorded as the source
+  upload?: boolean;
+}
+
+export interface DirectorySyncSummary {
+  total: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  failed: number;
+}
 
-  public getDocument(id: string): Document | undefined {
-    return this.documents.get(id);
-  }
+export interface DocumentRevision {
+  documentId: string;
+  version: number;
+  content: string;
+  metadata: Document['metadata'];
+  chunks: DocumentChunk[];
+  archivedAt?: Date;
+}
 
-  public getAllDocuments(): Document[] {
-    return Array.from(this.documents.values());
-  }
+export interface DocumentVersionSummary {
+  version: number;
+  current: boolean;
+  contentHash?: string;
+  size: number;
+  chunkCount: number;
+  processedAt?: Date;
+  archivedAt?: Date;
+}
 
-  public addChunks(documentId: string, chunks: DocumentChunk[]): void {
-    this.chunks.set(documentId, chunks);
-  }
+export interface CachedAnalysis {
+  documentId: string;
+  contentHash?: string;
+  analyzedAt: Date;
+  summary?: SummaryResult;
+  keywords?: KeywordExtractionResult;
+  insights?: InsightAnalysisResult;
+  questions?: string[];
+}
 
-  public getChunks(documentId: string): DocumentChunk[] {
-    return this.chunks.get(documentId) || [];
-  }
+export const DEFAULT_COLLECTION = 'default';
 
-  public getAllChunks(): DocumentChunk[] {
-    return Array.from(this.chunks.values()).flat();
-  }
+export interface Collection {
+  name: string;
+  description?: string;
+  createdAt: Date;
+  // Tokenization, stopwords and stemming for the collection's documents
+  analysis?: AnalysisSettings;
+  // Acronyms and their expansions, used to rewrite queries against the collection
+  glossary?: Record<string, string>;
+}
 
-  public searchDocuments(query: string): Document[] {
-    const lowerQuery = query.toLowerCase();
-    return this.getAllDocuments().filter(doc => 
-      doc.content.toLowerCase().includes(lowerQuery) ||
-      doc.metadata.filename.toLowerCase().includes(lowerQuery)
-    );
-  }
+export interface CollectionSummary extends Collection {
+  documentCount: number;
+  totalSize: number;
+}
 
-  public getStats() {
-    const totalDocuments = this.documents.size;
-    const totalChunks = this.getAllChunks().length;
-    const totalSize = Array.from(this.documents.values())
-      .reduce((sum, doc) => sum + doc.metadata.size, 0);
+/**
+ * A passage cited by a chat answer, kept with the turn so exports and resumed
+ * sessions can point back into the documents.
+ */
+export interface ChatCitation {
+  marker: number;
+  documentId: string;
+  filename: string;
+  chunkId: string;
+  startChar: number;
+  endChar: number;
+  page?: number;
+}
 
-    return {
-      totalDocuments,
-      totalChunks,
-      totalSize,
-      averageChunksPerDocument: totalDocuments > 0 ? Math.round(totalChunks / totalDocuments) : 0
-    };
-  }
+export interface ChatTurn {
+  question: string;
+  // The question rewritten to stand alone, as used for retrieval
+  standaloneQuestion: string;
+  answer: string;
+  found: boolean;
+  citations: ChatCitation[];
+  // Share of the answer supported by the passages, when it was verified
+  groundedness?: number;
+  askedAt: Date;
+}
 
-  public clear(): void {
-    this.documents.clear();
-    this.chunks.clear();
-  }
+export interface ChatSession {
+  id: string;
+  // Defaults to the first question
+  title?: string;
+  // Documents the session answers from; the whole store when neither is set
+  documentIds?: string[];
+  collections?: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  turns: ChatTurn[];
+}
+
+export interface ChatSessionSummary extends Omit<ChatSession, 'turns'> {
+  turnCount: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export type SortField = 'relevance' | 'filename' | 'size' | 'processedAt';
+
+export const SORT_FIELDS: SortField[] = ['relevance', 'filename', 'size', 'processedAt'];
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface PageRequest {
+  limit?: number;
+  // Opaque cursor from the previous page's `nextCursor`
+  cursor?: string;
+  sort?: SortField;
+  // Defaults to ascending for filename, descending otherwise
+  order?: SortOrder;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  // Items across all pages
+  total: number;
+  // Cursor for the following page; null on the last page
+  nextCursor: string | null;
+  sort: SortField;
+  order: SortOrder;
+}
+
+export interface DocumentQuery {
+  documentIds?: string[];
+  collections?: string[];
+  where?: string | MetadataFilter;
+  // Documents must carry every tag, on the document itself, a chunk or an annotation
+  tags?: string[];
+}
+
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+export interface SearchOptions extends DocumentQuery {
+  limit?: number;
+  // Defaults to keyword
+  mode?: SearchMode;
+}
+
+export interface ChunkHit {
+  chunk: DocumentChunk;
+  score: number;
+  // Component scores behind a fused hybrid score
+  lexicalScore?: number;
+  semanticScore?: number;
+  // Set when a reranker reordered the hits
+  rerankScore?: number;
+}
+
+export interface SearchHit {
+  document: Document;
+  // BM25 score of the whole document in keyword mode, otherwise its best chunk score
+  score: number;
+  // Rerank score of the best chunk, when results were reranked
+  rerankScore?: number;
+  // Matching chunks of the document, best first
+  chunks: ChunkHit[];
 }
 
-export const documentStore = new DocumentStore();
+export { DocumentStore, documentStore } from './store';
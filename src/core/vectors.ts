@@ -0,0 +1,229 @@
+import { config } from './config';
+import { ModelManager } from './models';
+import { EmbeddingProvider } from './embeddings';
+import { DocumentStore, documentStore } from './store';
+import { StorageBackend, createStorageBackend } from './storage';
+import { ChunkHit, DocumentQuery } from './types';
+import { VectorIndex } from '../search/VectorIndex';
+import { hashContent } from '../utils/hash';
+
+const VECTORS = 'vectors';
+
+// One record per document; a document's vectors are always written together
+interface StoredVectors {
+  documentId: string;
+  model: string;
+  dimension: number;
+  embeddedAt: string;
+  chunks: Array<{ chunkId: string; contentHash: string; vector: number[] }>;
+}
+
+export interface SemanticSearchOptions extends DocumentQuery {
+  // Defaults to config.settings.maxResults
+  limit?: number;
+  // Defaults to config.settings.similarityThreshold
+  threshold?: number;
+  exact?: boolean;
+}
+
+export interface VectorSyncSummary {
+  embedded: number;
+  removed: number;
+  unchanged: number;
+}
+
+/**
+ * Chunk embeddings for every stored document, persisted beside the document
+ * store and searchable by cosine similarity. Documents are embedded as they are
+ * ingested or imported; vectors written by a different embedding model are
+ * ignored on load until `sync` (the `reindex` command) re-embeds them.
+ */
+export class VectorStore {
+  private index = new VectorIndex();
+  private records: Map<string, StoredVectors> = new Map();
+  private chunkOwners: Map<string, string> = new Map();
+  private loaded = false;
+
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly backend: StorageBackend,
+    private readonly provider: () => EmbeddingProvider
+  ) {
+    store.on('documentRemoved', (documentId: string) => this.removeDocument(documentId));
+    store.on('cleared', () => this.clear());
+  }
+
+  public get model(): string {
+    return this.provider().model;
+  }
+
+  public get size(): number {
+    this.ensureLoaded();
+    return this.index.size;
+  }
+
+  /**
+   * Embeds the document's current chunks, reusing vectors of chunks whose text
+   * is unchanged. Returns the number of chunks sent to the embedding model.
+   */
+  public async embedDocument(documentId: string): Promise<number> {
+    this.ensureLoaded();
+    const document = this.store.getDocument(documentId);
+    if (!document) {
+      this.removeDocument(documentId);
+      return 0;
+    }
+
+    const provider = this.provider();
+    const previous = this.records.get(documentId);
+    const reusable = new Map(
+      previous?.model === provider.model
+        ? previous.chunks.map(chunk => [chunk.contentHash, chunk.vector] as const)
+        : []
+    );
+
+    const chunks = this.store.getChunks(documentId).map(chunk => ({
+      chunk,
+      contentHash: hashContent(chunk.content),
+    }));
+    const pending = chunks.filter(({ contentHash }) => !reusable.has(contentHash));
+    const vectors = await provider.embeddings.embedDocuments(pending.map(({ chunk }) => chunk.content));
+    pending.forEach(({ contentHash }, index) => reusable.set(contentHash, vectors[index]));
+
+    this.write({
+      documentId,
+      model: provider.model,
+      dimension: vectors[0]?.length ?? previous?.dimension ?? provider.dimension,
+      embeddedAt: new Date().toISOString(),
+      chunks: chunks.map(({ chunk, contentHash }) => ({
+        chunkId: chunk.id,
+        contentHash,
+        vector: reusable.get(contentHash)!,
+      })),
+    });
+    return pending.length;
+  }
+
+  public removeDocument(documentId: string): void {
+    this.ensureLoaded();
+    this.unindex(documentId);
+    this.records.delete(documentId);
+    this.backend.delete(VECTORS, documentId);
+  }
+
+  /**
+   * Brings the vectors in line with the document store: embeds documents that
+   * are missing, changed or embedded by another model, and drops vectors of
+   * deleted documents. `force` re-embeds everything.
+   */
+  public async sync(force = false): Promise<VectorSyncSummary> {
+    this.ensureLoaded();
+    const summary: VectorSyncSummary = { embedded: 0, removed: 0, unchanged: 0 };
+    const documentIds = new Set(this.store.getAllDocuments().map(doc => doc.id));
+
+    for (const documentId of Array.from(this.records.keys())) {
+      if (!documentIds.has(documentId)) {
+        this.removeDocument(documentId);
+        summary.removed++;
+      }
+    }
+
+    for (const documentId of documentIds) {
+      if (force) {
+        this.unindex(documentId);
+        this.records.delete(documentId);
+      }
+      if (this.isCurrent(documentId)) {
+        summary.unchanged++;
+      } else {
+        await this.embedDocument(documentId);
+        summary.embedded++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Chunks most similar to the query, honouring the similarity threshold and
+   * result limit from config unless overridden. Only the query is embedded;
+   * documents without current vectors are not found until the next sync.
+   */
+  public async search(query: string, options: SemanticSearchOptions = {}): Promise<ChunkHit[]> {
+    this.ensureLoaded();
+
+    const scope = this.store.documentScope(options);
+    const vector = await this.provider().embeddings.embedQuery(query);
+
+    return this.index
+      .search(vector, {
+        k: options.limit ?? config.settings.maxResults,
+        threshold: options.threshold ?? config.settings.similarityThreshold,
+        exact: options.exact,
+        accept: scope && (chunkId => scope.has(this.chunkOwners.get(chunkId)!)),
+      })
+      .map(({ key, score }) => ({
+        chunk: this.store.getChunks(this.chunkOwners.get(key)!).find(chunk => chunk.id === key)!,
+        score,
+      }))
+      .filter(hit => hit.chunk);
+  }
+
+  public clear(): void {
+    this.index.clear();
+    this.records.clear();
+    this.chunkOwners.clear();
+    this.backend.clear(VECTORS);
+    this.loaded = true;
+  }
+
+  private isCurrent(documentId: string): boolean {
+    const record = this.records.get(documentId);
+    if (!record || record.model !== this.model) {
+      return false;
+    }
+
+    const chunkIds = this.store.getChunks(documentId).map(chunk => chunk.id);
+    return chunkIds.length === record.chunks.length &&
+      chunkIds.every((id, index) => record.chunks[index].chunkId === id);
+  }
+
+  private write(record: StoredVectors): void {
+    this.unindex(record.documentId);
+    this.records.set(record.documentId, record);
+    this.backend.set(VECTORS, record.documentId, record);
+    this.indexRecord(record);
+  }
+
+  private indexRecord(record: StoredVectors): void {
+    for (const chunk of record.chunks) {
+      this.index.add(chunk.chunkId, chunk.vector);
+      this.chunkOwners.set(chunk.chunkId, record.documentId);
+    }
+  }
+
+  private unindex(documentId: string): void {
+    for (const chunk of this.records.get(documentId)?.chunks || []) {
+      this.index.remove(chunk.chunkId);
+      this.chunkOwners.delete(chunk.chunkId);
+    }
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const model = this.model;
+    for (const [documentId, record] of this.backend.entries<StoredVectors>(VECTORS)) {
+      if (record.model !== model) continue;
+      this.records.set(documentId, record);
+      this.indexRecord(record);
+    }
+  }
+}
+
+export const vectorStore = new VectorStore(
+  documentStore,
+  createStorageBackend(),
+  () => ModelManager.getInstance().getEmbeddingProvider()
+);
@@ -1,13 +1,54 @@
 import { ProcessorFactory } from './processors/index';
-import { SummaryAnalyzer, InsightAnalyzer } from './analyzers/index';
+import {
+  SummaryAnalyzer,
+  InsightAnalyzer,
+  questionAnswerer,
+  chatEngine,
+  analysisPipeline,
+  AnalysisStep,
+  QAOptions,
+  QAResult,
+  CorpusQAOptions,
+  CorpusQAResult,
+  ChatReply,
+  SummaryOptions,
+  SummaryResult,
+  KeywordExtractionResult,
+  InsightAnalysisResult,
+} from './analyzers/index';
 import { documentStore } from './core/types';
+import { exportBundle, importBundle, ImportMode } from './core/bundle';
+import { vectorStore } from './core/vectors';
+import { sessionStore, SessionScope, SessionExportFormat } from './core/sessions';
+import { CursorError, pageRequest, paginate } from './core/pagination';
+import { hybridRetriever, queryExpander, parseFacets, computeFacets, FacetCounts, FilterParseError, SearchQuery, QueryParseError, AnalysisSettings, RetrievalOptions } from './search/index';
 import { validateConfig } from './core/config';
 import { ModelManager } from './core/models';
-import { logger, DisplayUtils } from './utils/index';
-import { Document, DocumentChunk } from './core/types';
+import { logger, DisplayUtils, hashContent } from './utils/index';
+import {
+  Document,
+  DocumentChunk,
+  DocumentQuery,
+  PageRequest,
+  CursorPage,
+  SearchHit,
+  AnnotationInput,
+  IngestionOptions,
+  IngestionResult,
+  DirectorySyncSummary,
+  ChatSession,
+  DEFAULT_COLLECTION,
+} from './core/types';
 import path from 'path';
 import fs from 'fs-extra';
 
+const ANALYSIS_STEP_LABELS: Record<AnalysisStep, string> = {
+  summary: '📋 Generating summary...',
+  keywords: '🏷️  Extracting keywords...',
+  insights: '💡 Analyzing insights...',
+  questions: '❓ Generating questions...',
+};
+
 export class DocumentIntelligenceSystem {
   private summaryAnalyzer: SummaryAnalyzer;
   private insightAnalyzer: InsightAnalyzer;
@@ -28,6 +69,11 @@ export class DocumentIntelligenceSystem {
     }
 
     try {
+      if (!this.modelManager.hasLLM()) {
+        logger.success('Document Intelligence System initialized (offline)');
+        return true;
+      }
+
       const connectionTest = await this.modelManager.testConnection();
       if (!connectionTest) {
         logger.warn('Model connection test failed, but continuing...');
@@ -43,65 +89,131 @@ export class DocumentIntelligenceSystem {
     }
   }
 
-  public async processFile(filePath: string): Promise<boolean> {
+  public async processFile(filePath: string, options: IngestionOptions = {}): Promise<IngestionResult | null> {
+    const collection = options.collection || DEFAULT_COLLECTION;
+
     try {
       if (!await fs.pathExists(filePath)) {
         logger.error(`File not found: ${filePath}`);
-        return false;
+        return null;
+      }
+
+      const sourcePath = path.resolve(filePath);
+      const filename = options.filename || path.basename(filePath);
+      const contentHash = hashContent(await fs.readFile(sourcePath));
+      const existing = options.upload
+        ? documentStore.findUpload(contentHash, collection)
+        : documentStore.findBySourcePath(sourcePath, collection);
+
+      // Skip the processor entirely when the file bytes have not changed
+      if (existing && existing.metadata.contentHash === contentHash) {
+        logger.info(`⏭️  Unchanged, skipping: ${filename}`);
+        return {
+          documentId: existing.id,
+          status: 'unchanged',
+          chunkCount: documentStore.getChunks(existing.id).length,
+        };
       }
 
-      logger.info(`📄 Processing file: ${path.basename(filePath)}`);
+      logger.info(`📄 Processing file: ${filename}`);
       
-      const result = await ProcessorFactory.processFile(filePath);
+      const result = await ProcessorFactory.processFile(sourcePath, contentHash);
+      result.document.metadata.collection = collection;
+      result.document.metadata.filename = filename;
+      if (options.upload) {
+        delete result.document.metadata.sourcePath;
+      }
+
+      // Re-ingested files keep their id; the old chunks are replaced wholesale
+      if (existing) {
+        result.document.id = existing.id;
+        result.chunks.forEach(chunk => {
+          chunk.documentId = existing.id;
+        });
+      }
       
-      // Store the document and chunks
-      documentStore.addDocument(result.document);
-      documentStore.addChunks(result.document.id, result.chunks);
+      // Store the document and chunks, archiving the previous revision if any
+      documentStore.upsertDocument(result.document, result.chunks);
+      await this.embedChunks(result.document.id);
       
-      logger.success(`✅ File processed successfully: ${result.chunks.length} chunks created`);
+      logger.success(
+        existing
+          ? `✅ File updated successfully: version ${result.document.metadata.version}, ${result.chunks.length} chunks created`
+          : `✅ File processed successfully: ${result.chunks.length} chunks created`
+      );
       
-      return true;
+      return {
+        documentId: result.document.id,
+        status: existing ? 'updated' : 'added',
+        chunkCount: result.chunks.length,
+      };
     } catch (error) {
       logger.error(`Failed to process file: ${filePath}`, error);
-      return false;
+      return null;
     }
   }
 
-  public async processDirectory(dirPath: string): Promise<number> {
+  public async processDirectory(dirPath: string, options: IngestionOptions = {}): Promise<DirectorySyncSummary> {
+    const collection = options.collection || DEFAULT_COLLECTION;
+    const summary: DirectorySyncSummary = { total: 0, added: 0, updated: 0, unchanged: 0, removed: 0, failed: 0 };
+
     try {
       if (!await fs.pathExists(dirPath)) {
         logger.error(`Directory not found: ${dirPath}`);
-        return 0;
+        return summary;
       }
 
+      const rootPath = path.resolve(dirPath);
       const supportedExtensions = ProcessorFactory.getSupportedExtensions();
-      const files = await this.findSupportedFiles(dirPath, supportedExtensions);
-      
-      if (files.length === 0) {
+      const files = await this.findSupportedFiles(rootPath, supportedExtensions);
+      summary.total = files.length;
+
+      if (files.length > 0) {
+        logger.info(`📁 Processing directory: ${dirPath}`);
+        logger.info(`Found ${files.length} supported files`);
+      } else {
         logger.warn(`No supported files found in: ${dirPath}`);
         logger.info(`Supported extensions: ${supportedExtensions.join(', ')}`);
-        return 0;
       }
 
-      logger.info(`📁 Processing directory: ${dirPath}`);
-      logger.info(`Found ${files.length} supported files`);
-
       let processed = 0;
       for (const file of files) {
         DisplayUtils.showProgress(processed, files.length, `Processing ${path.basename(file)}`);
         
-        if (await this.processFile(file)) {
-          processed++;
+        const result = await this.processFile(file, { collection });
+        if (result) {
+          summary[result.status]++;
+        } else {
+          summary.failed++;
         }
+        processed++;
+      }
+
+      if (files.length > 0) {
+        DisplayUtils.showProgress(processed, files.length, 'Complete');
       }
 
-      DisplayUtils.showProgress(processed, files.length, 'Complete');
-      logger.success(`✅ Processed ${processed}/${files.length} files`);
+      // Documents previously ingested from this directory whose file is gone
+      const present = new Set(files);
+      const stale = documentStore.getAllDocuments({ collections: [collection] }).filter(doc => {
+        const sourcePath = doc.metadata.sourcePath;
+        return sourcePath && sourcePath.startsWith(rootPath + path.sep) && !present.has(sourcePath);
+      });
+      stale.forEach(doc => {
+        if (documentStore.removeDocument(doc.id)) {
+          summary.removed++;
+        }
+      });
+
+      logger.success(
+        `✅ Synced ${files.length - summary.failed}/${files.length} files: ` +
+        `${summary.added} added, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.removed} removed`
+      );
       
-      return processed;
+      return summary;
     } catch (error) {
       logger.error(`Failed to process directory: ${dirPath}`, error);
-      return 0;
+      return summary;
     }
   }
 
@@ -118,25 +230,20 @@ export class DocumentIntelligenceSystem {
       // Show document info
       DisplayUtils.showDocumentInfo(document);
 
-      // Generate summary
-      logger.info('📋 Generating summary...');
-      const summary = await this.summaryAnalyzer.summarizeDocument(document);
-      DisplayUtils.showSummary(summary);
-
-      // Extract keywords
-      logger.info('🏷️  Extracting keywords...');
-      const keywords = await this.insightAnalyzer.extractKeywords(document);
-      DisplayUtils.showKeywords(keywords);
-
-      // Analyze insights
-      logger.info('💡 Analyzing insights...');
-      const insights = await this.insightAnalyzer.analyzeInsights(document);
-      DisplayUtils.showInsights(insights);
-
-      // Generate questions
-      logger.info('❓ Generating questions...');
-      const questions = await this.insightAnalyzer.generateQuestions(document);
-      DisplayUtils.showQuestions(questions);
+      await analysisPipeline.analyze(document, {
+        onProgress: progress => {
+          if (progress.status === 'started') {
+            logger.info(ANALYSIS_STEP_LABELS[progress.step]);
+            return;
+          }
+          switch (progress.step) {
+            case 'summary': DisplayUtils.showSummary(progress.result as SummaryResult); break;
+            case 'keywords': DisplayUtils.showKeywords(progress.result as KeywordExtractionResult); break;
+            case 'insights': DisplayUtils.showInsights(progress.result as InsightAnalysisResult); break;
+            case 'questions': DisplayUtils.showQuestions(progress.result as string[]); break;
+          }
+        },
+      });
 
       logger.success('✅ Document analysis complete');
     } catch (error) {
@@ -144,21 +251,241 @@ export class DocumentIntelligenceSystem {
     }
   }
 
-  public async searchDocuments(query: string): Promise<Document[]> {
-    logger.info(`🔍 Searching documents for: "${query}"`);
+  /**
+   * Summarizes a document; with `streamTokens` the summary is printed as it
+   * is written.
+   */
+  public async summarizeDocument(
+    documentId: string,
+    options: SummaryOptions = {},
+    streamTokens = false
+  ): Promise<SummaryResult | null> {
+    const document = documentStore.getDocument(documentId);
+    if (!document) {
+      logger.error(`Document not found: ${documentId}`);
+      return null;
+    }
+
+    logger.info(`📋 Summarizing document: ${document.metadata.filename}`);
+    try {
+      const onToken = streamTokens ? DisplayUtils.startStream('📋 Summary') : undefined;
+      const summary = await this.summaryAnalyzer.summarizeDocument(document, options, { onToken });
+      DisplayUtils.showSummary(summary, streamTokens);
+      return summary;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * With `expand`, paraphrases, glossary expansions and sub-queries are
+   * searched too and their results merged in; `facets` are counted over every
+   * matching document. Returns the requested page of results.
+   */
+  public async searchDocuments(
+    query: string,
+    options: RetrievalOptions & PageRequest & { expand?: boolean; facets?: string[] } = {}
+  ): Promise<SearchHit[]> {
+    const mode = options.mode || 'keyword';
+    logger.info(`🔍 Searching documents for: "${query}" (${mode})`);
     
-    const results = documentStore.searchDocuments(query);
+    let parsed: SearchQuery;
+    let results: CursorPage<SearchHit>;
+    let facets: FacetCounts | undefined;
+    try {
+      parsed = SearchQuery.parse(query);
+      const facetNames = parseFacets(options.facets || []);
+      const { limit, cursor, sort, order, ...retrieval } = options;
+      const page = pageRequest({ limit, cursor, sort, order }, 'relevance');
+      const queries = options.expand
+        ? await queryExpander.expand(parsed.plainText, { collections: options.collections })
+        : [];
+      DisplayUtils.showExpandedQueries(queries);
+      const matched = await hybridRetriever.retrieveAllDocuments(parsed, {
+        ...retrieval,
+        expansions: queries.map(expanded => expanded.text),
+      });
+      results = paginate(matched, page, hit => hit.document);
+      if (facetNames.length > 0) {
+        facets = computeFacets(matched.map(hit => hit.document), facetNames, { tagsOf: document => documentStore.tagsOf(document) });
+      }
+    } catch (error) {
+      if (error instanceof QueryParseError) {
+        logger.error(`Invalid query: ${error.message}`);
+        console.log(`  ${query}\n  ${' '.repeat(error.position)}^`);
+      } else {
+        logger.error(error instanceof FilterParseError
+          ? `Invalid filter: ${error.message}`
+          : `Search failed: ${(error as Error).message}`);
+      }
+      return [];
+    }
     
-    if (results.length === 0) {
+    if (results.total === 0) {
       logger.info('No documents found matching the query');
     } else {
-      logger.success(`Found ${results.length} matching documents`);
-      results.forEach((doc, index) => {
-        console.log(`${index + 1}. ${doc.metadata.filename} (${doc.id})`);
-      });
+      logger.success(`Found ${results.total} matching documents`);
+      DisplayUtils.showSearchResults(results.items, documentStore.queryTerms(parsed), doc => documentStore.analyzerFor(doc));
+      DisplayUtils.showPageFooter(results);
+    }
+    if (facets) {
+      DisplayUtils.showFacets(facets);
     }
     
-    return results;
+    return results.items;
+  }
+
+  /**
+   * Answers a question from the document's most relevant passages, citing
+   * them inline. With `streamTokens` the answer is printed as it is written.
+   * Returns null when the document is missing or answering fails.
+   */
+  public async askQuestion(
+    documentId: string,
+    question: string,
+    options: QAOptions = {},
+    streamTokens = false
+  ): Promise<QAResult | null> {
+    const document = documentStore.getDocument(documentId);
+    if (!document) {
+      logger.error(`Document not found: ${documentId}`);
+      return null;
+    }
+
+    logger.info(`❓ Asking "${document.metadata.filename}": ${question}`);
+    try {
+      const onToken = streamTokens ? DisplayUtils.startStream('💬 Answer') : undefined;
+      const result = await questionAnswerer.answerQuestion(document, question, options, { onToken });
+      DisplayUtils.showAnswer(result, streamTokens);
+      DisplayUtils.showExpandedQueries(result.queries);
+      return result;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Answers a question from passages across the selected documents (all when
+   * none are selected), listing the documents consulted and those cited.
+   */
+  public async askAcrossDocuments(
+    question: string,
+    options: CorpusQAOptions = {},
+    streamTokens = false
+  ): Promise<CorpusQAResult | null> {
+    const missing = options.documentIds?.find(id => !documentStore.getDocument(id));
+    if (missing) {
+      logger.error(`Document not found: ${missing}`);
+      return null;
+    }
+
+    logger.info(`❓ Asking across documents: ${question}`);
+    try {
+      const onToken = streamTokens ? DisplayUtils.startStream('💬 Answer') : undefined;
+      const result = await questionAnswerer.answerAcrossDocuments(question, options, { onToken });
+      DisplayUtils.showAnswer(result, streamTokens);
+      DisplayUtils.showSourceDocuments(result);
+      DisplayUtils.showExpandedQueries(result.queries);
+      return result;
+    } catch (error) {
+      logger.error(error instanceof FilterParseError
+        ? `Invalid filter: ${error.message}`
+        : (error as Error).message);
+      return null;
+    }
+  }
+
+  public startChatSession(scope: SessionScope = {}, title?: string): ChatSession | null {
+    try {
+      const session = sessionStore.createSession(scope, title);
+      logger.success(`Chat session started: ${session.id}`);
+      return session;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Loads a session to continue it, showing the conversation so far.
+   */
+  public resumeChatSession(sessionId: string): ChatSession | null {
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      logger.error(`Chat session not found: ${sessionId}`);
+      return null;
+    }
+
+    DisplayUtils.showChatTranscript(session);
+    return session;
+  }
+
+  /**
+   * Asks a question within a chat session; follow-ups are rewritten into
+   * standalone questions using the earlier turns.
+   */
+  public async chat(
+    sessionId: string,
+    question: string,
+    options: QAOptions = {},
+    streamTokens = false
+  ): Promise<ChatReply | null> {
+    try {
+      const onToken = streamTokens ? DisplayUtils.startStream('💬 Answer') : undefined;
+      const reply = await chatEngine.ask(sessionId, question, options, { onToken });
+      DisplayUtils.showAnswer(reply.result, streamTokens);
+      if ('consulted' in reply.result) {
+        DisplayUtils.showSourceDocuments(reply.result);
+      }
+      if (reply.turn.standaloneQuestion !== question) {
+        logger.info(`🔎 Searched for: ${reply.turn.standaloneQuestion}`);
+      }
+      DisplayUtils.showExpandedQueries(reply.result.queries);
+      return reply;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return null;
+    }
+  }
+
+  public listChatSessions(): void {
+    const sessions = sessionStore.listSessions();
+    if (sessions.length === 0) {
+      logger.info('💬 No chat sessions yet');
+      return;
+    }
+
+    DisplayUtils.showChatSessions(sessions);
+  }
+
+  public async exportChatSession(sessionId: string, filePath: string, format: SessionExportFormat = 'json'): Promise<boolean> {
+    const exported = sessionStore.exportSession(sessionId, format);
+    if (exported === undefined) {
+      logger.error(`Chat session not found: ${sessionId}`);
+      return false;
+    }
+
+    try {
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, exported);
+      logger.success(`✅ Exported chat session to ${filePath}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to export chat session: ${filePath}`, error);
+      return false;
+    }
+  }
+
+  public deleteChatSession(sessionId: string): boolean {
+    if (!sessionStore.deleteSession(sessionId)) {
+      logger.error(`Chat session not found: ${sessionId}`);
+      return false;
+    }
+
+    logger.success(`✅ Chat session deleted: ${sessionId}`);
+    return true;
   }
 
   public async compareDocuments(id1: string, id2: string): Promise<void> {
@@ -213,30 +540,278 @@ export class DocumentIntelligenceSystem {
     }
   }
 
-  public showStats(): void {
-    const stats = documentStore.getStats();
+  public showStats(query: DocumentQuery = {}): void {
+    const stats = documentStore.getStats(query);
     DisplayUtils.showStats(stats);
   }
 
-  public listDocuments(): void {
-    const documents = documentStore.getAllDocuments();
+  public listDocuments(query: DocumentQuery = {}, page: PageRequest = {}): void {
+    let documents: CursorPage<Document>;
+    try {
+      documents = documentStore.getDocumentsPage(query, page);
+    } catch (error) {
+      logger.error(error instanceof CursorError
+        ? (error as Error).message
+        : `Invalid filter: ${(error as Error).message}`);
+      return;
+    }
     
-    if (documents.length === 0) {
-      logger.info('📁 No documents loaded');
+    if (documents.total === 0) {
+      logger.info(query.where || query.tags?.length ? '📁 No documents match the filter' : '📁 No documents loaded');
       return;
     }
 
     console.log('\n📚 Loaded Documents:');
     console.log('─'.repeat(50));
     
-    documents.forEach((doc, index) => {
+    documents.items.forEach((doc, index) => {
       console.log(`${index + 1}. ${doc.metadata.filename}`);
       console.log(`   ID: ${doc.id}`);
+      console.log(`   Collection: ${doc.metadata.collection || DEFAULT_COLLECTION}`);
       console.log(`   Type: ${doc.metadata.fileType}`);
       console.log(`   Size: ${DisplayUtils.formatFileSize(doc.metadata.size)}`);
       console.log(`   Chunks: ${doc.metadata.chunkCount || 0}`);
+      if (doc.tags?.length) {
+        console.log(`   Tags: ${doc.tags.join(', ')}`);
+      }
       console.log('');
     });
+    DisplayUtils.showPageFooter(documents);
+  }
+
+  public showHistory(documentId: string): void {
+    const document = documentStore.getDocument(documentId);
+    const versions = documentStore.getVersions(documentId);
+
+    if (!document || !versions) {
+      logger.error(`Document not found: ${documentId}`);
+      return;
+    }
+
+    DisplayUtils.showVersionHistory(document, versions);
+  }
+
+  public showDiff(documentId: string, fromVersion: number, toVersion: number): void {
+    if (!documentStore.getDocument(documentId)) {
+      logger.error(`Document not found: ${documentId}`);
+      return;
+    }
+
+    const diff = documentStore.diffVersions(documentId, fromVersion, toVersion);
+    if (!diff) {
+      logger.error(`Version not found: ${documentId} has no version ${fromVersion} or ${toVersion}`);
+      return;
+    }
+
+    DisplayUtils.showDiff(diff, fromVersion, toVersion);
+  }
+
+  public tagDocument(documentId: string, tags: string[], remove = false): boolean {
+    const document = remove
+      ? documentStore.untagDocument(documentId, tags)
+      : documentStore.tagDocument(documentId, tags);
+    if (!document) {
+      logger.error(`Document not found: ${documentId}`);
+      return false;
+    }
+
+    logger.success(`✅ Tags on ${document.metadata.filename}: ${document.tags?.join(', ') || '(none)'}`);
+    return true;
+  }
+
+  public setNotes(documentId: string, notes: string | null): boolean {
+    const document = documentStore.setDocumentNotes(documentId, notes);
+    if (!document) {
+      logger.error(`Document not found: ${documentId}`);
+      return false;
+    }
+
+    logger.success(notes ? `✅ Notes saved for ${document.metadata.filename}` : `✅ Notes cleared for ${document.metadata.filename}`);
+    return true;
+  }
+
+  public annotate(documentId: string, input: AnnotationInput): boolean {
+    try {
+      const annotation = documentStore.addAnnotation(documentId, input);
+      if (!annotation) {
+        logger.error(`Document not found: ${documentId}`);
+        return false;
+      }
+
+      const quote = annotation.quote.length > 60 ? annotation.quote.substring(0, 60) + '...' : annotation.quote;
+      logger.success(`✅ Annotation ${annotation.id} added: "${quote}"`);
+      return true;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return false;
+    }
+  }
+
+  public removeAnnotation(documentId: string, annotationId: string): boolean {
+    if (!documentStore.removeAnnotation(documentId, annotationId)) {
+      logger.error(`Annotation not found: ${annotationId}`);
+      return false;
+    }
+
+    logger.success(`✅ Annotation removed: ${annotationId}`);
+    return true;
+  }
+
+  public showAnnotations(documentId: string): void {
+    const document = documentStore.getDocument(documentId);
+    if (!document) {
+      logger.error(`Document not found: ${documentId}`);
+      return;
+    }
+
+    DisplayUtils.showAnnotations(document, documentStore.getChunks(documentId), documentStore.getAnnotations(documentId));
+  }
+
+  public listCollections(): void {
+    const collections = documentStore.listCollections();
+
+    if (collections.length === 0) {
+      logger.info('📂 No collections yet');
+      return;
+    }
+
+    DisplayUtils.showCollections(collections);
+  }
+
+  public createCollection(name: string, description?: string): boolean {
+    try {
+      documentStore.createCollection(name, description);
+      logger.success(`✅ Collection created: ${name}`);
+      return true;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return false;
+    }
+  }
+
+  public renameCollection(from: string, to: string): boolean {
+    try {
+      documentStore.renameCollection(from, to);
+      logger.success(`✅ Collection renamed: ${from} → ${to}`);
+      return true;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return false;
+    }
+  }
+
+  public configureCollectionAnalysis(name: string, analysis: AnalysisSettings): boolean {
+    try {
+      const collection = documentStore.setCollectionAnalysis(name, analysis);
+      const settings = collection.analysis || {};
+      logger.success(
+        `✅ Collection ${name} reindexed: language ${settings.language || 'auto'}, ` +
+        `stemming ${settings.stemming === false ? 'off' : 'on'}, stopwords ${settings.stopwords === false ? 'off' : 'on'}, ` +
+        `accent folding ${settings.foldAccents === false ? 'off' : 'on'}`
+      );
+      return true;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return false;
+    }
+  }
+
+  /**
+   * Adds or replaces glossary entries and removes the listed terms; with
+   * neither, shows the current glossary.
+   */
+  public updateCollectionGlossary(name: string, entries: Record<string, string>, remove: string[] = []): boolean {
+    try {
+      const collection = documentStore.getCollection(name);
+      if (!collection) {
+        throw new Error(`Collection not found: ${name}`);
+      }
+
+      if (Object.keys(entries).length === 0 && remove.length === 0) {
+        DisplayUtils.showGlossary(collection);
+        return true;
+      }
+
+      const glossary = { ...collection.glossary, ...entries };
+      remove.forEach(term => delete glossary[term]);
+      const updated = documentStore.setCollectionGlossary(name, glossary);
+      logger.success(`✅ Glossary of ${name} updated (${Object.keys(updated.glossary || {}).length} entries)`);
+      return true;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return false;
+    }
+  }
+
+  public deleteCollection(name: string): boolean {
+    try {
+      const removed = documentStore.deleteCollection(name);
+      logger.success(`✅ Collection deleted: ${name} (${removed} documents removed)`);
+      return true;
+    } catch (error) {
+      logger.error((error as Error).message);
+      return false;
+    }
+  }
+
+  public async exportCorpus(filePath: string, collections: string[] = []): Promise<boolean> {
+    try {
+      await fs.ensureDir(path.dirname(filePath));
+      const output = fs.createWriteStream(filePath);
+      let manifest;
+      try {
+        manifest = await exportBundle(documentStore, output, collections);
+      } finally {
+        // Closed on failure too, so the file handle is not leaked
+        await new Promise<void>((resolve, reject) => {
+          output.end((error?: Error | null) => (error ? reject(error) : resolve()));
+        });
+      }
+
+      logger.success(
+        `✅ Exported ${manifest.counts.documents} documents and ${manifest.counts.chunks} chunks to ${filePath}`
+      );
+      return true;
+    } catch (error) {
+      logger.error(`Failed to export corpus: ${filePath}`, error);
+      return false;
+    }
+  }
+
+  public async importCorpus(filePath: string, mode: ImportMode = 'merge'): Promise<boolean> {
+    try {
+      if (!await fs.pathExists(filePath)) {
+        logger.error(`File not found: ${filePath}`);
+        return false;
+      }
+
+      const summary = await importBundle(documentStore, fs.createReadStream(filePath), mode, vectorStore);
+      summary.warnings.forEach(warning => logger.warn(warning));
+      logger.success(
+        `✅ Imported (${mode}): ${summary.documentsAdded} documents added, ${summary.documentsReplaced} replaced, ` +
+        `${summary.chunks} chunks, ${summary.revisions} revisions, ${summary.analyses} cached analyses, ` +
+        `${summary.annotations} annotations, ${summary.embedded} documents embedded`
+      );
+      return true;
+    } catch (error) {
+      logger.error(`Failed to import corpus: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  public async reindexVectors(force = false): Promise<boolean> {
+    try {
+      logger.info(`🧮 Embedding chunks with ${vectorStore.model}...`);
+      const summary = await vectorStore.sync(force);
+      logger.success(
+        `✅ Vector index synced: ${summary.embedded} documents embedded, ${summary.unchanged} unchanged, ` +
+        `${summary.removed} removed (${vectorStore.size} vectors)`
+      );
+      return true;
+    } catch (error) {
+      logger.error(`Failed to build the vector index: ${(error as Error).message}`);
+      return false;
+    }
   }
 
   public clearStore(): void {
@@ -244,6 +819,15 @@ export class DocumentIntelligenceSystem {
     logger.success('✅ Document store cleared');
   }
 
+  // Ingestion still succeeds when embedding fails; the next vector sync retries
+  private async embedChunks(documentId: string): Promise<void> {
+    try {
+      await vectorStore.embedDocument(documentId);
+    } catch (error) {
+      logger.warn(`Chunks stored but not embedded: ${(error as Error).message}`);
+    }
+  }
+
   private async findSupportedFiles(dirPath: string, supportedExtensions: string[]): Promise<string[]> {
     const files: string[] = [];
     
@@ -3,13 +3,25 @@ import cors from 'cors';
 import path from 'path';
 import multer from 'multer';
 import fs from 'fs-extra';
-import { v4 as uuidv4 } from 'uuid';
+import { DocumentIntelligenceSystem } from './index';
+import { documentStore, DEFAULT_COLLECTION } from './core/types';
+import { CursorError, pageRequest } from './core/pagination';
+import { extractKeywords } from './search/TextAnalyzer';
+import { documentRouter } from './routes/documents';
+import { adminRouter } from './routes/admin';
+import { collectionRouter } from './routes/collections';
+import { searchRouter, qaOptions, qaOptionsError, describeAnswer } from './routes/search';
+import { sessionRouter } from './routes/sessions';
+import { streamRouter } from './routes/stream';
+import { parseList } from './routes/params';
+import { questionAnswerer } from './analyzers/QuestionAnswerer';
+import { FilterParseError } from './search/MetadataFilter';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Simple in-memory document store
-const documents = new Map();
+// Only used for file processing, which needs no AI provider
+const system = new DocumentIntelligenceSystem();
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -49,15 +61,14 @@ app.get('/api/health', (req, res) => {
 // Get system stats
 app.get('/api/stats', (req, res) => {
   try {
-    const docs = Array.from(documents.values());
-    const totalSize = docs.reduce((acc, doc) => acc + doc.size, 0);
+    const stats = documentStore.getStats({ collections: parseList(req.query.collection) });
 
     res.json({
       success: true,
       data: {
-        totalDocuments: docs.length,
-        totalChunks: docs.length * 5, // Simulated
-        totalSize
+        totalDocuments: stats.totalDocuments,
+        totalChunks: stats.totalChunks,
+        totalSize: stats.totalSize
       }
     });
   } catch (error) {
@@ -68,23 +79,40 @@ app.get('/api/stats', (req, res) => {
 // Get all documents
 app.get('/api/documents', (req, res) => {
   try {
-    const docs = Array.from(documents.values());
+    const page = documentStore.getDocumentsPage({
+      collections: parseList(req.query.collection),
+      where: typeof req.query.where === 'string' ? req.query.where : undefined,
+      tags: parseList(req.query.tag)
+    }, pageRequest(req.query, 'processedAt'));
     res.json({
       success: true,
-      data: docs.map(doc => ({
+      pagination: { total: page.total, nextCursor: page.nextCursor, sort: page.sort, order: page.order },
+      data: page.items.map(doc => ({
         id: doc.id,
-        filename: doc.filename,
-        fileType: doc.fileType,
-        size: doc.size,
-        processedAt: doc.processedAt,
-        chunkCount: 5 // Simulated
+        filename: doc.metadata.filename,
+        collection: doc.metadata.collection || DEFAULT_COLLECTION,
+        fileType: doc.metadata.fileType,
+        size: doc.metadata.size,
+        processedAt: doc.metadata.processedAt,
+        chunkCount: doc.metadata.chunkCount || 0,
+        tags: doc.tags || []
       }))
     });
   } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
+    const status = error instanceof FilterParseError || error instanceof CursorError ? 400 : 500;
+    res.status(status).json({ success: false, error: (error as Error).message });
   }
 });
 
+// Get, update and delete single documents, their chunks and history
+app.use('/api/documents', documentRouter);
+
+// Corpus export and import
+app.use('/api/admin', adminRouter);
+
+// Create, list, rename, configure and delete collections
+app.use('/api/collections', collectionRouter);
+
 // Upload and process document
 app.post('/api/upload', upload.single('document'), async (req, res) => {
   try {
@@ -102,32 +130,25 @@ app.post('/api/upload', upload.single('document'), async (req, res) => {
       });
     }
 
-    // Read file content
-    const content = await fs.readFile(req.file.path, 'utf-8');
-    
-    // Create document object
-    const document = {
-      id: uuidv4(),
+    const result = await system.processFile(req.file.path, {
+      collection: req.body?.collection || undefined,
       filename: req.file.originalname,
-      fileType: fileExtension.slice(1),
-      size: req.file.size,
-      content: content,
-      processedAt: new Date().toISOString(),
-      chunkCount: Math.ceil(content.length / 1000) // Simulate chunks
-    };
-
-    // Store document
-    documents.set(document.id, document);
-
-    res.json({
-      success: true,
-      document: {
-        id: document.id,
-        filename: document.filename,
-        chunkCount: document.chunkCount
-      }
+      upload: true
     });
 
+    if (result) {
+      res.json({
+        success: true,
+        document: {
+          id: result.documentId,
+          filename: req.file.originalname,
+          chunkCount: result.chunkCount
+        }
+      });
+    } else {
+      res.status(500).json({ success: false, error: 'Failed to process document' });
+    }
+
     // Clean up uploaded file
     await fs.remove(req.file.path);
   } catch (error) {
@@ -139,7 +160,7 @@ app.post('/api/upload', upload.single('document'), async (req, res) => {
 app.post('/api/analyze/:documentId', async (req, res) => {
   try {
     const { documentId } = req.params;
-    const document = documents.get(documentId);
+    const document = documentStore.getDocument(documentId);
 
     if (!document) {
       return res.status(404).json({ success: false, error: 'Document not found' });
@@ -151,16 +172,16 @@ app.post('/api/analyze/:documentId', async (req, res) => {
     
     const analysis = {
       summary: {
-        summary: `This document "${document.filename}" contains ${words.length} words and ${sentences.length} sentences. It appears to be a ${document.fileType.toUpperCase()} file with structured content.`,
+        summary: `This document "${document.metadata.filename}" contains ${words.length} words and ${sentences.length} sentences. It appears to be a ${document.metadata.fileType.slice(1).toUpperCase()} file with structured content.`,
         keyPoints: [
           `Document contains ${words.length} words`,
           `Text is divided into ${sentences.length} sentences`,
-          `File type: ${document.fileType.toUpperCase()}`,
+          `File type: ${document.metadata.fileType.slice(1).toUpperCase()}`,
           "Content is ready for question answering"
         ]
       },
       keywords: {
-        keywords: words.slice(0, 10).filter((word: string) => word.length > 3)
+        keywords: extractKeywords(document.content, documentStore.analyzerFor(document))
       },
       insights: {
         sentiment: 'neutral' as const,
@@ -184,6 +205,42 @@ app.post('/api/analyze/:documentId', async (req, res) => {
   }
 });
 
+// Question answering across documents: the whole store, or the documents selected by id, collection, filter and tag
+app.post('/api/qa', async (req, res) => {
+  try {
+    const { question, where } = req.body;
+    if (!question) {
+      return res.status(400).json({ success: false, error: 'Question is required' });
+    }
+    const optionsError = qaOptionsError(req.body);
+    if (optionsError) {
+      return res.status(400).json({ success: false, error: optionsError });
+    }
+    const documentIds = parseList(req.body.documentIds);
+    const missing = documentIds?.find(id => !documentStore.getDocument(id));
+    if (missing) {
+      return res.status(404).json({ success: false, error: `Document not found: ${missing}` });
+    }
+
+    // Extractive unless an LLM is configured
+    const result = await questionAnswerer.answerAcrossDocuments(question, {
+      ...qaOptions(req.body),
+      documentIds,
+      collections: parseList(req.body.collections),
+      where: typeof where === 'string' ? where : undefined,
+      tags: parseList(req.body.tags)
+    });
+
+    res.json({
+      success: true,
+      data: describeAnswer(result)
+    });
+  } catch (error) {
+    const status = error instanceof FilterParseError ? 400 : 500;
+    res.status(status).json({ success: false, error: (error as Error).message });
+  }
+});
+
 // Question answering
 app.post('/api/qa/:documentId', async (req, res) => {
   try {
@@ -193,67 +250,22 @@ app.post('/api/qa/:documentId', async (req, res) => {
     if (!question) {
       return res.status(400).json({ success: false, error: 'Question is required' });
     }
+    const optionsError = qaOptionsError(req.body);
+    if (optionsError) {
+      return res.status(400).json({ success: false, error: optionsError });
+    }
 
-    const document = documents.get(documentId);
+    const document = documentStore.getDocument(documentId);
     if (!document) {
       return res.status(404).json({ success: false, error: 'Document not found' });
     }
 
-    // Improved question answering with content analysis
-    const questionLower = question.toLowerCase();
-    const contentLower = document.content.toLowerCase();
-    
-    // Split content into sentences for better analysis
-    const sentences = document.content.split(/[.!?]+/).filter((s: string) => s.trim().length > 0);
-    
-    // Extract question keywords
-    const questionWords = questionLower.split(/\s+/).filter((word: string) => 
-      word.length > 2 && !['what', 'how', 'when', 'where', 'why', 'who', 'the', 'and', 'or', 'but', 'for', 'with', 'about'].includes(word)
-    );
-    
-    // Find relevant sentences based on keyword matching
-    const relevantSentences = sentences.filter((sentence: string) => {
-      const sentenceLower = sentence.toLowerCase();
-      return questionWords.some((word: string) => sentenceLower.includes(word));
-    });
-    
-    let answer = '';
-    
-    if (relevantSentences.length > 0) {
-      // Provide specific content-based answer
-      if (questionLower.includes('summary') || questionLower.includes('summarize')) {
-        answer = `Here's a summary based on the document: ${relevantSentences.slice(0, 3).join('. ')}.`;
-      } else if (questionLower.includes('main') || questionLower.includes('topic')) {
-        const firstParagraph = document.content.split('\n\n')[0];
-        answer = `The main topic appears to be: ${firstParagraph.substring(0, 200)}...`;
-      } else if (questionLower.includes('how many') || questionLower.includes('count')) {
-        const words = document.content.split(/\s+/).length;
-        const lines = document.content.split('\n').length;
-        answer = `The document contains ${words} words across ${lines} lines. ${relevantSentences.slice(0, 2).join('. ')}.`;
-      } else if (questionLower.includes('what is') || questionLower.includes('define')) {
-        answer = `Based on the document content: ${relevantSentences.slice(0, 2).join('. ')}.`;
-      } else {
-        // General question - provide most relevant sentences
-        answer = `Here's what I found in the document related to your question: ${relevantSentences.slice(0, 2).join('. ')}.`;
-        
-        if (relevantSentences.length > 2) {
-          answer += ` There are ${relevantSentences.length - 2} more relevant sections in the document.`;
-        }
-      }
-    } else {
-      // No direct matches - provide general document info
-      const firstSentences = sentences.slice(0, 2).join('. ');
-      answer = `I couldn't find specific information about "${question}" in this document. However, the document discusses: ${firstSentences}. You might want to rephrase your question or ask about the main topics covered.`;
-    }
+    // Extractive unless an LLM is configured
+    const result = await questionAnswerer.answerQuestion(document, question, qaOptions(req.body));
 
     res.json({
       success: true,
-      data: {
-        question,
-        answer,
-        relevantSections: relevantSentences.length,
-        documentLength: sentences.length
-      }
+      data: describeAnswer(result)
     });
   } catch (error) {
     res.status(500).json({ success: false, error: (error as Error).message });
@@ -264,7 +276,7 @@ app.post('/api/qa/:documentId', async (req, res) => {
 app.get('/api/questions/:documentId', async (req, res) => {
   try {
     const { documentId } = req.params;
-    const document = documents.get(documentId);
+    const document = documentStore.getDocument(documentId);
 
     if (!document) {
       return res.status(404).json({ success: false, error: 'Document not found' });
@@ -284,9 +296,9 @@ app.get('/api/questions/:documentId', async (req, res) => {
 
     // Generate contextual questions
     const questions = [
-      `What is the main topic discussed in ${document.filename}?`,
+      `What is the main topic discussed in ${document.metadata.filename}?`,
       "Can you summarize the key points from this document?",
-      `How many words are in this ${document.fileType} file?`,
+      `How many words are in this ${document.metadata.fileType.slice(1)} file?`,
       "What are the most important insights mentioned?",
     ];
 
@@ -312,7 +324,7 @@ app.get('/api/questions/:documentId', async (req, res) => {
       data: {
         questions: questions.slice(0, 8), // Limit to 8 questions
         documentInfo: {
-          filename: document.filename,
+          filename: document.metadata.filename,
           wordCount: words.length,
           sentenceCount: sentences.length,
           keyTopics: keyWords.slice(0, 5)
@@ -324,36 +336,14 @@ app.get('/api/questions/:documentId', async (req, res) => {
   }
 });
 
-// Search documents
-app.post('/api/search', async (req, res) => {
-  try {
-    const { query } = req.body;
-    
-    if (!query) {
-      return res.status(400).json({ success: false, error: 'Search query is required' });
-    }
+// Ranked search with highlighted snippets
+app.use('/api/search', searchRouter);
 
-    const docs = Array.from(documents.values());
-    const results = docs.filter(doc => 
-      doc.content?.toLowerCase().includes(query.toLowerCase()) ||
-      doc.filename.toLowerCase().includes(query.toLowerCase())
-    );
+// Chat sessions with follow-up questions
+app.use('/api/sessions', sessionRouter);
 
-    res.json({
-      success: true,
-      data: {
-        query,
-        results: results.map(doc => ({
-          id: doc.id,
-          filename: doc.filename,
-          relevance: 'high'
-        }))
-      }
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
+// Token-by-token QA, summaries and analysis over Server-Sent Events
+app.use('/api/stream', streamRouter);
 
 // Serve the frontend
 app.get('/', (req, res) => {
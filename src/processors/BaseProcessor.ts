@@ -2,6 +2,8 @@ import fs from 'fs-extra';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { Document, DocumentChunk, ProcessingResult } from '../core/types';
+import { pageAt } from '../search/snippets';
+import { detectLanguage } from '../search/TextAnalyzer';
 
 export abstract class BaseProcessor {
   protected abstract supportedExtensions: string[];
@@ -11,9 +13,10 @@ export abstract class BaseProcessor {
     return this.supportedExtensions.includes(ext);
   }
 
-  public abstract process(filePath: string): Promise<ProcessingResult>;
+  // `contentHash` is the hash of the file's bytes, already computed by the caller
+  public abstract process(filePath: string, contentHash: string): Promise<ProcessingResult>;
 
-  protected createDocument(filePath: string, content: string): Document {
+  protected createDocument(filePath: string, content: string, contentHash: string): Document {
     const stats = fs.statSync(filePath);
     const filename = path.basename(filePath);
     const fileType = path.extname(filePath).toLowerCase();
@@ -27,6 +30,9 @@ export abstract class BaseProcessor {
         size: stats.size,
         createdAt: stats.birthtime,
         processedAt: new Date(),
+        sourcePath: path.resolve(filePath),
+        contentHash,
+        language: detectLanguage(content) || 'unknown',
       },
     };
   }
@@ -50,8 +56,13 @@ export abstract class BaseProcessor {
           endChar: endIndex,
         },
       };
+      const page = pageAt(document.metadata.pageOffsets, startIndex);
+      if (page !== undefined) {
+        chunk.metadata.page = page;
+      }
 
       chunks.push(chunk);
+      if (endIndex === content.length) break;
       startIndex = endIndex - overlap;
       chunkIndex++;
     }
@@ -67,16 +78,7 @@ export abstract class BaseProcessor {
     return {
       wordCount,
       estimatedReadingTime,
-      language: this.detectLanguage(content),
+      language: detectLanguage(content) || 'unknown',
     };
   }
-
-  private detectLanguage(content: string): string {
-    // Simple language detection based on common words
-    const englishWords = ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'];
-    const words = content.toLowerCase().split(/\s+/);
-    const englishCount = words.filter(word => englishWords.includes(word)).length;
-    
-    return englishCount > words.length * 0.1 ? 'english' : 'unknown';
-  }
 }
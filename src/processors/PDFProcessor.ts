@@ -7,13 +7,23 @@ import { config } from '../core/config';
 export class PDFProcessor extends BaseProcessor {
   protected supportedExtensions = ['.pdf'];
 
-  public async process(filePath: string): Promise<ProcessingResult> {
+  public async process(filePath: string, contentHash: string): Promise<ProcessingResult> {
     try {
       const dataBuffer = await fs.readFile(filePath);
-      const pdfData = await pdf(dataBuffer);
+      const pageTexts: string[] = [];
+      const pdfData = await pdf(dataBuffer, {
+        pagerender: async (pageData: any) => {
+          const text = await renderPage(pageData).catch(() => '');
+          pageTexts.push(text);
+          return text;
+        },
+      });
       
       const content = pdfData.text;
-      const document = this.createDocument(filePath, content);
+      const document = this.createDocument(filePath, content, contentHash);
+      if (pageTexts.length === pdfData.numrender) {
+        document.metadata.pageOffsets = pageOffsets(pageTexts);
+      }
       const chunks = this.createChunks(
         document, 
         content, 
@@ -47,3 +57,26 @@ export class PDFProcessor extends BaseProcessor {
     }
   }
 }
+
+// pdf-parse's default page renderer, reproduced so page boundaries can be recorded
+const renderPage = async (pageData: any): Promise<string> => {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+    lastY = item.transform[5];
+  }
+  return text;
+};
+
+// pdf-parse prefixes every page's text with a blank line
+const pageOffsets = (pageTexts: string[]): number[] => {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const text of pageTexts) {
+    offsets.push(offset + 2);
+    offset += 2 + text.length;
+  }
+  return offsets;
+};
@@ -6,10 +6,10 @@ import { config } from '../core/config';
 export class TextProcessor extends BaseProcessor {
   protected supportedExtensions = ['.txt', '.md', '.markdown', '.text'];
 
-  public async process(filePath: string): Promise<ProcessingResult> {
+  public async process(filePath: string, contentHash: string): Promise<ProcessingResult> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
-      const document = this.createDocument(filePath, content);
+      const document = this.createDocument(filePath, content, contentHash);
       const chunks = this.createChunks(
         document, 
         content, 
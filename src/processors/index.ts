@@ -13,7 +13,7 @@ export class ProcessorFactory {
     return this.processors.find(processor => processor.supports(filePath)) || null;
   }
 
-  public static async processFile(filePath: string): Promise<ProcessingResult> {
+  public static async processFile(filePath: string, contentHash: string): Promise<ProcessingResult> {
     const processor = this.getProcessor(filePath);
     
     if (!processor) {
@@ -21,7 +21,7 @@ export class ProcessorFactory {
     }
 
     console.log(`📄 Processing file: ${filePath}`);
-    const result = await processor.process(filePath);
+    const result = await processor.process(filePath, contentHash);
     console.log(`✅ Processed successfully: ${result.chunks.length} chunks created`);
     
     return result;
@@ -0,0 +1,61 @@
+import { sessionStore } from '../../core/sessions';
+import { documentStore } from '../../core/store';
+import { collectionRouter } from '../collections';
+import { makeDocument } from '../../__tests__/fixtures';
+import { serveRouter } from '../../__tests__/http';
+
+const api = serveRouter('/api/collections', collectionRouter);
+
+beforeEach(() => {
+  documentStore.addDocument(makeDocument('policy', 'Leave policy', { collection: 'hr' }));
+});
+
+afterEach(() => {
+  documentStore.clear();
+  sessionStore.listSessions().forEach(session => sessionStore.deleteSession(session.id));
+});
+
+describe('/api/collections', () => {
+  it('creates collections and lists them with their document counts', async () => {
+    const created = await api.post('/api/collections', { name: 'legal', description: 'Contracts' });
+    const listed = await api.get('/api/collections');
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toEqual(expect.objectContaining({ name: 'legal', description: 'Contracts' }));
+    expect(listed.body.data.map(({ name, documentCount }: any) => [name, documentCount])).toEqual([['hr', 1], ['legal', 0]]);
+  });
+
+  it('rejects missing, invalid and taken names on create', async () => {
+    expect(await api.post('/api/collections', {})).toEqual({ status: 400, body: { success: false, error: 'Collection name is required' } });
+    expect((await api.post('/api/collections', { name: 'a/b' })).status).toBe(400);
+    expect(await api.post('/api/collections', { name: 'hr' })).toEqual({ status: 409, body: { success: false, error: 'Collection already exists: hr' } });
+  });
+
+  it('renames a collection, moving its documents and the sessions scoped to it', async () => {
+    const session = sessionStore.createSession({ collections: ['hr'] });
+
+    const renamed = await api.patch('/api/collections/hr', { name: 'people' });
+
+    expect(renamed.status).toBe(200);
+    expect(renamed.body.data.name).toBe('people');
+    expect(documentStore.getDocument('policy')?.metadata.collection).toBe('people');
+    expect(sessionStore.getSession(session.id)?.collections).toEqual(['people']);
+  });
+
+  it('rejects renames without a name, of missing collections and onto taken names', async () => {
+    documentStore.createCollection('finance');
+
+    expect((await api.patch('/api/collections/hr', {})).status).toBe(400);
+    expect((await api.patch('/api/collections/legal', { name: 'law' })).status).toBe(404);
+    expect((await api.patch('/api/collections/hr', { name: 'finance' })).status).toBe(409);
+    expect((await api.patch('/api/collections/hr', { name: 'two words' })).status).toBe(400);
+    expect(documentStore.getDocument('policy')?.metadata.collection).toBe('hr');
+  });
+
+  it('deletes a collection with its documents', async () => {
+    expect(await api.delete('/api/collections/hr'))
+      .toEqual({ status: 200, body: { success: true, data: { name: 'hr', removedDocuments: 1 } } });
+    expect(documentStore.getDocument('policy')).toBeUndefined();
+    expect((await api.delete('/api/collections/hr')).status).toBe(404);
+  });
+});
@@ -0,0 +1,77 @@
+import { documentStore } from '../../core/store';
+import { documentRouter } from '../documents';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+import { serveRouter } from '../../__tests__/http';
+
+const api = serveRouter('/api/documents', documentRouter);
+
+const report = makeDocument('report', ['Revenue grew.', 'Costs fell.', 'Margins widened.'].join('\n\n'), { collection: 'finance' });
+
+beforeEach(() => {
+  documentStore.addDocument(report);
+  documentStore.addChunks(report.id, paragraphChunks(report));
+});
+
+afterEach(() => documentStore.clear());
+
+describe('/api/documents/:id', () => {
+  it('returns a document\'s metadata and its full text', async () => {
+    const { status, body } = await api.get('/api/documents/report');
+    const content = await api.get('/api/documents/report/content');
+
+    expect(status).toBe(200);
+    expect(body.data).toEqual(expect.objectContaining({ id: 'report', tags: [], notes: null, chunkCount: 3 }));
+    expect(content.body.data).toEqual({ id: 'report', filename: 'report.txt', content: report.content });
+    expect((await api.get('/api/documents/missing')).status).toBe(404);
+    expect((await api.get('/api/documents/missing/content')).status).toBe(404);
+  });
+
+  it('updates editable metadata fields, removing them with null', async () => {
+    await api.patch('/api/documents/report', { metadata: { title: 'Annual report', author: 'Finance' } });
+    const { status, body } = await api.patch('/api/documents/report', { metadata: { filename: 'annual.txt', author: null } });
+
+    expect(status).toBe(200);
+    expect(body.data.metadata).toEqual(expect.objectContaining({ filename: 'annual.txt', title: 'Annual report', collection: 'finance' }));
+    expect(body.data.metadata).not.toHaveProperty('author');
+    expect(documentStore.getDocument('report')?.metadata.filename).toBe('annual.txt');
+  });
+
+  it('rejects fields that are not editable, values that are not strings and removing the filename', async () => {
+    for (const metadata of [{ collection: 'other' }, { size: 1 }, { pageOffsets: [0] }, { filename: { name: 'x' } }, { title: 42 }, { filename: null }, { filename: ' ' }]) {
+      const { status, body } = await api.patch('/api/documents/report', { metadata });
+
+      expect([status, body.success]).toEqual([400, false]);
+    }
+    expect((await api.patch('/api/documents/report', { metadata: [] })).status).toBe(400);
+    expect((await api.patch('/api/documents/missing', { metadata: { title: 'x' } })).status).toBe(404);
+    expect(documentStore.getDocument('report')?.metadata).toEqual(report.metadata);
+    expect(documentStore.listCollections().map(collection => collection.name)).toEqual(['finance']);
+  });
+
+  it('deletes a document with its chunks', async () => {
+    expect(await api.delete('/api/documents/report')).toEqual({ status: 200, body: { success: true, data: { id: 'report', deleted: true } } });
+    expect(documentStore.getChunks('report')).toEqual([]);
+    expect((await api.delete('/api/documents/report')).status).toBe(404);
+  });
+});
+
+describe('/api/documents/:id/chunks', () => {
+  it('pages through chunks with their offsets', async () => {
+    const { body } = await api.get('/api/documents/report/chunks?offset=1&limit=1');
+
+    expect(body.data).toEqual({
+      items: [{ id: 'report-1', index: 1, startChar: 15, endChar: 26, tags: [], notes: null, content: 'Costs fell.' }],
+      total: 3,
+      offset: 1,
+      limit: 1,
+    });
+    expect((await api.get('/api/documents/report/chunks?limit=500')).body.data.limit).toBe(100);
+    expect((await api.get('/api/documents/missing/chunks')).status).toBe(404);
+  });
+
+  it('rejects negative, fractional and non-numeric paging', async () => {
+    for (const query of ['offset=-1', 'limit=-5', 'limit=0', 'offset=1.5', 'limit=abc']) {
+      expect((await api.get(`/api/documents/report/chunks?${query}`)).status).toBe(400);
+    }
+  });
+});
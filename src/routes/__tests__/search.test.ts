@@ -0,0 +1,30 @@
+import { qaOptionsError, searchRouter } from '../search';
+import { serveRouter } from '../../__tests__/http';
+
+const api = serveRouter('/api/search', searchRouter);
+
+describe('qaOptionsError', () => {
+  it('accepts positive integer counts and known rerankers and engines', () => {
+    expect(qaOptionsError({ passages: 5, candidates: 20, rerank: 'lexical', engine: 'extractive' })).toBeUndefined();
+    expect(qaOptionsError({})).toBeUndefined();
+  });
+
+  it('rejects counts that are not positive integers', () => {
+    for (const passages of [0, -3, 1.5, '5']) {
+      expect(qaOptionsError({ passages })).toBe('passages must be a positive integer');
+    }
+    expect(qaOptionsError({ candidates: -1 })).toBe('candidates must be a positive integer');
+  });
+
+  it('rejects unknown rerankers and engines', () => {
+    expect(qaOptionsError({ rerank: 'magic' })).toMatch(/^Reranker must be one of: /);
+    expect(qaOptionsError({ engine: 'oracle' })).toMatch(/^Engine must be one of: /);
+  });
+});
+
+describe('/api/search', () => {
+  it('rejects candidate counts that are not positive integers', async () => {
+    expect(await api.post('/api/search', { query: 'payment', rerank: 'lexical', candidates: 0 }))
+      .toEqual({ status: 400, body: { success: false, error: 'candidates must be a positive integer' } });
+  });
+});
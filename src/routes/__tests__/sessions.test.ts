@@ -0,0 +1,74 @@
+import { CorpusQAResult, questionAnswerer } from '../../analyzers/QuestionAnswerer';
+import { sessionStore } from '../../core/sessions';
+import { documentStore } from '../../core/store';
+import { sessionRouter } from '../sessions';
+import { makeDocument } from '../../__tests__/fixtures';
+import { serveRouter } from '../../__tests__/http';
+
+const api = serveRouter('/api/sessions', sessionRouter);
+
+const answer = { question: 'What is the leave policy?', answer: 'Answer', found: false, citations: [], passages: [] } as unknown as CorpusQAResult;
+
+beforeEach(() => {
+  documentStore.addDocument(makeDocument('policy', 'Leave policy', { collection: 'hr' }));
+  documentStore.addDocument(makeDocument('budget', 'Budget plan', { collection: 'finance' }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  documentStore.clear();
+  sessionStore.listSessions().forEach(session => sessionStore.deleteSession(session.id));
+});
+
+describe('/api/sessions', () => {
+  it('starts sessions over existing documents and collections', async () => {
+    const { status, body } = await api.post('/api/sessions', { collections: ['hr'], title: 'Leave' });
+
+    expect(status).toBe(201);
+    expect(body.data).toEqual(expect.objectContaining({ title: 'Leave', collections: ['hr'], turns: [] }));
+    expect(sessionStore.getSession(body.data.id)).toBeDefined();
+  });
+
+  it('rejects missing documents and collections with 404', async () => {
+    expect(await api.post('/api/sessions', { documentIds: ['policy', 'missing'] }))
+      .toEqual({ status: 404, body: { success: false, error: 'Document not found: missing' } });
+    expect(await api.post('/api/sessions', { collections: 'legal' }))
+      .toEqual({ status: 404, body: { success: false, error: 'Collection not found: legal' } });
+    expect(sessionStore.listSessions()).toEqual([]);
+  });
+});
+
+describe('/api/sessions/:id/messages', () => {
+  it('answers and records the turn', async () => {
+    jest.spyOn(questionAnswerer, 'answerAcrossDocuments').mockResolvedValue(answer);
+    const session = sessionStore.createSession({ collections: ['hr', 'finance'] });
+
+    const { status, body } = await api.post(`/api/sessions/${session.id}/messages`, { question: 'What is the leave policy?' });
+
+    expect(status).toBe(200);
+    expect(body.data).toEqual(expect.objectContaining({ sessionId: session.id, answer: 'Answer' }));
+    expect(sessionStore.getSession(session.id)?.turns).toHaveLength(1);
+  });
+
+  it('returns 404 for missing sessions and sessions whose collections are gone', async () => {
+    const session = sessionStore.createSession({ collections: ['hr'] });
+    documentStore.deleteCollection('hr');
+
+    expect(await api.post('/api/sessions/missing/messages', { question: 'Hello?' }))
+      .toEqual({ status: 404, body: { success: false, error: 'Chat session not found: missing' } });
+    expect(await api.post(`/api/sessions/${session.id}/messages`, { question: 'Hello?' }))
+      .toEqual({ status: 404, body: { success: false, error: 'None of the session\'s collections exist any more' } });
+  });
+
+  it('returns 404 when the session is deleted while the answer is written', async () => {
+    const session = sessionStore.createSession({ collections: ['hr', 'finance'] });
+    jest.spyOn(questionAnswerer, 'answerAcrossDocuments').mockImplementation(async () => {
+      sessionStore.deleteSession(session.id);
+      return answer;
+    });
+
+    expect(await api.post(`/api/sessions/${session.id}/messages`, { question: 'What is the leave policy?' }))
+      .toEqual({ status: 404, body: { success: false, error: `Chat session not found: ${session.id}` } });
+    expect(sessionStore.getSession(session.id)).toBeUndefined();
+  });
+});
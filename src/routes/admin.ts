@@ -0,0 +1,70 @@
+import express from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs-extra';
+import { config } from '../core/config';
+import { documentStore } from '../core/types';
+import { exportBundle, importBundle } from '../core/bundle';
+import { vectorStore } from '../core/vectors';
+
+/**
+ * Corpus administration routes, mounted at `/api/admin`. Every request must
+ * carry ADMIN_TOKEN as a bearer token; without one configured the routes are
+ * disabled, since an import can replace the whole store.
+ */
+export const adminRouter = express.Router();
+
+const upload = multer({
+  dest: path.join(__dirname, '..', '..', 'uploads'),
+  limits: {
+    fileSize: 200 * 1024 * 1024 // Bundles carry whole corpora
+  }
+});
+
+adminRouter.use((req, res, next) => {
+  if (!config.server.adminToken) {
+    return res.status(403).json({ success: false, error: 'Admin routes are disabled; set ADMIN_TOKEN to enable them' });
+  }
+  if (req.get('authorization') !== `Bearer ${config.server.adminToken}`) {
+    return res.status(401).json({ success: false, error: 'Admin token required' });
+  }
+  next();
+});
+
+// Download the store (or some collections) as a JSONL bundle
+adminRouter.get('/export', async (req, res) => {
+  try {
+    const collections = typeof req.query.collection === 'string'
+      ? req.query.collection.split(',').map(name => name.trim()).filter(Boolean)
+      : [];
+    const filename = `doc-intel-${new Date().toISOString().slice(0, 10)}.jsonl`;
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    await exportBundle(documentStore, res, collections);
+    res.end();
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy(error as Error);
+    } else {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+});
+
+// Upload a bundle and merge it into (or replace) the store
+adminRouter.post('/import', upload.single('bundle'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ success: false, error: 'No bundle uploaded (use the "bundle" form field)' });
+  }
+
+  try {
+    const mode = req.query.mode === 'replace' ? 'replace' : 'merge';
+    const summary = await importBundle(documentStore, fs.createReadStream(req.file.path), mode, vectorStore);
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+  } finally {
+    await fs.remove(req.file.path);
+  }
+});
@@ -0,0 +1,103 @@
+import express from 'express';
+import { documentStore } from '../core/types';
+
+/**
+ * Collection management routes shared by both servers, mounted at `/api/collections`.
+ */
+export const collectionRouter = express.Router();
+
+// List collections
+collectionRouter.get('/', (req, res) => {
+  try {
+    res.json({ success: true, data: documentStore.listCollections() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Create a collection
+collectionRouter.post('/', (req, res) => {
+  try {
+    const { name, description } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ success: false, error: 'Collection name is required' });
+    }
+    if (documentStore.getCollection(name)) {
+      return res.status(409).json({ success: false, error: `Collection already exists: ${name}` });
+    }
+
+    res.status(201).json({ success: true, data: documentStore.createCollection(name, description) });
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Rename a collection
+collectionRouter.patch('/:name', (req, res) => {
+  try {
+    const { name } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ success: false, error: 'New collection name is required' });
+    }
+    if (!documentStore.getCollection(req.params.name)) {
+      return res.status(404).json({ success: false, error: 'Collection not found' });
+    }
+    if (documentStore.getCollection(name)) {
+      return res.status(409).json({ success: false, error: `Collection already exists: ${name}` });
+    }
+
+    res.json({ success: true, data: documentStore.renameCollection(req.params.name, name) });
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Configure how a collection's documents are tokenized, filtered and stemmed
+collectionRouter.put('/:name/analysis', (req, res) => {
+  try {
+    if (!documentStore.getCollection(req.params.name)) {
+      return res.status(404).json({ success: false, error: 'Collection not found' });
+    }
+
+    const { language, stemming, stopwords, foldAccents } = req.body || {};
+    res.json({
+      success: true,
+      data: documentStore.setCollectionAnalysis(req.params.name, { language, stemming, stopwords, foldAccents })
+    });
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Replace the acronym glossary used to expand queries against a collection
+collectionRouter.put('/:name/glossary', (req, res) => {
+  try {
+    if (!documentStore.getCollection(req.params.name)) {
+      return res.status(404).json({ success: false, error: 'Collection not found' });
+    }
+
+    const { glossary } = req.body || {};
+    if (glossary !== undefined && (typeof glossary !== 'object' || glossary === null || Array.isArray(glossary))) {
+      return res.status(400).json({ success: false, error: 'Glossary must be an object of term → expansion' });
+    }
+    res.json({ success: true, data: documentStore.setCollectionGlossary(req.params.name, glossary) });
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Delete a collection and its documents
+collectionRouter.delete('/:name', (req, res) => {
+  try {
+    if (!documentStore.getCollection(req.params.name)) {
+      return res.status(404).json({ success: false, error: 'Collection not found' });
+    }
+
+    const removedDocuments = documentStore.deleteCollection(req.params.name);
+    res.json({ success: true, data: { name: req.params.name, removedDocuments } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
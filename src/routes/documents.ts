@@ -0,0 +1,332 @@
+import express from 'express';
+import { documentStore } from '../core/types';
+
+/**
+ * Per-document routes shared by both servers, mounted at `/api/documents`.
+ */
+export const documentRouter = express.Router();
+
+// Get one document's metadata
+documentRouter.get('/:id', (req, res) => {
+  try {
+    const document = documentStore.getDocument(req.params.id);
+    if (!document) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        id: document.id,
+        metadata: document.metadata,
+        tags: document.tags || [],
+        notes: document.notes || null,
+        contentLength: document.content.length,
+        chunkCount: documentStore.getChunks(document.id).length
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Update document metadata
+documentRouter.patch('/:id', (req, res) => {
+  try {
+    const { metadata } = req.body || {};
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return res.status(400).json({ success: false, error: 'Body must contain a "metadata" object' });
+    }
+    if (!documentStore.getDocument(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    const document = documentStore.updateDocumentMetadata(req.params.id, metadata);
+    res.json({ success: true, data: { id: document!.id, metadata: document!.metadata } });
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Delete a document with its chunks and history
+documentRouter.delete('/:id', (req, res) => {
+  try {
+    if (!documentStore.removeDocument(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.json({ success: true, data: { id: req.params.id, deleted: true } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Page through a document's chunks
+documentRouter.get('/:id/chunks', (req, res) => {
+  try {
+    if (!documentStore.getDocument(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    const offset = Number(req.query.offset ?? 0);
+    const limit = Number(req.query.limit ?? 20);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'Query parameter "offset" must be a non-negative integer and "limit" a positive integer'
+      });
+    }
+
+    const page = documentStore.getChunksPage(req.params.id, offset, Math.min(100, limit));
+    res.json({
+      success: true,
+      data: {
+        ...page,
+        items: page.items.map(chunk => ({
+          id: chunk.id,
+          index: chunk.index,
+          startChar: chunk.metadata.startChar,
+          endChar: chunk.metadata.endChar,
+          tags: chunk.tags || [],
+          notes: chunk.notes || null,
+          content: chunk.content
+        }))
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Get a document's full text
+documentRouter.get('/:id/content', (req, res) => {
+  try {
+    const document = documentStore.getDocument(req.params.id);
+    if (!document) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        id: document.id,
+        filename: document.metadata.filename,
+        content: document.content
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List the stored versions of a document
+documentRouter.get('/:id/versions', (req, res) => {
+  try {
+    const versions = documentStore.getVersions(req.params.id);
+    if (!versions) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.json({ success: true, data: versions });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Fetch one revision of a document
+documentRouter.get('/:id/versions/:version', (req, res) => {
+  try {
+    const revision = documentStore.getVersion(req.params.id, parseInt(req.params.version));
+    if (!revision) {
+      return res.status(404).json({ success: false, error: 'Document version not found' });
+    }
+
+    res.json({ success: true, data: revision });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Diff two revisions of a document
+documentRouter.get('/:id/diff', (req, res) => {
+  try {
+    const from = parseInt(String(req.query.from));
+    const to = parseInt(String(req.query.to));
+    if (isNaN(from) || isNaN(to)) {
+      return res.status(400).json({ success: false, error: 'Query parameters "from" and "to" must be version numbers' });
+    }
+
+    const diff = documentStore.diffVersions(req.params.id, from, to);
+    if (!diff) {
+      return res.status(404).json({ success: false, error: 'Document version not found' });
+    }
+
+    res.json({ success: true, data: { from, to, ...diff } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Add tags to a document
+documentRouter.post('/:id/tags', (req, res) => {
+  try {
+    const tags = readTags(req.body);
+    if (!tags) {
+      return res.status(400).json({ success: false, error: 'Body must contain a "tags" array of strings' });
+    }
+
+    const document = documentStore.tagDocument(req.params.id, tags);
+    if (!document) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.json({ success: true, data: { id: document.id, tags: document.tags } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Remove a tag from a document
+documentRouter.delete('/:id/tags/:tag', (req, res) => {
+  try {
+    const document = documentStore.untagDocument(req.params.id, [req.params.tag]);
+    if (!document) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.json({ success: true, data: { id: document.id, tags: document.tags } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Set or clear (null) a document's notes
+documentRouter.put('/:id/notes', (req, res) => {
+  try {
+    const notes = readNotes(req.body);
+    if (notes === undefined) {
+      return res.status(400).json({ success: false, error: 'Body must contain "notes" as a string or null' });
+    }
+
+    const document = documentStore.setDocumentNotes(req.params.id, notes);
+    if (!document) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.json({ success: true, data: { id: document.id, notes: document.notes || null } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Add tags to a chunk
+documentRouter.post('/:id/chunks/:chunkId/tags', (req, res) => {
+  try {
+    const tags = readTags(req.body);
+    if (!tags) {
+      return res.status(400).json({ success: false, error: 'Body must contain a "tags" array of strings' });
+    }
+
+    const chunk = documentStore.tagChunk(req.params.id, req.params.chunkId, tags);
+    if (!chunk) {
+      return res.status(404).json({ success: false, error: 'Chunk not found' });
+    }
+
+    res.json({ success: true, data: { id: chunk.id, tags: chunk.tags } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Remove a tag from a chunk
+documentRouter.delete('/:id/chunks/:chunkId/tags/:tag', (req, res) => {
+  try {
+    const chunk = documentStore.untagChunk(req.params.id, req.params.chunkId, [req.params.tag]);
+    if (!chunk) {
+      return res.status(404).json({ success: false, error: 'Chunk not found' });
+    }
+
+    res.json({ success: true, data: { id: chunk.id, tags: chunk.tags } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Set or clear (null) a chunk's notes
+documentRouter.put('/:id/chunks/:chunkId/notes', (req, res) => {
+  try {
+    const notes = readNotes(req.body);
+    if (notes === undefined) {
+      return res.status(400).json({ success: false, error: 'Body must contain "notes" as a string or null' });
+    }
+
+    const chunk = documentStore.setChunkNotes(req.params.id, req.params.chunkId, notes);
+    if (!chunk) {
+      return res.status(404).json({ success: false, error: 'Chunk not found' });
+    }
+
+    res.json({ success: true, data: { id: chunk.id, notes: chunk.notes || null } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List a document's annotations
+documentRouter.get('/:id/annotations', (req, res) => {
+  try {
+    if (!documentStore.getDocument(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.json({ success: true, data: documentStore.getAnnotations(req.params.id) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Annotate a character range of a document
+documentRouter.post('/:id/annotations', (req, res) => {
+  try {
+    const { startChar, endChar, note } = req.body || {};
+    const tags = req.body?.tags === undefined ? [] : readTags(req.body);
+    if (typeof startChar !== 'number' || typeof endChar !== 'number' || !tags ||
+        (note !== undefined && typeof note !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Body must contain numeric "startChar" and "endChar", with optional "note" string and "tags" array'
+      });
+    }
+
+    const annotation = documentStore.addAnnotation(req.params.id, { startChar, endChar, note, tags });
+    if (!annotation) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    res.status(201).json({ success: true, data: annotation });
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Remove an annotation
+documentRouter.delete('/:id/annotations/:annotationId', (req, res) => {
+  try {
+    if (!documentStore.removeAnnotation(req.params.id, req.params.annotationId)) {
+      return res.status(404).json({ success: false, error: 'Annotation not found' });
+    }
+
+    res.json({ success: true, data: { id: req.params.annotationId, deleted: true } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+const readTags = (body: unknown): string[] | undefined => {
+  const tags = (body as { tags?: unknown } | undefined)?.tags;
+  return Array.isArray(tags) && tags.every(tag => typeof tag === 'string') ? tags : undefined;
+};
+
+const readNotes = (body: unknown): string | null | undefined => {
+  const notes = (body as { notes?: unknown } | undefined)?.notes;
+  return typeof notes === 'string' || notes === null ? notes : undefined;
+};
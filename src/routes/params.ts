@@ -0,0 +1,6 @@
+// Accepts either a comma-separated string (query params, form fields) or an array (JSON bodies)
+export const parseList = (value: unknown): string[] | undefined => {
+  const names = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(',') : [];
+  const trimmed = names.map(name => name.trim()).filter(Boolean);
+  return trimmed.length > 0 ? trimmed : undefined;
+};
@@ -0,0 +1,173 @@
+import express from 'express';
+import { config } from '../core/config';
+import { Document, ChunkHit, documentStore, DEFAULT_COLLECTION, SEARCH_MODES } from '../core/types';
+import { FilterParseError } from '../search/MetadataFilter';
+import { hybridRetriever } from '../search/HybridRetriever';
+import { queryExpander } from '../search/QueryExpander';
+import { questionAnswerer, QA_ENGINES, QAEngine, QAOptions, QAResult, CorpusQAResult } from '../analyzers/QuestionAnswerer';
+import { FACETS, resolveFacet, parseFacets, computeFacets } from '../search/facets';
+import { SearchQuery, QueryParseError } from '../search/QueryParser';
+import { previewHit, markSnippet } from '../search/snippets';
+import { CursorError, pageRequest, paginate } from '../core/pagination';
+import { parseList } from './params';
+
+/**
+ * Search route shared by both servers, mounted at `/api/search`.
+ */
+export const searchRouter = express.Router();
+
+// Results per page when a request sets no limit
+const SEARCH_PAGE_SIZE = 10;
+
+/**
+ * A chunk hit as returned by the API: location, snippet and every score behind
+ * its rank.
+ */
+export const describeMatch = (document: Document, hit: ChunkHit, terms: string[]) => {
+  const preview = previewHit(document, hit, terms, documentStore.analyzerFor(document));
+  return {
+    ...preview,
+    lexicalScore: hit.lexicalScore,
+    semanticScore: hit.semanticScore,
+    rerankScore: hit.rerankScore,
+    snippet: { ...preview.snippet, marked: markSnippet(preview.snippet) }
+  };
+};
+
+/**
+ * QA options from a request body: answer engine, passage count, reranking,
+ * candidate pool, expansion and answer verification.
+ */
+export const qaOptions = (
+  body: { engine?: QAEngine; passages?: unknown; rerank?: string; candidates?: unknown; expand?: boolean; verify?: boolean }
+): QAOptions => ({
+  engine: body.engine,
+  passages: typeof body.passages === 'number' ? body.passages : undefined,
+  rerank: body.rerank,
+  candidates: typeof body.candidates === 'number' ? body.candidates : undefined,
+  expand: Boolean(body.expand),
+  verify: body.verify !== false
+});
+
+/**
+ * Why a QA request body's reranker, engine or passage and candidate counts
+ * are invalid, if they are.
+ */
+export const qaOptionsError = (
+  body: { rerank?: string; engine?: string; passages?: unknown; candidates?: unknown }
+): string | undefined => {
+  for (const field of ['passages', 'candidates'] as const) {
+    const value = body[field];
+    if (value !== undefined && !(Number.isInteger(value) && (value as number) > 0)) {
+      return `${field} must be a positive integer`;
+    }
+  }
+  if (body.rerank !== undefined && !hybridRetriever.rerankerNames.includes(body.rerank)) {
+    return `Reranker must be one of: ${hybridRetriever.rerankerNames.join(', ')}`;
+  }
+  if (body.engine !== undefined && !QA_ENGINES.includes(body.engine as QAEngine)) {
+    return `Engine must be one of: ${QA_ENGINES.join(', ')}`;
+  }
+  return undefined;
+};
+
+/**
+ * A QA result as returned by the API, with each citation's snippet also as
+ * marked-up HTML and every retrieved passage listed under `sources`.
+ */
+export const describeAnswer = (result: QAResult | CorpusQAResult) => {
+  const terms = documentStore.queryTerms(SearchQuery.fromText(result.question));
+  const { passages, ...answer } = result;
+  return {
+    ...answer,
+    citations: answer.citations.map(citation => ({
+      ...citation,
+      snippet: { ...citation.snippet, marked: markSnippet(citation.snippet) }
+    })),
+    sources: passages.flatMap(hit => {
+      const document = documentStore.getDocument(hit.chunk.documentId);
+      return document
+        ? [{ documentId: document.id, filename: document.metadata.filename, ...describeMatch(document, hit, terms) }]
+        : [];
+    })
+  };
+};
+
+// Ranked search with the best-matching passages of each document
+searchRouter.post('/', async (req, res) => {
+  try {
+    const {
+      query, collections, where, tags, mode = 'keyword', rerank, candidates, expand, facets,
+      limit = SEARCH_PAGE_SIZE, cursor, sort, order
+    } = req.body || {};
+
+    if (!query) {
+      return res.status(400).json({ success: false, error: 'Search query is required' });
+    }
+    if (!SEARCH_MODES.includes(mode)) {
+      return res.status(400).json({ success: false, error: `Search mode must be one of: ${SEARCH_MODES.join(', ')}` });
+    }
+    if (rerank !== undefined && !hybridRetriever.rerankerNames.includes(rerank)) {
+      return res.status(400).json({ success: false, error: `Reranker must be one of: ${hybridRetriever.rerankerNames.join(', ')}` });
+    }
+    if (candidates !== undefined && !(Number.isInteger(candidates) && candidates > 0)) {
+      return res.status(400).json({ success: false, error: 'candidates must be a positive integer' });
+    }
+    const facetNames = parseList(facets) || [];
+    const unknownFacet = facetNames.find(name => !resolveFacet(name));
+    if (unknownFacet) {
+      return res.status(400).json({ success: false, error: `Unknown facet "${unknownFacet}" (use ${FACETS.join(', ')})` });
+    }
+    const page = pageRequest({ limit, cursor, sort, order }, 'relevance');
+
+    const parsed = SearchQuery.parse(String(query));
+    const queries = expand ? await queryExpander.expand(parsed.plainText, { collections: parseList(collections) }) : [];
+    const options = {
+      mode,
+      expansions: queries.map(expanded => expanded.text),
+      collections: parseList(collections),
+      where,
+      tags: parseList(tags),
+      rerank,
+      candidates: typeof candidates === 'number' ? candidates : undefined
+    };
+    const matched = await hybridRetriever.retrieveAllDocuments(parsed, options);
+    const results = paginate(matched, page, hit => hit.document);
+    // Facets count the whole matched set, not just the returned page
+    const facetCounts = facetNames.length > 0
+      ? computeFacets(matched.map(hit => hit.document), parseFacets(facetNames), { tagsOf: document => documentStore.tagsOf(document) })
+      : undefined;
+
+    const terms = documentStore.queryTerms(parsed);
+    res.json({
+      success: true,
+      data: {
+        query,
+        mode,
+        rerank: rerank ?? config.settings.reranker,
+        // Generated queries whose results were merged in
+        queries,
+        facets: facetCounts,
+        total: results.total,
+        nextCursor: results.nextCursor,
+        sort: results.sort,
+        order: results.order,
+        results: results.items.map(hit => ({
+          id: hit.document.id,
+          filename: hit.document.metadata.filename,
+          collection: hit.document.metadata.collection || DEFAULT_COLLECTION,
+          tags: hit.document.tags || [],
+          score: hit.score,
+          rerankScore: hit.rerankScore,
+          matches: hit.chunks.slice(0, 3).map(chunkHit => describeMatch(hit.document, chunkHit, terms))
+        }))
+      }
+    });
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      return res.status(400).json({ success: false, error: `Invalid query: ${error.message}`, position: error.position });
+    }
+    const status = error instanceof FilterParseError || error instanceof CursorError ? 400 : 500;
+    res.status(status).json({ success: false, error: (error as Error).message });
+  }
+});
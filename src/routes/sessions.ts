@@ -0,0 +1,110 @@
+import express from 'express';
+import { sessionStore, SessionReferenceError, SESSION_EXPORT_FORMATS, SessionExportFormat } from '../core/sessions';
+import { chatEngine } from '../analyzers/ChatEngine';
+import { describeAnswer, qaOptions, qaOptionsError } from './search';
+import { parseList } from './params';
+
+/**
+ * Chat session routes, mounted at `/api/sessions`.
+ */
+export const sessionRouter = express.Router();
+
+// Start a session over documents and collections (the whole store when neither is given)
+sessionRouter.post('/', (req, res) => {
+  try {
+    const { title } = req.body || {};
+    const documentIds = parseList(req.body?.documentIds);
+    const collections = parseList(req.body?.collections);
+
+    const session = sessionStore.createSession({ documentIds, collections }, typeof title === 'string' ? title : undefined);
+    res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    const status = error instanceof SessionReferenceError ? 404 : 400;
+    res.status(status).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List sessions, most recently active first
+sessionRouter.get('/', (req, res) => {
+  try {
+    res.json({ success: true, data: sessionStore.listSessions() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Get a session with its turns, e.g. to resume it
+sessionRouter.get('/:id', (req, res) => {
+  try {
+    const session = sessionStore.getSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+
+    res.json({ success: true, data: session });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Ask a question in the session; follow-ups are condensed using the earlier turns
+sessionRouter.post('/:id/messages', async (req, res) => {
+  try {
+    const { question } = req.body || {};
+    if (!question) {
+      return res.status(400).json({ success: false, error: 'Question is required' });
+    }
+    const optionsError = qaOptionsError(req.body);
+    if (optionsError) {
+      return res.status(400).json({ success: false, error: optionsError });
+    }
+
+    const reply = await chatEngine.ask(req.params.id, String(question), qaOptions(req.body));
+    res.json({
+      success: true,
+      data: {
+        sessionId: reply.session.id,
+        turn: reply.turn,
+        ...describeAnswer(reply.result)
+      }
+    });
+  } catch (error) {
+    const status = error instanceof SessionReferenceError ? 404 : 500;
+    res.status(status).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Download a session as JSON or a Markdown transcript
+sessionRouter.get('/:id/export', (req, res) => {
+  try {
+    const format = (req.query.format || 'json') as SessionExportFormat;
+    if (!SESSION_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ success: false, error: `Format must be one of: ${SESSION_EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const exported = sessionStore.exportSession(req.params.id, format);
+    if (exported === undefined) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+
+    const extension = format === 'markdown' ? 'md' : 'json';
+    res.type(format === 'markdown' ? 'text/markdown' : 'application/json');
+    res.attachment(`session-${req.params.id}.${extension}`);
+    res.send(exported);
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Delete a session and its history
+sessionRouter.delete('/:id', (req, res) => {
+  try {
+    if (!sessionStore.deleteSession(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+
+    res.json({ success: true, data: { id: req.params.id, deleted: true } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
@@ -0,0 +1,188 @@
+import express from 'express';
+import { documentStore } from '../core/types';
+import { sessionStore } from '../core/sessions';
+import { StreamOptions } from '../core/models';
+import { analysisPipeline, chatEngine, questionAnswerer, SummaryAnalyzer, SUMMARY_STYLES, AnalysisStep } from '../analyzers/index';
+import { MetadataFilter } from '../search/index';
+import { describeAnswer, qaOptions, qaOptionsError } from './search';
+import { parseList } from './params';
+
+/**
+ * Streaming routes, mounted at `/api/stream`. Each replies with Server-Sent
+ * Events: `token` events carry the model's output as it is produced and
+ * `progress` events the steps of an analysis, then a `result` event holds the
+ * same data as the matching JSON endpoint (or an `error` event the failure),
+ * and `done` ends the stream. Closing the connection cancels the request.
+ */
+export const streamRouter = express.Router();
+
+const summaryAnalyzer = new SummaryAnalyzer();
+
+interface EventStream {
+  send: (event: string, data: unknown) => void;
+  // Aborted when the client disconnects before the stream ends
+  signal: AbortSignal;
+}
+
+const openEventStream = (res: express.Response): EventStream => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+  return {
+    send: (event, data) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    signal: controller.signal
+  };
+};
+
+// Runs the request on an event stream, sending its result or error and then `done`
+const streamResponse = async (res: express.Response, run: (stream: EventStream) => Promise<unknown>) => {
+  const stream = openEventStream(res);
+  try {
+    stream.send('result', await run(stream));
+  } catch (error) {
+    if (stream.signal.aborted) {
+      return;
+    }
+    stream.send('error', { error: (error as Error).message });
+  }
+  stream.send('done', {});
+  res.end();
+};
+
+// Forwards model tokens as `token` events
+const tokenStream = (stream: EventStream): StreamOptions => ({
+  onToken: text => stream.send('token', { text }),
+  signal: stream.signal
+});
+
+// Answer a question from one document
+streamRouter.post('/qa/:documentId', async (req, res) => {
+  const { question } = req.body || {};
+  if (!question) {
+    return res.status(400).json({ success: false, error: 'Question is required' });
+  }
+  const optionsError = qaOptionsError(req.body);
+  if (optionsError) {
+    return res.status(400).json({ success: false, error: optionsError });
+  }
+  const document = documentStore.getDocument(req.params.documentId);
+  if (!document) {
+    return res.status(404).json({ success: false, error: 'Document not found' });
+  }
+
+  await streamResponse(res, async stream => {
+    const result = await questionAnswerer.answerQuestion(document, String(question), qaOptions(req.body), tokenStream(stream));
+    return describeAnswer(result);
+  });
+});
+
+// Answer a question across documents
+streamRouter.post('/qa', async (req, res) => {
+  const { question, where } = req.body || {};
+  if (!question) {
+    return res.status(400).json({ success: false, error: 'Question is required' });
+  }
+  const optionsError = qaOptionsError(req.body);
+  if (optionsError) {
+    return res.status(400).json({ success: false, error: optionsError });
+  }
+  const documentIds = parseList(req.body.documentIds);
+  const missing = documentIds?.find(id => !documentStore.getDocument(id));
+  if (missing) {
+    return res.status(404).json({ success: false, error: `Document not found: ${missing}` });
+  }
+  // Checked before the stream opens, while a 400 can still be sent
+  if (typeof where === 'string') {
+    try {
+      MetadataFilter.parse(where);
+    } catch (error) {
+      return res.status(400).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  await streamResponse(res, async stream => {
+    const result = await questionAnswerer.answerAcrossDocuments(String(question), {
+      ...qaOptions(req.body),
+      documentIds,
+      collections: parseList(req.body.collections),
+      where: typeof where === 'string' ? where : undefined,
+      tags: parseList(req.body.tags)
+    }, tokenStream(stream));
+    return describeAnswer(result);
+  });
+});
+
+// Ask a question in a chat session
+streamRouter.post('/sessions/:id/messages', async (req, res) => {
+  const { question } = req.body || {};
+  if (!question) {
+    return res.status(400).json({ success: false, error: 'Question is required' });
+  }
+  const optionsError = qaOptionsError(req.body);
+  if (optionsError) {
+    return res.status(400).json({ success: false, error: optionsError });
+  }
+  if (!sessionStore.getSession(req.params.id)) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+
+  await streamResponse(res, async stream => {
+    const reply = await chatEngine.ask(req.params.id, String(question), qaOptions(req.body), tokenStream(stream));
+    return { sessionId: reply.session.id, turn: reply.turn, ...describeAnswer(reply.result) };
+  });
+});
+
+// Summarize a document
+streamRouter.post('/summary/:documentId', async (req, res) => {
+  const { maxLength, style, focus } = req.body || {};
+  if (style !== undefined && !SUMMARY_STYLES.includes(style)) {
+    return res.status(400).json({ success: false, error: `Style must be one of: ${SUMMARY_STYLES.join(', ')}` });
+  }
+  if (maxLength !== undefined && !(Number.isInteger(maxLength) && maxLength > 0)) {
+    return res.status(400).json({ success: false, error: 'maxLength must be a positive integer' });
+  }
+  const document = documentStore.getDocument(req.params.documentId);
+  if (!document) {
+    return res.status(404).json({ success: false, error: 'Document not found' });
+  }
+
+  await streamResponse(res, stream => summaryAnalyzer.summarizeDocument(document, {
+    maxLength,
+    style,
+    focus: typeof focus === 'string' ? focus : undefined
+  }, tokenStream(stream)));
+});
+
+// Run the full analysis, reporting each step as it starts and completes
+streamRouter.post('/analyze/:documentId', async (req, res) => {
+  const document = documentStore.getDocument(req.params.documentId);
+  if (!document) {
+    return res.status(404).json({ success: false, error: 'Document not found' });
+  }
+
+  await streamResponse(res, stream => {
+    let step: AnalysisStep | undefined;
+    return analysisPipeline.analyze(document, {
+      onToken: text => stream.send('token', { text, step }),
+      onProgress: progress => {
+        step = progress.step;
+        stream.send('progress', progress);
+      },
+      signal: stream.signal
+    });
+  });
+});
@@ -0,0 +1,127 @@
+export interface ScoredKey {
+  key: string;
+  score: number;
+}
+
+/**
+ * In-memory inverted index scored with Okapi BM25. Entries are keyed by an
+ * opaque id (a document or chunk id) and can be added, replaced and removed
+ * one at a time, so the index follows the store without full rebuilds.
+ */
+export class BM25Index {
+  // term -> key -> term frequency
+  private postings: Map<string, Map<string, number>> = new Map();
+  // key -> term -> term frequency, kept so an entry can be removed without its text
+  private entries: Map<string, Map<string, number>> = new Map();
+  private lengths: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1 = 1.2,
+    private readonly b = 0.75
+  ) {}
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  public hasTerm(key: string, term: string): boolean {
+    return this.entries.get(key)?.has(term) ?? false;
+  }
+
+  // Every indexed term, for expanding wildcard and fuzzy query terms
+  public terms(): IterableIterator<string> {
+    return this.postings.keys();
+  }
+
+  /**
+   * Indexes the analyzed `tokens` under `key`, replacing whatever was indexed
+   * for it before.
+   */
+  public add(key: string, tokens: string[]): void {
+    this.remove(key);
+
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const [term, frequency] of frequencies) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(key, frequency);
+    }
+    this.entries.set(key, frequencies);
+    this.lengths.set(key, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  public remove(key: string): boolean {
+    const frequencies = this.entries.get(key);
+    if (!frequencies) {
+      return false;
+    }
+
+    for (const term of frequencies.keys()) {
+      const posting = this.postings.get(term)!;
+      posting.delete(key);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.totalLength -= this.lengths.get(key) || 0;
+    this.entries.delete(key);
+    this.lengths.delete(key);
+    return true;
+  }
+
+  public clear(): void {
+    this.postings.clear();
+    this.entries.clear();
+    this.lengths.clear();
+    this.totalLength = 0;
+  }
+
+  // How rare a term is across the entries; terms in no entry weigh the most
+  public idf(term: string): number {
+    const matching = this.postings.get(term)?.size || 0;
+    return Math.log(1 + (this.entries.size - matching + 0.5) / (matching + 0.5));
+  }
+
+  /**
+   * Keys containing at least one of the terms, highest BM25 score first.
+   * `accept` restricts the candidates (e.g. to a collection) before scoring.
+   */
+  public search(terms: string[], accept?: (key: string) => boolean): ScoredKey[] {
+    const count = this.entries.size;
+    if (count === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = this.idf(term);
+      for (const [key, frequency] of posting) {
+        if (accept && !accept(key)) continue;
+
+        const length = this.lengths.get(key) || 0;
+        const saturation = (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * (length / averageLength)));
+        scores.set(key, (scores.get(key) || 0) + idf * saturation);
+      }
+    }
+
+    return Array.from(scores, ([key, score]) => ({ key, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
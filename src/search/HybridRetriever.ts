@@ -0,0 +1,224 @@
+import { config } from '../core/config';
+import { DocumentStore, documentStore } from '../core/store';
+import { VectorStore, vectorStore } from '../core/vectors';
+import { ChunkHit, SearchHit, SearchOptions, SearchMode } from '../core/types';
+import { logger } from '../utils/logger';
+import { SearchQuery } from './QueryParser';
+import { Reranker, LexicalReranker, LlmReranker } from './Reranker';
+
+export interface RetrievalOptions extends SearchOptions {
+  // Minimum cosine similarity for semantic candidates; defaults to config
+  threshold?: number;
+  // Registered reranker to reorder candidates with; defaults to config, 'none' disables
+  rerank?: string;
+  // Candidates retrieved for the reranker; defaults to config
+  candidates?: number;
+  // Additional free-text queries (e.g. from QueryExpander) whose results are fused with the query's
+  expansions?: string[];
+}
+
+const NO_RERANKING = 'none';
+
+// Damping constant of reciprocal rank fusion; 60 is the value from the original paper
+const RRF_K = 60;
+// Each side contributes this many candidates per requested result before fusion
+const CANDIDATE_FACTOR = 4;
+const MIN_CANDIDATES = 20;
+const DEFAULT_LIMIT = 10;
+// Cap on the documents gathered when a whole result set is needed
+const MATCHED_SET_LIMIT = 10000;
+
+/**
+ * Chunk retrieval over the lexical (BM25) and vector indexes. `hybrid` runs
+ * both queries in parallel and merges them with reciprocal rank fusion, so a
+ * chunk ranked well by either side surfaces: exact identifiers through BM25,
+ * paraphrases through embeddings.
+ */
+export class HybridRetriever {
+  private readonly rerankers = new Map<string, Reranker>();
+
+  constructor(
+    private readonly store: DocumentStore,
+    private readonly vectors: VectorStore
+  ) {}
+
+  /**
+   * Makes a reranker selectable by name through `RetrievalOptions.rerank`.
+   */
+  public registerReranker(reranker: Reranker): void {
+    this.rerankers.set(reranker.name, reranker);
+  }
+
+  public get rerankerNames(): string[] {
+    return [NO_RERANKING, ...this.rerankers.keys()];
+  }
+
+  /**
+   * Throws `QueryParseError` for malformed query syntax. With a reranker the
+   * top `candidates` chunks are reordered and followed by any further hits in
+   * retrieval order, and `limit` is the final number kept.
+   */
+  public async retrieveChunks(query: string | SearchQuery, options: RetrievalOptions = {}): Promise<ChunkHit[]> {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const parsed = SearchQuery.from(query);
+    const reranker = this.reranker(options.rerank);
+    if (!reranker) {
+      return this.retrieveCandidates(parsed, { ...options, limit });
+    }
+
+    const poolSize = options.candidates ?? config.settings.rerankCandidates;
+    const hits = await this.retrieveCandidates(parsed, { ...options, limit: Math.max(limit, poolSize) });
+    const reranked = await reranker.rerank(parsed.plainText, hits.slice(0, poolSize));
+    return reranked.concat(hits.slice(poolSize)).slice(0, limit);
+  }
+
+  /**
+   * Documents ranked by their best chunk. Keyword mode keeps whole-document
+   * BM25 scoring, which also matches on filenames, unless results are reranked
+   * or expanded.
+   */
+  public async retrieveDocuments(query: string | SearchQuery, options: RetrievalOptions = {}): Promise<SearchHit[]> {
+    const mode: SearchMode = options.mode || 'keyword';
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const parsed = SearchQuery.from(query);
+    const reranked = !!this.reranker(options.rerank);
+    if (mode === 'keyword' && !reranked && !options.expansions?.length) {
+      return this.store.searchDocuments(parsed, { ...options, limit });
+    }
+
+    const chunks = await this.retrieveChunks(parsed, {
+      ...options,
+      limit: Math.max(MIN_CANDIDATES, limit * CANDIDATE_FACTOR),
+    });
+
+    const hits = new Map<string, SearchHit>();
+    for (const hit of chunks) {
+      const existing = hits.get(hit.chunk.documentId);
+      if (existing) {
+        existing.chunks.push(hit);
+        continue;
+      }
+
+      const document = this.store.getDocument(hit.chunk.documentId);
+      if (document) {
+        hits.set(document.id, { document, score: hit.score, rerankScore: hit.rerankScore, chunks: [hit] });
+      }
+    }
+
+    return Array.from(hits.values()).slice(0, limit);
+  }
+
+  /**
+   * Every document the query matches rather than the top `limit`, ranked as
+   * by `retrieveDocuments`, for paging, sorting and aggregations.
+   */
+  public async retrieveAllDocuments(query: string | SearchQuery, options: RetrievalOptions = {}): Promise<SearchHit[]> {
+    return this.retrieveDocuments(query, { ...options, limit: MATCHED_SET_LIMIT });
+  }
+
+  // The reranker named by the options or config; throws for unknown names
+  private reranker(name = config.settings.reranker): Reranker | undefined {
+    if (name === NO_RERANKING) {
+      return undefined;
+    }
+
+    const reranker = this.rerankers.get(name);
+    if (!reranker) {
+      throw new Error(`Unknown reranker "${name}" (use ${this.rerankerNames.join(', ')})`);
+    }
+    return reranker;
+  }
+
+  // The query's hits fused with those of its expansions
+  private async retrieveCandidates(parsed: SearchQuery, options: RetrievalOptions & { limit: number }): Promise<ChunkHit[]> {
+    const expansions = options.expansions || [];
+    if (expansions.length === 0) {
+      return this.retrieveQuery(parsed, options);
+    }
+
+    // Expansions are free text, so the original's required clauses and exclusions scope them
+    const scope = this.store.queryScope(parsed, options);
+    const expansionOptions = scope ? { ...options, documentIds: Array.from(scope) } : options;
+    const rankings = await Promise.all([
+      this.retrieveQuery(parsed, options),
+      ...expansions.map(text => this.retrieveQuery(SearchQuery.fromText(text), expansionOptions)),
+    ]);
+    return fuseRankings(rankings).slice(0, options.limit);
+  }
+
+  private async retrieveQuery(parsed: SearchQuery, options: RetrievalOptions & { limit: number }): Promise<ChunkHit[]> {
+    const mode: SearchMode = options.mode || 'keyword';
+    const limit = options.limit;
+
+    if (mode === 'keyword') {
+      return this.store.searchChunks(parsed, { ...options, limit });
+    }
+    if (mode === 'semantic') {
+      return (await this.searchVectors(parsed, { ...options, limit }))
+        .map(hit => ({ ...hit, semanticScore: hit.score }));
+    }
+
+    const poolSize = Math.max(MIN_CANDIDATES, limit * CANDIDATE_FACTOR);
+    const [lexical, semantic] = await Promise.all([
+      Promise.resolve(this.store.searchChunks(parsed, { ...options, limit: poolSize })),
+      this.searchVectors(parsed, { ...options, limit: poolSize }).catch(error => {
+        // Without embeddings hybrid search still answers from the lexical side
+        logger.warn(`Semantic search unavailable, using keyword results only: ${(error as Error).message}`);
+        return [] as ChunkHit[];
+      }),
+    ]);
+
+    return fuse(lexical, semantic).slice(0, limit);
+  }
+
+  // Embeds the query's free text and keeps hits that satisfy its required clauses and exclusions
+  private async searchVectors(query: SearchQuery, options: RetrievalOptions): Promise<ChunkHit[]> {
+    const text = query.plainText;
+    if (!text) {
+      return [];
+    }
+
+    const scope = this.store.queryScope(query, options);
+    return this.vectors.search(text, scope ? { ...options, documentIds: Array.from(scope) } : options);
+  }
+}
+
+// Reciprocal rank fusion: each list contributes 1 / (RRF_K + rank) per chunk
+const fuse = (lexical: ChunkHit[], semantic: ChunkHit[]): ChunkHit[] => {
+  const fused = new Map<string, ChunkHit>();
+  const contribute = (hits: ChunkHit[], side: 'lexicalScore' | 'semanticScore') => {
+    hits.forEach((hit, rank) => {
+      const entry = fused.get(hit.chunk.id) || { chunk: hit.chunk, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      entry[side] = hit.score;
+      fused.set(hit.chunk.id, entry);
+    });
+  };
+
+  contribute(lexical, 'lexicalScore');
+  contribute(semantic, 'semanticScore');
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+};
+
+// Reciprocal rank fusion of several queries' rankings, keeping each chunk's best component scores
+const fuseRankings = (rankings: ChunkHit[][]): ChunkHit[] => {
+  const fused = new Map<string, ChunkHit>();
+  rankings.forEach(hits => hits.forEach((hit, rank) => {
+    const entry = fused.get(hit.chunk.id) || { chunk: hit.chunk, score: 0 };
+    entry.score += 1 / (RRF_K + rank + 1);
+    entry.lexicalScore = maxScore(entry.lexicalScore, hit.lexicalScore);
+    entry.semanticScore = maxScore(entry.semanticScore, hit.semanticScore);
+    fused.set(hit.chunk.id, entry);
+  }));
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+};
+
+const maxScore = (a?: number, b?: number): number | undefined =>
+  a === undefined ? b : b === undefined ? a : Math.max(a, b);
+
+export const hybridRetriever = new HybridRetriever(documentStore, vectorStore);
+
+const lexicalReranker = new LexicalReranker(documentStore);
+hybridRetriever.registerReranker(lexicalReranker);
+hybridRetriever.registerReranker(new LlmReranker('listwise', lexicalReranker));
+hybridRetriever.registerReranker(new LlmReranker('pointwise', lexicalReranker));
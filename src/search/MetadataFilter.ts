@@ -0,0 +1,354 @@
+import { Document } from '../core/types';
+
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type FilterValue = string | number | boolean | null;
+
+export type FilterNode =
+  | { type: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'compare'; path: string[]; operator: ComparisonOperator; value: FilterValue }
+  | { type: 'in'; path: string[]; values: FilterValue[] }
+  | { type: 'exists'; path: string[] };
+
+export class FilterParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'FilterParseError';
+  }
+}
+
+type Token =
+  | { kind: 'word'; value: string; quoted: boolean; position: number }
+  | { kind: 'op'; value: ComparisonOperator; position: number }
+  | { kind: 'punct'; value: '(' | ')' | ','; position: number }
+  | { kind: 'end'; position: number };
+
+const KEYWORDS = ['and', 'or', 'not', 'in', 'exists'];
+const DOCUMENT_FIELDS = ['id', 'content', 'tags', 'notes'];
+const DATE_PATTERN = /^\d{4}-\d{2}(-\d{2})?([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Boolean filter over `Document.metadata`, e.g.
+ * `fileType = .pdf and size > 100000 and pdfInfo.author exists`.
+ *
+ * Supports `=`, `!=`, `>`, `>=`, `<`, `<=`, `in (a, b)`, `exists`, `and`, `or`,
+ * `not` and parentheses. Paths are dotted (`pdfInfo.author`); dates compare
+ * chronologically and string equality is case-insensitive.
+ */
+export class MetadataFilter {
+  private constructor(
+    public readonly expression: string,
+    public readonly ast: FilterNode
+  ) {}
+
+  public static parse(expression: string): MetadataFilter {
+    const parser = new Parser(tokenize(expression));
+    return new MetadataFilter(expression, parser.parse());
+  }
+
+  public static from(filter: string | MetadataFilter): MetadataFilter {
+    return typeof filter === 'string' ? MetadataFilter.parse(filter) : filter;
+  }
+
+  public matches(document: Document): boolean {
+    return evaluate(this.ast, document);
+  }
+}
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: 'punct', value: char, position: i });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) {
+        throw new FilterParseError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ kind: 'word', value, quoted: true, position: start });
+    } else if ('=!<>'.includes(char)) {
+      const start = i;
+      const two = input.slice(i, i + 2);
+      let op: string;
+      if (two === '==' || two === '!=' || two === '>=' || two === '<=') {
+        op = two === '==' ? '=' : two;
+        i += 2;
+      } else if (char === '!') {
+        throw new FilterParseError("Expected '!='", start);
+      } else {
+        op = char;
+        i++;
+      }
+      tokens.push({ kind: 'op', value: op as ComparisonOperator, position: start });
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s(),=!<>"']/.test(input[i])) i++;
+      tokens.push({ kind: 'word', value: input.slice(start, i), quoted: false, position: start });
+    }
+  }
+
+  tokens.push({ kind: 'end', position: input.length });
+  return tokens;
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  public parse(): FilterNode {
+    if (this.peek().kind === 'end') {
+      throw new FilterParseError('Empty filter expression', 0);
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new FilterParseError(`Unexpected ${describe(next)}`, next.position);
+    }
+    return node;
+  }
+
+  private parseOr(): FilterNode {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('or')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseNot();
+    while (this.acceptKeyword('and')) {
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FilterNode {
+    if (this.acceptKeyword('not')) {
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.peek();
+
+    if (isPunct(token, '(')) {
+      this.index++;
+      const node = this.parseOr();
+      this.expectPunct(')');
+      return node;
+    }
+
+    if (token.kind !== 'word' || token.quoted || isKeyword(token.value)) {
+      throw new FilterParseError(`Expected a field name but found ${describe(token)}`, token.position);
+    }
+    this.index++;
+    const path = parsePath(token.value, token.position);
+
+    if (this.acceptKeyword('exists')) {
+      return { type: 'exists', path };
+    }
+    if (this.acceptKeyword('in')) {
+      return { type: 'in', path, values: this.parseList() };
+    }
+    if (this.acceptKeyword('not')) {
+      if (this.acceptKeyword('exists')) {
+        return { type: 'not', operand: { type: 'exists', path } };
+      }
+      if (this.acceptKeyword('in')) {
+        return { type: 'not', operand: { type: 'in', path, values: this.parseList() } };
+      }
+      const next = this.peek();
+      throw new FilterParseError(`Expected 'exists' or 'in' after 'not' but found ${describe(next)}`, next.position);
+    }
+
+    const operator = this.peek();
+    if (operator.kind !== 'op') {
+      throw new FilterParseError(`Expected an operator after '${token.value}' but found ${describe(operator)}`, operator.position);
+    }
+    this.index++;
+    return { type: 'compare', path, operator: operator.value, value: this.parseValue() };
+  }
+
+  private parseList(): FilterValue[] {
+    this.expectPunct('(');
+    const values = [this.parseValue()];
+    while (isPunct(this.peek(), ',')) {
+      this.index++;
+      values.push(this.parseValue());
+    }
+    this.expectPunct(')');
+    return values;
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.peek();
+    if (token.kind !== 'word') {
+      throw new FilterParseError(`Expected a value but found ${describe(token)}`, token.position);
+    }
+    this.index++;
+
+    if (token.quoted) return token.value;
+    if (/^-?\d+(\.\d+)?$/.test(token.value)) return parseFloat(token.value);
+    if (token.value === 'true' || token.value === 'false') return token.value === 'true';
+    if (token.value === 'null') return null;
+    return token.value;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'word' && !token.quoted && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: '(' | ')' | ','): void {
+    const token = this.peek();
+    if (!isPunct(token, value)) {
+      throw new FilterParseError(`Expected '${value}' but found ${describe(token)}`, token.position);
+    }
+    this.index++;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+}
+
+const isPunct = (token: Token, value: '(' | ')' | ','): boolean =>
+  token.kind === 'punct' && token.value === value;
+
+const isKeyword = (value: string): boolean => KEYWORDS.includes(value.toLowerCase());
+
+const describe = (token: Token): string => {
+  if (token.kind === 'end') return 'end of expression';
+  return `'${token.value}'`;
+};
+
+const parsePath = (value: string, position: number): string[] => {
+  const path = value.replace(/^metadata\./, '').split('.');
+  if (path.some(segment => segment.length === 0)) {
+    throw new FilterParseError(`Invalid field name '${value}'`, position);
+  }
+  return path;
+};
+
+/**
+ * Value of a dotted field path on a document, shared with field-scoped search terms.
+ */
+export const resolvePath = (document: Document, path: string[]): unknown => {
+  // `id`, `content`, `tags` and `notes` live on the document itself, everything else on its metadata
+  let current: any = path.length === 1 && DOCUMENT_FIELDS.includes(path[0])
+    ? document
+    : document.metadata;
+
+  for (const segment of path) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+};
+
+const evaluate = (node: FilterNode, document: Document): boolean => {
+  switch (node.type) {
+    case 'and':
+      return evaluate(node.left, document) && evaluate(node.right, document);
+    case 'or':
+      return evaluate(node.left, document) || evaluate(node.right, document);
+    case 'not':
+      return !evaluate(node.operand, document);
+    case 'exists': {
+      const value = resolvePath(document, node.path);
+      return value !== undefined && value !== null && value !== '';
+    }
+    case 'in': {
+      const value = resolvePath(document, node.path);
+      return node.values.some(candidate => compareAny(value, '=', candidate));
+    }
+    case 'compare':
+      return compareAny(resolvePath(document, node.path), node.operator, node.value);
+  }
+};
+
+// Array fields (e.g. tags) match when any element satisfies the comparison
+const compareAny = (actual: unknown, operator: ComparisonOperator, expected: FilterValue): boolean => {
+  if (Array.isArray(actual)) {
+    return operator === '!='
+      ? actual.every(item => compare(item, operator, expected))
+      : actual.some(item => compare(item, operator, expected));
+  }
+  return compare(actual, operator, expected);
+};
+
+const compare = (actual: unknown, operator: ComparisonOperator, expected: FilterValue): boolean => {
+  if (actual === undefined || actual === null || expected === null) {
+    const equal = (actual ?? null) === expected;
+    return operator === '=' ? equal : operator === '!=' ? !equal : false;
+  }
+
+  const ordering = order(actual, expected);
+  if (ordering === undefined) {
+    return operator === '!=';
+  }
+
+  switch (operator) {
+    case '=': return ordering === 0;
+    case '!=': return ordering !== 0;
+    case '>': return ordering > 0;
+    case '>=': return ordering >= 0;
+    case '<': return ordering < 0;
+    case '<=': return ordering <= 0;
+  }
+};
+
+// Returns the sign of actual - expected, or undefined when the two cannot be compared
+const order = (actual: unknown, expected: Exclude<FilterValue, null>): number | undefined => {
+  const actualTime = toTime(actual);
+  const expectedTime = toTime(expected);
+  if (actualTime !== undefined && expectedTime !== undefined) {
+    return Math.sign(actualTime - expectedTime);
+  }
+
+  if (typeof actual === 'number' || typeof expected === 'number') {
+    const a = Number(actual);
+    const b = Number(expected);
+    return isNaN(a) || isNaN(b) ? undefined : Math.sign(a - b);
+  }
+
+  if (typeof actual === 'boolean' || typeof expected === 'boolean') {
+    return String(actual) === String(expected) ? 0 : undefined;
+  }
+
+  const a = String(actual).toLowerCase();
+  const b = String(expected).toLowerCase();
+  return a === b ? 0 : a < b ? -1 : 1;
+};
+
+const toTime = (value: unknown): number | undefined => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && DATE_PATTERN.test(value)) {
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time;
+  }
+  return undefined;
+};
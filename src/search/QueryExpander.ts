@@ -0,0 +1,133 @@
+import { ModelManager } from '../core/models';
+import { DocumentStore, documentStore } from '../core/store';
+import { logger } from '../utils/logger';
+
+export type ExpansionSource = 'glossary' | 'paraphrase' | 'subquery';
+
+/**
+ * A query generated from the user's query, run alongside it.
+ */
+export interface ExpandedQuery {
+  text: string;
+  source: ExpansionSource;
+}
+
+export interface ExpansionOptions {
+  // Collections whose glossaries apply; all when omitted
+  collections?: string[];
+  // Ask the LLM for paraphrases and sub-queries; otherwise only offline rewrites are made
+  useLLM?: boolean;
+}
+
+// Upper bound on generated queries, since each costs a retrieval
+const MAX_EXPANSIONS = 6;
+const MAX_PARAPHRASES = 3;
+
+/**
+ * Rewrites a query into additional queries that retrieve what the original
+ * phrasing misses: glossary expansions of acronyms (and acronyms of spelled-out
+ * terms), paraphrases, and one sub-query per part of a multi-part question.
+ */
+export class QueryExpander {
+  constructor(private readonly store: DocumentStore) {}
+
+  public async expand(query: string, options: ExpansionOptions = {}): Promise<ExpandedQuery[]> {
+    const text = query.trim();
+    if (!text) {
+      return [];
+    }
+
+    const expansions: ExpandedQuery[] = [];
+    const glossary = this.applyGlossary(text, this.store.glossaryFor(options.collections));
+    if (glossary) {
+      expansions.push({ text: glossary, source: 'glossary' });
+    }
+
+    let rewrites: ExpandedQuery[] | undefined;
+    if (options.useLLM ?? true) {
+      rewrites = await this.rewrite(text).catch(error => {
+        logger.warn(`LLM query rewriting failed, using offline expansion only: ${(error as Error).message}`);
+        return undefined;
+      });
+    }
+    expansions.push(...(rewrites ?? splitQuestion(text).map(part => ({ text: part, source: 'subquery' as const }))));
+
+    // Drop repeats of the original and of each other
+    const seen = new Set([normalize(text)]);
+    return expansions
+      .filter(expansion => {
+        const key = normalize(expansion.text);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_EXPANSIONS);
+  }
+
+  // Swaps acronyms for their expansions and spelled-out terms for their acronyms
+  private applyGlossary(text: string, glossary: Record<string, string>): string | undefined {
+    let rewritten = text;
+    for (const [term, expansion] of Object.entries(glossary)) {
+      const termPattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+      const expansionPattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(expansion)}(?![\\p{L}\\p{N}])`, 'giu');
+      if (expansionPattern.test(rewritten)) {
+        rewritten = rewritten.replace(expansionPattern, term);
+      } else {
+        rewritten = rewritten.replace(termPattern, expansion);
+      }
+    }
+    return rewritten !== text ? rewritten : undefined;
+  }
+
+  private async rewrite(text: string): Promise<ExpandedQuery[]> {
+    const prompt = `
+Rewrite the following search query to improve document retrieval.
+
+1. Paraphrases: up to ${MAX_PARAPHRASES} alternative phrasings using different words for the same need
+2. Sub-queries: if the query asks several things, one self-contained query per part; otherwise none
+
+Format your response as JSON:
+{
+  "paraphrases": ["paraphrase1", ...],
+  "subqueries": ["subquery1", ...]
+}
+
+Query: ${text}`;
+
+    const response = await ModelManager.getInstance().getLLM().invoke(prompt);
+    const jsonMatch = response.content.toString().match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('reply contained no rewrites');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    const strings = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+    return [
+      ...strings(parsed.paraphrases).slice(0, MAX_PARAPHRASES).map(item => ({ text: item, source: 'paraphrase' as const })),
+      ...strings(parsed.subqueries).map(item => ({ text: item, source: 'subquery' as const })),
+    ];
+  }
+}
+
+// Question words that start a new part after "and"
+const PART_START = /,?\s+and\s+(?=(?:what|when|where|who|whom|which|why|how|is|are|does|do|can)\b)/i;
+
+/**
+ * The parts of a multi-part question, split at sentence ends, semicolons and
+ * "and" followed by a new question word. A single-part question yields none.
+ */
+export const splitQuestion = (text: string): string[] => {
+  const parts = text
+    .split(/(?<=[?!.])\s+|;\s*/)
+    .flatMap(part => part.split(PART_START))
+    .map(part => part.trim())
+    .filter(part => /[\p{L}\p{N}]/u.test(part));
+  return parts.length > 1 ? parts : [];
+};
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const queryExpander = new QueryExpander(documentStore);
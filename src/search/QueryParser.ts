@@ -0,0 +1,588 @@
+import { Document } from '../core/types';
+import { tokenize, normalizeText, foldAccents, TextAnalyzer } from './TextAnalyzer';
+import { resolvePath } from './MetadataFilter';
+
+export type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  // Adjacent clauses without an operator between them
+  | { type: 'clauses'; required: QueryNode[]; optional: QueryNode[]; excluded: QueryNode[] }
+  | { type: 'term'; field?: string[]; value: string; wildcard: boolean; fuzzy?: number }
+  | { type: 'phrase'; field?: string[]; terms: string[] };
+
+type TermNode = Extract<QueryNode, { type: 'term' }>;
+
+export class QueryParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'QueryParseError';
+  }
+}
+
+/**
+ * What a query is matched against: the searchable text of a document or
+ * chunk, the analyzer that indexed it, and the document whose fields scoped
+ * terms look at.
+ */
+export interface QueryTarget {
+  document: Document;
+  analyzer: TextAnalyzer;
+  hasTerm(term: string): boolean;
+  // Index terms of the searchable text in order, for phrase matching
+  tokens(): string[];
+}
+
+/**
+ * A query bound to an index: words are analyzed like the indexed text, and
+ * wildcard and fuzzy terms are expanded to the indexed terms they match.
+ */
+export interface QueryMatcher {
+  // Index terms that rank results, i.e. content words outside negations, under every analyzer in use
+  terms: string[];
+  // `lenient` ignores optional words, keeping only the query's hard constraints
+  matches(target: QueryTarget, lenient?: boolean): boolean;
+}
+
+type Token =
+  | { kind: 'word'; value: string; position: number }
+  | { kind: 'phrase'; value: string; position: number }
+  | { kind: 'field'; value: string; position: number }
+  | { kind: 'keyword'; value: 'AND' | 'OR' | 'NOT'; position: number }
+  | { kind: 'prefix'; value: '+' | '-'; position: number }
+  | { kind: 'punct'; value: '(' | ')'; position: number }
+  | { kind: 'end'; position: number };
+
+// Shorthands for metadata fields analysts search most
+const FIELD_ALIASES: Record<string, string[]> = {
+  author: ['pdfInfo', 'author'],
+  title: ['pdfInfo', 'title'],
+  type: ['fileType'],
+  tag: ['tags'],
+};
+
+const MAX_EDIT_DISTANCE = 2;
+
+/**
+ * Search query syntax, e.g.
+ * `"machine learning" AND (ethics OR privacy) -finance filename:*.pdf author:smith~`.
+ *
+ * - Bare words are optional: they rank results, and at least one has to
+ *   match when nothing else in the query is required
+ * - `"quoted phrases"`, `field:value` terms, groups and `AND`/`OR`
+ *   expressions are required; `+word` makes a bare word required
+ * - `-word` and `NOT word` exclude matches
+ * - `*` and `?` are wildcards (`learn*`); `word~` matches within an edit
+ *   distance (1 for short words, 2 otherwise) and `word~1` sets it
+ * - `field:` scopes a term, phrase or group to `filename` or a dotted
+ *   metadata path; `author`, `title`, `type` and `tag` are shorthands
+ */
+export class SearchQuery {
+  private constructor(
+    public readonly text: string,
+    public readonly ast: QueryNode | null
+  ) {}
+
+  public static parse(text: string): SearchQuery {
+    const parser = new Parser(lex(text));
+    return new SearchQuery(text, parser.parse());
+  }
+
+  /**
+   * Free text (e.g. a question) as a query of optional words, without
+   * interpreting quotes, operators or fields.
+   */
+  public static fromText(text: string): SearchQuery {
+    const optional: QueryNode[] = Array.from(new Set(tokenize(text)))
+      .map(value => ({ type: 'term', value, wildcard: false }));
+    return new SearchQuery(text, optional.length > 0 ? { type: 'clauses', required: [], optional, excluded: [] } : null);
+  }
+
+  public static from(query: string | SearchQuery): SearchQuery {
+    return typeof query === 'string' ? SearchQuery.parse(query) : query;
+  }
+
+  public get isEmpty(): boolean {
+    return this.ast === null;
+  }
+
+  /**
+   * Whether the query constrains results beyond its optional words, so a
+   * lenient match can exclude anything.
+   */
+  public get isRestrictive(): boolean {
+    return this.ast !== null && restricts(this.ast);
+  }
+
+  /**
+   * The positive content words and phrases as plain text, for embedding.
+   */
+  public get plainText(): string {
+    const parts: string[] = [];
+    if (this.ast) collectPlainText(this.ast, parts);
+    return parts.join(' ');
+  }
+
+  /**
+   * Binds the query to an index built with the given analyzers; a word
+   * contributes its term under each of them.
+   */
+  public bind(vocabulary: Iterable<string>, analyzers: TextAnalyzer[]): QueryMatcher {
+    const expansions = new Map<TermNode, string[]>();
+    const terms = new Set<string>();
+    // Only wildcard and fuzzy terms need the vocabulary, so it is listed on first use
+    let words: string[] | undefined;
+    const listVocabulary = () => (words ??= Array.from(vocabulary));
+    if (this.ast) {
+      expandTerms(this.ast, { vocabulary: listVocabulary, analyzers, expansions, terms }, false);
+    }
+
+    const ast = this.ast;
+    return {
+      terms: Array.from(terms),
+      matches: (target, lenient = false) => ast === null || evaluate(ast, target, expansions, lenient),
+    };
+  }
+}
+
+const lex = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: 'punct', value: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const start = i;
+      const end = input.indexOf('"', i + 1);
+      if (end < 0) {
+        throw new QueryParseError('Unterminated phrase', start);
+      }
+      tokens.push({ kind: 'phrase', value: input.slice(i + 1, end), position: start });
+      i = end + 1;
+    } else if ((char === '-' || char === '+') && i + 1 < input.length && /[^\s)]/.test(input[i + 1])) {
+      tokens.push({ kind: 'prefix', value: char, position: i });
+      i++;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+      const value = input.slice(start, i);
+
+      // A trailing colon ("budget: ...") is punctuation, not a field
+      const field = /^([A-Za-z_][\w.]*):(?=[^\s)])/.exec(input.slice(start));
+      if (field) {
+        tokens.push({ kind: 'field', value: field[1], position: start });
+        i = start + field[0].length;
+      } else if (value === 'AND' || value === 'OR' || value === 'NOT') {
+        tokens.push({ kind: 'keyword', value, position: start });
+      } else {
+        tokens.push({ kind: 'word', value, position: start });
+      }
+    }
+  }
+
+  tokens.push({ kind: 'end', position: input.length });
+  return tokens;
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  public parse(): QueryNode | null {
+    const node = this.parseClauses();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new QueryParseError(`Unexpected ${describe(next)}`, next.position);
+    }
+    return node;
+  }
+
+  // A run of clauses up to a closing parenthesis or the end of the query
+  private parseClauses(field?: string[]): QueryNode | null {
+    const required: QueryNode[] = [];
+    const optional: QueryNode[] = [];
+    const excluded: QueryNode[] = [];
+
+    while (this.peek().kind !== 'end' && !isPunct(this.peek(), ')')) {
+      const token = this.peek();
+      if (token.kind === 'keyword' && token.value !== 'NOT') {
+        throw new QueryParseError(`'${token.value}' needs a term on both sides`, token.position);
+      }
+
+      const prefix = token.kind === 'prefix' ? token.value : undefined;
+      const bare = token.kind === 'word' && this.isLastOperand(1);
+      const node = this.parseOr(field);
+      if (!node) continue;
+
+      if (node.type === 'not' && (prefix === '-' || token.kind === 'keyword')) {
+        excluded.push(node.operand);
+      } else if (bare && !prefix && !field) {
+        optional.push(node);
+      } else {
+        required.push(node);
+      }
+    }
+
+    if (required.length + optional.length + excluded.length === 0) {
+      return null;
+    }
+    if (required.length === 1 && optional.length === 0 && excluded.length === 0) {
+      return required[0];
+    }
+    return { type: 'clauses', required, optional, excluded };
+  }
+
+  private parseOr(field?: string[]): QueryNode | null {
+    let left = this.parseAnd(field);
+    while (this.acceptKeyword('OR')) {
+      left = combine('or', left, this.parseAnd(field));
+    }
+    return left;
+  }
+
+  private parseAnd(field?: string[]): QueryNode | null {
+    let left = this.parseUnary(field);
+    while (this.acceptKeyword('AND')) {
+      left = combine('and', left, this.parseUnary(field));
+    }
+    return left;
+  }
+
+  private parseUnary(field?: string[]): QueryNode | null {
+    const token = this.peek();
+    if (token.kind === 'prefix' || (token.kind === 'keyword' && token.value === 'NOT')) {
+      this.index++;
+      const operand = this.parseUnary(field);
+      if (token.value === '+' || !operand) {
+        return operand;
+      }
+      return { type: 'not', operand };
+    }
+    return this.parsePrimary(field);
+  }
+
+  private parsePrimary(field?: string[]): QueryNode | null {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'punct': {
+        if (token.value === ')') {
+          throw new QueryParseError("Unexpected ')'", token.position);
+        }
+        this.index++;
+        const node = this.parseClauses(field);
+        const close = this.peek();
+        if (!isPunct(close, ')')) {
+          throw new QueryParseError(`Expected ')' but found ${describe(close)}`, close.position);
+        }
+        this.index++;
+        return node;
+      }
+      case 'field': {
+        if (field) {
+          throw new QueryParseError(`Field '${token.value}' cannot be nested inside another field`, token.position);
+        }
+        this.index++;
+        const path = fieldPath(token.value, token.position);
+        const value = this.peek();
+        if (value.kind !== 'word' && value.kind !== 'phrase' && !isPunct(value, '(')) {
+          throw new QueryParseError(`Expected a value for '${token.value}:' but found ${describe(value)}`, value.position);
+        }
+        return this.parsePrimary(path);
+      }
+      case 'phrase': {
+        this.index++;
+        const terms = tokenize(field ? foldAccents(token.value) : token.value);
+        if (terms.length === 0) return null;
+        return terms.length === 1 && !field
+          ? { type: 'term', value: terms[0], wildcard: false }
+          : { type: 'phrase', field, terms };
+      }
+      case 'word':
+        this.index++;
+        return parseWord(token.value, token.position, field);
+      default:
+        throw new QueryParseError(`Expected a term but found ${describe(token)}`, token.position);
+    }
+  }
+
+  // Whether the token `offset` ahead ends the current operand rather than joining an AND/OR
+  private isLastOperand(offset: number): boolean {
+    const next = this.tokens[this.index + offset];
+    return !(next.kind === 'keyword' && next.value !== 'NOT');
+  }
+
+  private acceptKeyword(keyword: 'AND' | 'OR'): boolean {
+    const token = this.peek();
+    if (token.kind === 'keyword' && token.value === keyword) {
+      this.index++;
+      const next = this.peek();
+      if (next.kind === 'end' || isPunct(next, ')') || (next.kind === 'keyword' && next.value !== 'NOT')) {
+        throw new QueryParseError(`Expected a term after '${keyword}' but found ${describe(next)}`, next.position);
+      }
+      return true;
+    }
+    return false;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+}
+
+const parseWord = (value: string, position: number, field?: string[]): QueryNode | null => {
+  let word = value;
+  let fuzzy: number | undefined;
+
+  const tilde = /~(\d*)$/.exec(word);
+  if (tilde) {
+    word = word.slice(0, tilde.index);
+    if (tilde[1]) {
+      fuzzy = parseInt(tilde[1], 10);
+      if (fuzzy > MAX_EDIT_DISTANCE) {
+        throw new QueryParseError(`Fuzzy edit distance must be at most ${MAX_EDIT_DISTANCE}`, position + tilde.index);
+      }
+    } else {
+      fuzzy = word.length <= 2 ? 0 : word.length <= 5 ? 1 : 2;
+    }
+  }
+
+  const wildcard = /[*?]/.test(word);
+  if (wildcard && fuzzy !== undefined) {
+    throw new QueryParseError(`'${value}' cannot be both a wildcard and a fuzzy term`, position);
+  }
+
+  // Field values keep their punctuation (`*.pdf`); content words are tokenized like the index
+  if (field || wildcard) {
+    const pattern = foldAccents(normalizeText(word));
+    if (/^[*?]*$/.test(pattern) && !field) {
+      throw new QueryParseError(`Wildcard '${value}' matches everything`, position);
+    }
+    return pattern ? { type: 'term', field, value: pattern, wildcard, fuzzy } : null;
+  }
+
+  const terms = tokenize(word);
+  if (terms.length === 0) return null;
+  return terms.length === 1
+    ? { type: 'term', value: terms[0], wildcard: false, fuzzy }
+    : { type: 'phrase', terms };
+};
+
+// Operands that tokenize to nothing (e.g. a lone `&`) drop out of AND/OR
+const combine = (type: 'and' | 'or', left: QueryNode | null, right: QueryNode | null): QueryNode | null =>
+  left && right ? { type, left, right } : left || right;
+
+const fieldPath = (name: string, position: number): string[] => {
+  const alias = FIELD_ALIASES[name.toLowerCase()];
+  if (alias) return alias;
+
+  const path = name.replace(/^metadata\./, '').split('.');
+  if (path.some(segment => segment.length === 0)) {
+    throw new QueryParseError(`Invalid field name '${name}'`, position);
+  }
+  return path;
+};
+
+const isPunct = (token: Token, value: '(' | ')'): boolean =>
+  token.kind === 'punct' && token.value === value;
+
+const describe = (token: Token): string => {
+  switch (token.kind) {
+    case 'end': return 'end of query';
+    case 'phrase': return `"${token.value}"`;
+    case 'field': return `'${token.value}:'`;
+    default: return `'${token.value}'`;
+  }
+};
+
+const restricts = (node: QueryNode): boolean =>
+  node.type !== 'clauses' || node.required.length > 0 || node.excluded.length > 0;
+
+const collectPlainText = (node: QueryNode, parts: string[]): void => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      collectPlainText(node.left, parts);
+      collectPlainText(node.right, parts);
+      return;
+    case 'clauses':
+      [...node.required, ...node.optional].forEach(child => collectPlainText(child, parts));
+      return;
+    case 'term':
+      if (!node.field && !node.wildcard) parts.push(node.value);
+      return;
+    case 'phrase':
+      if (!node.field) parts.push(...node.terms);
+      return;
+    case 'not':
+      return;
+  }
+};
+
+interface Expansion {
+  vocabulary: () => string[];
+  analyzers: TextAnalyzer[];
+  // Index terms each content term matches; empty for stopwords
+  expansions: Map<TermNode, string[]>;
+  terms: Set<string>;
+}
+
+const expandTerms = (node: QueryNode, context: Expansion, negated: boolean): void => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      expandTerms(node.left, context, negated);
+      expandTerms(node.right, context, negated);
+      return;
+    case 'not':
+      expandTerms(node.operand, context, !negated);
+      return;
+    case 'clauses':
+      [...node.required, ...node.optional].forEach(child => expandTerms(child, context, negated));
+      node.excluded.forEach(child => expandTerms(child, context, !negated));
+      return;
+    case 'phrase':
+      if (!node.field && !negated) {
+        context.analyzers.forEach(analyzer => analyzer.analyze(node.terms.join(' ')).forEach(term => context.terms.add(term)));
+      }
+      return;
+    case 'term': {
+      if (node.field) return;
+      const forms = unique(context.analyzers.map(analyzer => analyzer.term(node.value)));
+      let matches: string[];
+      if (node.wildcard) {
+        matches = context.vocabulary().filter(termMatcher(node));
+      } else if (node.fuzzy) {
+        const matchers = forms.map(value => termMatcher({ ...node, value }));
+        matches = context.vocabulary().filter(term => matchers.some(matcher => matcher(term)));
+      } else {
+        matches = forms;
+      }
+      context.expansions.set(node, matches);
+      if (!negated) matches.forEach(term => context.terms.add(term));
+      return;
+    }
+  }
+};
+
+const unique = (values: Array<string | null>): string[] =>
+  Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+
+// Content words that are stopwords for the target's analyzer neither match nor constrain it
+const isVoid = (node: QueryNode, target: QueryTarget): boolean => {
+  if (node.type === 'term') {
+    return !node.field && !node.wildcard && !node.fuzzy && target.analyzer.term(node.value) === null;
+  }
+  return node.type === 'phrase' && !node.field && target.analyzer.analyze(node.terms.join(' ')).length === 0;
+};
+
+const evaluate = (
+  node: QueryNode,
+  target: QueryTarget,
+  expansions: Map<TermNode, string[]>,
+  lenient: boolean
+): boolean => {
+  switch (node.type) {
+    case 'and':
+      return evaluate(node.left, target, expansions, lenient) && evaluate(node.right, target, expansions, lenient);
+    case 'or':
+      return evaluate(node.left, target, expansions, lenient) || evaluate(node.right, target, expansions, lenient);
+    case 'not':
+      // Under a negation, optional words must be checked for real
+      return !evaluate(node.operand, target, expansions, false);
+    case 'clauses': {
+      const meaningful = (children: QueryNode[]) => children.filter(child => !isVoid(child, target));
+      const required = meaningful(node.required);
+      const optional = meaningful(node.optional);
+      const excluded = meaningful(node.excluded);
+      // Words that are all stopwords here leave nothing to match on
+      if (!lenient && required.length + optional.length + excluded.length === 0) {
+        return false;
+      }
+      return required.every(child => evaluate(child, target, expansions, lenient)) &&
+        !excluded.some(child => evaluate(child, target, expansions, false)) &&
+        (lenient || required.length > 0 || optional.length === 0 ||
+          optional.some(child => evaluate(child, target, expansions, lenient)));
+    }
+    case 'term': {
+      if (node.field) {
+        return fieldValues(target.document, node.field).some(value => matchesValue(node, value));
+      }
+      if (node.wildcard || node.fuzzy) {
+        return (expansions.get(node) || []).some(term => target.hasTerm(term));
+      }
+      // A stopword in this document's language is no constraint
+      const term = target.analyzer.term(node.value);
+      return term === null || target.hasTerm(term);
+    }
+    case 'phrase': {
+      if (node.field) {
+        return fieldValues(target.document, node.field).some(value => containsPhrase(tokenize(value), node.terms));
+      }
+      const terms = target.analyzer.analyze(node.terms.join(' '));
+      return terms.length === 0 || containsPhrase(target.tokens(), terms);
+    }
+  }
+};
+
+const fieldValues = (document: Document, path: string[]): string[] => {
+  const value = resolvePath(document, path);
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter(item => item !== undefined && item !== null)
+    .map(item => foldAccents(normalizeText(item instanceof Date ? item.toISOString() : String(item))));
+};
+
+// A field matches on its whole value (`filename:*.pdf`) or on any word in it (`author:smith`)
+const matchesValue = (node: TermNode, value: string): boolean => {
+  const matcher = termMatcher(node);
+  return matcher(value) || tokenize(value).some(matcher);
+};
+
+const termMatcher = (node: TermNode): ((candidate: string) => boolean) => {
+  if (node.wildcard) {
+    const pattern = new RegExp(`^${node.value.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'su');
+    return candidate => pattern.test(candidate);
+  }
+  if (node.fuzzy) {
+    const distance = node.fuzzy;
+    return candidate => Math.abs(candidate.length - node.value.length) <= distance &&
+      editDistance(candidate, node.value, distance) <= distance;
+  }
+  return candidate => candidate === node.value;
+};
+
+const containsPhrase = (tokens: string[], phrase: string[]): boolean => {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((term, offset) => tokens[i + offset] === term)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Levenshtein distance, giving up once every alignment exceeds `limit`
+const editDistance = (a: string, b: string, limit: number): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return rowMin;
+    previous = current;
+  }
+  return previous[b.length];
+};
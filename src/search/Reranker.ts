@@ -0,0 +1,179 @@
+import { ModelManager } from '../core/models';
+import { DocumentStore } from '../core/store';
+import { ChunkHit } from '../core/types';
+import { logger } from '../utils/logger';
+
+/**
+ * Reorders retrieved chunks by their relevance to the query text. Rerankers
+ * see only the candidate pool, so they can afford to be far more expensive
+ * per chunk than first-stage retrieval.
+ */
+export interface Reranker {
+  readonly name: string;
+  /**
+   * The hits with `rerankScore` set (0 to 1, higher is better), best first.
+   */
+  rerank(query: string, hits: ChunkHit[]): Promise<ChunkHit[]>;
+}
+
+// Share of the lexical score that rewards query terms appearing close together
+const PROXIMITY_WEIGHT = 0.3;
+
+/**
+ * Offline reranker scoring each chunk by how many distinct query terms it
+ * contains and how tightly they cluster, using the document's analyzer.
+ */
+export class LexicalReranker implements Reranker {
+  public readonly name = 'lexical';
+
+  constructor(private readonly store: DocumentStore) {}
+
+  public async rerank(query: string, hits: ChunkHit[]): Promise<ChunkHit[]> {
+    return sortByRerankScore(hits.map(hit => ({ ...hit, rerankScore: this.score(query, hit) })));
+  }
+
+  private score(query: string, hit: ChunkHit): number {
+    const document = this.store.getDocument(hit.chunk.documentId);
+    if (!document) {
+      return 0;
+    }
+
+    const analyzer = this.store.analyzerFor(document);
+    const queryTerms = new Set(analyzer.analyze(query));
+    if (queryTerms.size === 0) {
+      return 0;
+    }
+
+    const terms = analyzer.analyze(hit.chunk.content);
+    const present = new Set(terms.filter(term => queryTerms.has(term)));
+    if (present.size === 0) {
+      return 0;
+    }
+
+    const coverage = present.size / queryTerms.size;
+    const proximity = present.size / shortestSpan(terms, present);
+    return coverage * (1 - PROXIMITY_WEIGHT + PROXIMITY_WEIGHT * proximity);
+  }
+}
+
+export type LlmRerankStrategy = 'pointwise' | 'listwise';
+
+// Passage text shown to the model per candidate
+const PASSAGE_LENGTH = 600;
+
+/**
+ * Reranker asking the configured LLM to grade passages from 0 to 10, either
+ * all at once (listwise) or one prompt per passage (pointwise). Falls back to
+ * `fallback` when the model is unavailable or its reply cannot be read.
+ */
+export class LlmReranker implements Reranker {
+  public readonly name: string;
+
+  constructor(
+    private readonly strategy: LlmRerankStrategy,
+    private readonly fallback: Reranker
+  ) {
+    this.name = strategy === 'listwise' ? 'llm' : 'llm-pointwise';
+  }
+
+  public async rerank(query: string, hits: ChunkHit[]): Promise<ChunkHit[]> {
+    if (hits.length === 0) {
+      return hits;
+    }
+
+    try {
+      const grades = this.strategy === 'listwise'
+        ? await this.gradeList(query, hits)
+        : await this.gradeEach(query, hits);
+      return sortByRerankScore(hits.map((hit, index) => ({ ...hit, rerankScore: grades[index] / 10 })));
+    } catch (error) {
+      logger.warn(`LLM reranking failed, using ${this.fallback.name} reranking: ${(error as Error).message}`);
+      return this.fallback.rerank(query, hits);
+    }
+  }
+
+  private async gradeList(query: string, hits: ChunkHit[]): Promise<number[]> {
+    const passages = hits
+      .map((hit, index) => `[${index + 1}] ${passage(hit)}`)
+      .join('\n\n');
+    const prompt = `
+Grade how well each passage answers the query, from 0 (irrelevant) to 10 (answers it fully).
+
+Query: ${query}
+
+Passages:
+${passages}
+
+Respond with JSON only, one entry per passage:
+[{"passage": 1, "score": 7}, ...]`;
+
+    const response = await ModelManager.getInstance().getLLM().invoke(prompt);
+    const jsonMatch = response.content.toString().match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('reply contained no grades');
+    }
+
+    const grades = new Array<number>(hits.length).fill(0);
+    for (const entry of JSON.parse(jsonMatch[0])) {
+      const index = Number(entry?.passage) - 1;
+      if (index >= 0 && index < hits.length) {
+        grades[index] = clampGrade(Number(entry.score));
+      }
+    }
+    return grades;
+  }
+
+  private async gradeEach(query: string, hits: ChunkHit[]): Promise<number[]> {
+    const llm = ModelManager.getInstance().getLLM();
+    const grades: number[] = [];
+    // One request at a time keeps within provider rate limits
+    for (const hit of hits) {
+      const prompt = `
+Grade how well the passage answers the query, from 0 (irrelevant) to 10 (answers it fully). Respond with the number only.
+
+Query: ${query}
+
+Passage: ${passage(hit)}`;
+
+      const response = await llm.invoke(prompt);
+      const grade = response.content.toString().match(/\d+(?:\.\d+)?/);
+      if (!grade) {
+        throw new Error('reply contained no grade');
+      }
+      grades.push(clampGrade(parseFloat(grade[0])));
+    }
+    return grades;
+  }
+}
+
+// Length of the shortest run of terms containing every term of `wanted`
+const shortestSpan = (terms: string[], wanted: Set<string>): number => {
+  const counts = new Map<string, number>();
+  let best = terms.length;
+  let start = 0;
+  for (let end = 0; end < terms.length; end++) {
+    if (!wanted.has(terms[end])) continue;
+    counts.set(terms[end], (counts.get(terms[end]) || 0) + 1);
+
+    while (counts.size === wanted.size) {
+      best = Math.min(best, end - start + 1);
+      const term = terms[start++];
+      if (counts.has(term)) {
+        const count = counts.get(term)! - 1;
+        count === 0 ? counts.delete(term) : counts.set(term, count);
+      }
+    }
+  }
+  return best;
+};
+
+// Ties keep their retrieval order
+const sortByRerankScore = (hits: ChunkHit[]): ChunkHit[] =>
+  hits
+    .map((hit, rank) => ({ hit, rank }))
+    .sort((a, b) => (b.hit.rerankScore ?? 0) - (a.hit.rerankScore ?? 0) || a.rank - b.rank)
+    .map(({ hit }) => hit);
+
+const passage = (hit: ChunkHit): string => hit.chunk.content.slice(0, PASSAGE_LENGTH).replace(/\s+/g, ' ');
+
+const clampGrade = (grade: number): number => (Number.isFinite(grade) ? Math.min(10, Math.max(0, grade)) : 0);
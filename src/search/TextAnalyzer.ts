@@ -0,0 +1,169 @@
+import { STOPWORDS } from './stopwords';
+import { STEMMERS } from './stemmers';
+
+export const LANGUAGES = ['english', 'french', 'german', 'spanish', 'italian', 'portuguese', 'dutch'] as const;
+
+export type Language = typeof LANGUAGES[number];
+
+/**
+ * How a collection's text is analyzed. `language: 'auto'` (the default)
+ * detects each document's language; `'none'` disables language-specific
+ * stopwords and stemming.
+ */
+export interface AnalysisSettings {
+  language?: Language | 'auto' | 'none';
+  stemming?: boolean;
+  stopwords?: boolean;
+  foldAccents?: boolean;
+}
+
+export const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)?/gu;
+
+/**
+ * Unicode-normalized (NFKC), lowercased text, so ligatures, full-width forms
+ * and composed/decomposed accents compare equal.
+ */
+export const normalizeText = (text: string): string => text.normalize('NFKC').toLowerCase();
+
+/**
+ * Strips diacritics: "résumé" becomes "resume".
+ */
+export const foldAccents = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}+/gu, '').normalize('NFC');
+
+/**
+ * Normalized word tokens of a text. Apostrophes inside words are kept so
+ * "don't" stays a single term.
+ */
+export const tokenize = (text: string): string[] =>
+  (normalizeText(text).match(TOKEN_PATTERN) || []).map(token => token.replace(/’/g, "'"));
+
+// Minimum share of stopwords for a language to be detected
+const DETECTION_THRESHOLD = 0.08;
+// Detection looks at the start of the text only
+const DETECTION_SAMPLE = 5000;
+
+/**
+ * The language whose stopwords make up the largest share of the text, or
+ * undefined when none is common enough to tell.
+ */
+export const detectLanguage = (text: string): Language | undefined => {
+  const words = tokenize(text.slice(0, DETECTION_SAMPLE));
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  let best: Language | undefined;
+  let bestShare = DETECTION_THRESHOLD;
+  for (const language of LANGUAGES) {
+    const stopwords = stopwordSet(language, false);
+    const share = words.filter(word => stopwords.has(word)).length / words.length;
+    if (share > bestShare) {
+      best = language;
+      bestShare = share;
+    }
+  }
+  return best;
+};
+
+/**
+ * Turns text into index terms: normalized tokens, minus stopwords, stemmed
+ * and accent-folded as configured. Indexes and queries must go through the
+ * same analyzer for their terms to meet.
+ */
+export class TextAnalyzer {
+  public readonly key: string;
+  private readonly stopwords: Set<string>;
+
+  constructor(
+    public readonly language: Language | undefined,
+    private readonly options: { stemming: boolean; stopwords: boolean; foldAccents: boolean }
+  ) {
+    this.stopwords = language && options.stopwords ? stopwordSet(language, options.foldAccents) : new Set();
+    this.key = [
+      language || 'none',
+      options.stemming ? 'stem' : 'nostem',
+      options.stopwords ? 'stop' : 'nostop',
+      options.foldAccents ? 'fold' : 'nofold',
+    ].join(':');
+  }
+
+  /**
+   * The index term for one token, or null for a stopword.
+   */
+  public term(token: string): string | null {
+    const word = normalizeText(token).replace(/’/g, "'");
+    const folded = this.options.foldAccents ? foldAccents(word) : word;
+    if (this.stopwords.has(folded)) {
+      return null;
+    }
+
+    return this.language && this.options.stemming ? STEMMERS[this.language](folded) : folded;
+  }
+
+  public analyze(text: string): string[] {
+    const terms: string[] = [];
+    for (const token of tokenize(text)) {
+      const term = this.term(token);
+      if (term) terms.push(term);
+    }
+    return terms;
+  }
+}
+
+const analyzers = new Map<string, TextAnalyzer>();
+
+/**
+ * The analyzer for a collection's settings; with automatic language detection
+ * the language is taken from `text`.
+ */
+export const resolveAnalyzer = (settings: AnalysisSettings = {}, text = ''): TextAnalyzer => {
+  const language = settings.language === 'none'
+    ? undefined
+    : !settings.language || settings.language === 'auto'
+      ? detectLanguage(text)
+      : settings.language;
+  const options = {
+    stemming: settings.stemming ?? true,
+    stopwords: settings.stopwords ?? true,
+    foldAccents: settings.foldAccents ?? true,
+  };
+
+  const analyzer = new TextAnalyzer(language, options);
+  if (!analyzers.has(analyzer.key)) {
+    analyzers.set(analyzer.key, analyzer);
+  }
+  return analyzers.get(analyzer.key)!;
+};
+
+/**
+ * The most frequent non-stopword terms of a text, each reported in its most
+ * common surface form.
+ */
+export const extractKeywords = (text: string, analyzer: TextAnalyzer, limit = 10): string[] => {
+  const counts = new Map<string, { count: number; forms: Map<string, number> }>();
+  for (const token of tokenize(text)) {
+    const term = analyzer.term(token);
+    if (!term || term.length < 3 || /^\d+$/.test(term)) continue;
+
+    const entry = counts.get(term) || { count: 0, forms: new Map() };
+    entry.count++;
+    entry.forms.set(token, (entry.forms.get(token) || 0) + 1);
+    counts.set(term, entry);
+  }
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map(entry => Array.from(entry.forms).sort((a, b) => b[1] - a[1])[0][0]);
+};
+
+const stopwordSets = new Map<string, Set<string>>();
+
+const stopwordSet = (language: Language, folded: boolean): Set<string> => {
+  const key = `${language}:${folded}`;
+  if (!stopwordSets.has(key)) {
+    stopwordSets.set(key, new Set(STOPWORDS[language].map(word => (folded ? foldAccents(word) : word))));
+  }
+  return stopwordSets.get(key)!;
+};
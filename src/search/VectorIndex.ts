@@ -0,0 +1,240 @@
+import { ScoredKey } from './BM25Index';
+
+export interface VectorSearchOptions {
+  k: number;
+  // Minimum cosine similarity a hit must reach
+  threshold?: number;
+  // Force a brute-force scan instead of the graph search
+  exact?: boolean;
+  accept?: (key: string) => boolean;
+}
+
+interface GraphNode {
+  vector: Float32Array;
+  level: number;
+  // Neighbour keys per level, level 0 first
+  neighbors: string[][];
+}
+
+// Below this many vectors a full scan is as fast as the graph and always exact
+const EXACT_SEARCH_LIMIT = 2000;
+// Rebuild the graph once this share of its nodes are tombstones
+const MAX_DELETED_RATIO = 0.25;
+
+/**
+ * Cosine-similarity k-NN index over unit vectors. Searches are exact for small
+ * indexes and use a hierarchical navigable small world (HNSW) graph once the
+ * index grows. Removed nodes stay in the graph as tombstones so it remains
+ * navigable, and the graph is rebuilt once too many accumulate.
+ */
+export class VectorIndex {
+  private nodes: Map<string, GraphNode> = new Map();
+  private deleted: Set<string> = new Set();
+  private entryPoint: string | null = null;
+  private readonly levelFactor: number;
+
+  constructor(
+    private readonly m = 16,
+    private readonly efConstruction = 100,
+    private readonly efSearch = 64
+  ) {
+    this.levelFactor = 1 / Math.log(m);
+  }
+
+  public get size(): number {
+    return this.nodes.size - this.deleted.size;
+  }
+
+  public has(key: string): boolean {
+    return this.nodes.has(key) && !this.deleted.has(key);
+  }
+
+  public add(key: string, vector: number[]): void {
+    if (this.nodes.has(key)) {
+      this.detach(key);
+    }
+    this.insert(key, normalize(vector));
+  }
+
+  public remove(key: string): boolean {
+    if (!this.has(key)) {
+      return false;
+    }
+
+    this.deleted.add(key);
+    this.compact();
+    return true;
+  }
+
+  public clear(): void {
+    this.nodes.clear();
+    this.deleted.clear();
+    this.entryPoint = null;
+  }
+
+  public search(query: number[], options: VectorSearchOptions): ScoredKey[] {
+    if (this.size === 0 || options.k <= 0) {
+      return [];
+    }
+
+    const vector = normalize(query);
+    const accept = (key: string) => !this.deleted.has(key) && (!options.accept || options.accept(key));
+    const threshold = options.threshold ?? -1;
+
+    let hits: ScoredKey[] | undefined;
+    if (!options.exact && this.nodes.size > EXACT_SEARCH_LIMIT) {
+      hits = this.searchGraph(vector, Math.max(this.efSearch, options.k * 4))
+        .filter(hit => accept(hit.key));
+      // A restrictive filter can starve the graph search; fall back to a scan
+      if (hits.length < options.k) {
+        hits = undefined;
+      }
+    }
+
+    if (!hits) {
+      hits = [];
+      for (const [key, node] of this.nodes) {
+        if (accept(key)) {
+          hits.push({ key, score: dot(vector, node.vector) });
+        }
+      }
+    }
+
+    return hits
+      .filter(hit => hit.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.k);
+  }
+
+  private insert(key: string, vector: Float32Array): void {
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor);
+    const node: GraphNode = { vector, level, neighbors: Array.from({ length: level + 1 }, () => []) };
+    this.nodes.set(key, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = key;
+      return;
+    }
+
+    const entry = this.nodes.get(this.entryPoint)!;
+    let current = this.entryPoint;
+    for (let layer = entry.level; layer > level; layer--) {
+      current = this.searchLayer(vector, [current], 1, layer)[0].key;
+    }
+
+    let candidates = [current];
+    for (let layer = Math.min(level, entry.level); layer >= 0; layer--) {
+      const found = this.searchLayer(vector, candidates, this.efConstruction, layer);
+      const maxNeighbors = layer === 0 ? this.m * 2 : this.m;
+
+      node.neighbors[layer] = found.slice(0, this.m).map(hit => hit.key);
+      for (const neighborKey of node.neighbors[layer]) {
+        const neighbor = this.nodes.get(neighborKey)!;
+        neighbor.neighbors[layer].push(key);
+        if (neighbor.neighbors[layer].length > maxNeighbors) {
+          neighbor.neighbors[layer] = this.closest(neighbor.vector, neighbor.neighbors[layer], maxNeighbors);
+        }
+      }
+      candidates = found.map(hit => hit.key);
+    }
+
+    if (level > entry.level) {
+      this.entryPoint = key;
+    }
+  }
+
+  private searchGraph(vector: Float32Array, ef: number): ScoredKey[] {
+    let current = this.entryPoint!;
+    for (let layer = this.nodes.get(current)!.level; layer > 0; layer--) {
+      current = this.searchLayer(vector, [current], 1, layer)[0].key;
+    }
+    return this.searchLayer(vector, [current], ef, 0);
+  }
+
+  // Best-first search of one layer, returning up to `ef` nodes closest to the vector
+  private searchLayer(vector: Float32Array, entries: string[], ef: number, layer: number): ScoredKey[] {
+    const visited = new Set(entries);
+    const candidates: ScoredKey[] = entries.map(key => ({ key, score: dot(vector, this.nodes.get(key)!.vector) }));
+    const results = [...candidates].sort((a, b) => b.score - a.score).slice(0, ef);
+
+    while (candidates.length > 0) {
+      candidates.sort((a, b) => a.score - b.score);
+      const best = candidates.pop()!;
+      if (results.length >= ef && best.score < results[results.length - 1].score) {
+        break;
+      }
+
+      for (const neighborKey of this.nodes.get(best.key)!.neighbors[layer] || []) {
+        const neighbor = this.nodes.get(neighborKey);
+        if (!neighbor || visited.has(neighborKey)) continue;
+        visited.add(neighborKey);
+
+        const score = dot(vector, neighbor.vector);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          candidates.push({ key: neighborKey, score });
+          results.push({ key: neighborKey, score });
+          results.sort((a, b) => b.score - a.score);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private closest(vector: Float32Array, keys: string[], count: number): string[] {
+    return keys
+      .filter(key => this.nodes.has(key))
+      .map(key => ({ key, score: dot(vector, this.nodes.get(key)!.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, count)
+      .map(hit => hit.key);
+  }
+
+  // Drops a node outright; edges still pointing at it are skipped until the next rebuild
+  private detach(key: string): void {
+    this.nodes.delete(key);
+    this.deleted.delete(key);
+
+    if (this.entryPoint === key) {
+      this.entryPoint = null;
+      let topLevel = -1;
+      for (const [candidate, node] of this.nodes) {
+        if (node.level > topLevel) {
+          topLevel = node.level;
+          this.entryPoint = candidate;
+        }
+      }
+    }
+  }
+
+  // Rebuilds the graph without tombstoned nodes once they make up too much of it
+  private compact(): void {
+    if (this.deleted.size === 0 || this.deleted.size < this.nodes.size * MAX_DELETED_RATIO) return;
+
+    const live = Array.from(this.nodes).filter(([key]) => !this.deleted.has(key));
+    this.clear();
+    for (const [key, node] of live) {
+      this.insert(key, node.vector);
+    }
+  }
+}
+
+const normalize = (vector: number[] | Float32Array): Float32Array => {
+  const result = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= norm;
+  }
+  return result;
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
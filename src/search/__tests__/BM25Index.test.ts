@@ -0,0 +1,59 @@
+import { BM25Index } from '../BM25Index';
+
+const keys = (index: BM25Index, terms: string[]): string[] => index.search(terms).map(hit => hit.key);
+
+describe('BM25Index', () => {
+  let index: BM25Index;
+
+  beforeEach(() => {
+    index = new BM25Index();
+    index.add('a', ['contract', 'notice', 'period', 'notice']);
+    index.add('b', ['contract', 'payment', 'terms']);
+    index.add('c', ['holiday', 'policy']);
+  });
+
+  it('returns only entries containing a query term, best first', () => {
+    expect(keys(index, ['notice'])).toEqual(['a']);
+    expect(keys(index, ['contract', 'notice'])).toEqual(['a', 'b']);
+    expect(keys(index, ['unknown'])).toEqual([]);
+  });
+
+  it('weighs rare terms above common ones', () => {
+    expect(index.idf('payment')).toBeGreaterThan(index.idf('contract'));
+    expect(index.idf('unknown')).toBeGreaterThan(index.idf('payment'));
+  });
+
+  it('ranks higher term frequency and shorter entries first', () => {
+    index.add('d', ['notice', 'x', 'y', 'z', 'w']);
+    const [first, second] = index.search(['notice']);
+
+    expect(first.key).toBe('a');
+    expect(second.key).toBe('d');
+    expect(first.score).toBeGreaterThan(second.score);
+  });
+
+  it('counts a repeated query term once', () => {
+    expect(index.search(['notice', 'notice'])).toEqual(index.search(['notice']));
+  });
+
+  it('replaces an entry re-added under the same key', () => {
+    index.add('a', ['holiday']);
+
+    expect(index.size).toBe(3);
+    expect(keys(index, ['notice'])).toEqual([]);
+    expect(keys(index, ['holiday']).sort()).toEqual(['a', 'c']);
+  });
+
+  it('forgets removed entries and their terms', () => {
+    expect(index.remove('c')).toBe(true);
+    expect(index.remove('c')).toBe(false);
+
+    expect(keys(index, ['holiday'])).toEqual([]);
+    expect(Array.from(index.terms())).not.toContain('policy');
+    expect(index.hasTerm('a', 'notice')).toBe(true);
+  });
+
+  it('applies the accept filter before scoring', () => {
+    expect(index.search(['contract'], key => key !== 'a').map(hit => hit.key)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,63 @@
+import { DocumentStore } from '../../core/store';
+import { VectorStore } from '../../core/vectors';
+import { ChunkHit } from '../../core/types';
+import { HybridRetriever } from '../HybridRetriever';
+import { logger } from '../../utils/logger';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+const store = new DocumentStore();
+const document = makeDocument('doc', [
+  'The notice period for termination is thirty days.',
+  'Either party may end the agreement early with written notice.',
+  'Payment is due within fourteen days of the invoice.',
+].join('\n\n'));
+store.addDocument(document);
+store.addChunks(document.id, paragraphChunks(document));
+
+const chunk = (index: number) => store.getChunks('doc')[index];
+
+// Vector search stand-in returning fixed hits, or failing like a provider without a key
+const vectors = (search: () => Promise<ChunkHit[]>) => ({ search }) as unknown as VectorStore;
+
+describe('HybridRetriever', () => {
+  it('fuses lexical and semantic rankings with reciprocal rank fusion', async () => {
+    const retriever = new HybridRetriever(store, vectors(async () => [
+      { chunk: chunk(1), score: 0.9 },
+      { chunk: chunk(2), score: 0.4 },
+    ]));
+
+    const hits = await retriever.retrieveChunks('notice period', { mode: 'hybrid', rerank: 'none' });
+
+    // Chunk 1 ranks second lexically and first semantically, so it beats chunk 0 (first lexically only)
+    expect(hits.map(hit => hit.chunk.id)).toEqual(['doc-1', 'doc-0', 'doc-2']);
+    expect(hits[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(hits[0].lexicalScore).toBeGreaterThan(0);
+    expect(hits[0].semanticScore).toBe(0.9);
+    expect(hits[1].semanticScore).toBeUndefined();
+    expect(hits[2].lexicalScore).toBeUndefined();
+  });
+
+  it('answers from the lexical side when semantic search fails', async () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    const retriever = new HybridRetriever(store, vectors(async () => {
+      throw new Error('no embeddings');
+    }));
+
+    const hits = await retriever.retrieveChunks('payment', { mode: 'hybrid', rerank: 'none' });
+
+    expect(hits.map(hit => hit.chunk.id)).toEqual(['doc-2']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('no embeddings'));
+    warn.mockRestore();
+  });
+
+  it('keeps keyword and semantic modes to one side each', async () => {
+    const retriever = new HybridRetriever(store, vectors(async () => [{ chunk: chunk(2), score: 0.5 }]));
+
+    const keyword = await retriever.retrieveChunks('termination', { mode: 'keyword', rerank: 'none' });
+    const semantic = await retriever.retrieveChunks('termination', { mode: 'semantic', rerank: 'none' });
+
+    expect(keyword.map(hit => hit.chunk.id)).toEqual(['doc-0']);
+    expect(semantic.map(hit => hit.chunk.id)).toEqual(['doc-2']);
+    expect(semantic[0].semanticScore).toBe(0.5);
+  });
+});
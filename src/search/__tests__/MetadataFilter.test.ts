@@ -0,0 +1,80 @@
+import { FilterParseError, MetadataFilter } from '../MetadataFilter';
+import { makeDocument } from '../../__tests__/fixtures';
+
+const report = makeDocument('report', 'Quarterly results', {
+  filename: 'report.pdf',
+  fileType: '.pdf',
+  size: 250000,
+  createdAt: new Date('2024-03-15T00:00:00Z'),
+  pdfInfo: { author: 'Ada Lovelace', pages: 12 },
+}, { tags: ['finance', 'q1'] });
+
+const notes = makeDocument('notes', 'Meeting notes', {
+  filename: 'notes.md',
+  fileType: '.md',
+  size: 1200,
+  createdAt: new Date('2023-11-02T00:00:00Z'),
+});
+
+const matching = (expression: string): string[] =>
+  [report, notes].filter(doc => MetadataFilter.parse(expression).matches(doc)).map(doc => doc.id);
+
+describe('MetadataFilter', () => {
+  it('compares strings case-insensitively and numbers numerically', () => {
+    expect(matching('fileType = .PDF')).toEqual(['report']);
+    expect(matching('size > 100000')).toEqual(['report']);
+    expect(matching('size <= 1200')).toEqual(['notes']);
+    expect(matching('fileType != .pdf')).toEqual(['notes']);
+  });
+
+  it('compares dates chronologically', () => {
+    expect(matching('createdAt >= 2024-01-01')).toEqual(['report']);
+    expect(matching('createdAt < 2024-01')).toEqual(['notes']);
+  });
+
+  it('resolves dotted paths and document fields', () => {
+    expect(matching('pdfInfo.author = "ada lovelace"')).toEqual(['report']);
+    expect(matching('metadata.pdfInfo.pages = 12')).toEqual(['report']);
+    expect(matching('id = notes')).toEqual(['notes']);
+  });
+
+  it('supports exists, in and their negations', () => {
+    expect(matching('pdfInfo.author exists')).toEqual(['report']);
+    expect(matching('pdfInfo.author not exists')).toEqual(['notes']);
+    expect(matching('fileType in (.md, .txt)')).toEqual(['notes']);
+    expect(matching('fileType not in (.md, .txt)')).toEqual(['report']);
+  });
+
+  it('matches array fields when any element matches', () => {
+    expect(matching('tags = q1')).toEqual(['report']);
+    expect(matching('tags != q1')).toEqual(['notes']);
+  });
+
+  it('combines clauses with and, or, not and parentheses, with and binding tighter than or', () => {
+    expect(matching('fileType = .md or fileType = .pdf and size < 1000')).toEqual(['notes']);
+    expect(matching('(fileType = .md or fileType = .pdf) and size > 1000')).toEqual(['report', 'notes']);
+    expect(matching('not (fileType = .md)')).toEqual(['report']);
+  });
+
+  it.each([
+    ['', 'Empty filter expression'],
+    ['size >', 'Expected a value but found end of expression'],
+    ['size 10', "Expected an operator after 'size' but found '10'"],
+    ['title = "open', 'Unterminated string'],
+    ['(size > 1', "Expected ')' but found end of expression"],
+    ['size ! 1', "Expected '!='"],
+  ])('rejects %j with a positioned error', (expression, message) => {
+    expect(() => MetadataFilter.parse(expression)).toThrow(FilterParseError);
+    expect(() => MetadataFilter.parse(expression)).toThrow(message);
+  });
+
+  it('reports the position of the offending token', () => {
+    try {
+      MetadataFilter.parse('size > 1 and');
+      throw new Error('expected a parse error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(FilterParseError);
+      expect((error as FilterParseError).position).toBe(12);
+    }
+  });
+});
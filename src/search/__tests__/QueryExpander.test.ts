@@ -0,0 +1,77 @@
+import { ModelManager } from '../../core/models';
+import { MemoryStorageBackend } from '../../core/storage';
+import { DocumentStore } from '../../core/store';
+import { QueryExpander, splitQuestion } from '../QueryExpander';
+import { logger } from '../../utils/logger';
+
+const store = new DocumentStore(new MemoryStorageBackend());
+store.createCollection('hr');
+store.setCollectionGlossary('hr', { PTO: 'paid time off', 'C++': 'cpp' });
+store.createCollection('finance');
+store.setCollectionGlossary('finance', { EBIT: 'earnings before interest and taxes' });
+
+const expander = new QueryExpander(store);
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('splitQuestion', () => {
+  it('splits at sentence ends, semicolons and "and" before a new question', () => {
+    expect(splitQuestion('What is PTO? How do I request it?')).toEqual(['What is PTO?', 'How do I request it?']);
+    expect(splitQuestion('who approves leave; when is it paid')).toEqual(['who approves leave', 'when is it paid']);
+    expect(splitQuestion('What is the notice period, and how is it counted?'))
+      .toEqual(['What is the notice period', 'how is it counted?']);
+    expect(splitQuestion('salt and pepper and what else')).toEqual(['salt and pepper', 'what else']);
+  });
+
+  it('leaves single questions alone', () => {
+    expect(splitQuestion('salt and pepper')).toEqual([]);
+    expect(splitQuestion('What is PTO?')).toEqual([]);
+  });
+});
+
+describe('QueryExpander offline', () => {
+  it('expands acronyms from the collection glossaries, and abbreviates spelled-out terms', async () => {
+    expect(await expander.expand('PTO policy', { useLLM: false })).toEqual([{ text: 'paid time off policy', source: 'glossary' }]);
+    expect(await expander.expand('Paid time off rules', { useLLM: false })).toEqual([{ text: 'PTO rules', source: 'glossary' }]);
+    expect(await expander.expand('PTO policy', { useLLM: false, collections: ['finance'] })).toEqual([]);
+  });
+
+  it('matches whole terms only, including terms with symbols', async () => {
+    expect(await expander.expand('OPTOUT form', { useLLM: false })).toEqual([]);
+    expect(await expander.expand('C++ jobs', { useLLM: false })).toEqual([{ text: 'cpp jobs', source: 'glossary' }]);
+  });
+
+  it('adds sub-queries for multi-part questions', async () => {
+    expect(await expander.expand('What is EBIT? Who reports it?', { useLLM: false })).toEqual([
+      { text: 'What is earnings before interest and taxes? Who reports it?', source: 'glossary' },
+      { text: 'What is EBIT?', source: 'subquery' },
+      { text: 'Who reports it?', source: 'subquery' },
+    ]);
+    expect(await expander.expand('   ')).toEqual([]);
+  });
+});
+
+describe('QueryExpander with a language model', () => {
+  const stubReply = (content: string) =>
+    jest.spyOn(ModelManager.getInstance(), 'getLLM').mockReturnValue({ invoke: async () => ({ content }) } as never);
+
+  it('adds paraphrases and sub-queries, dropping repeats', async () => {
+    stubReply('{"paraphrases": ["vacation policy", "PTO policy", "Vacation  policy!", 7], "subqueries": []}');
+
+    expect(await expander.expand('PTO policy')).toEqual([
+      { text: 'paid time off policy', source: 'glossary' },
+      { text: 'vacation policy', source: 'paraphrase' },
+    ]);
+  });
+
+  it('falls back to offline sub-queries when the reply cannot be read', async () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    stubReply('Sorry, no.');
+
+    expect(await expander.expand('Who? Why?')).toEqual([
+      { text: 'Who?', source: 'subquery' },
+      { text: 'Why?', source: 'subquery' },
+    ]);
+    expect(warn).toHaveBeenCalledWith('LLM query rewriting failed, using offline expansion only: reply contained no rewrites');
+  });
+});
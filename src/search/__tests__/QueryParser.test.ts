@@ -0,0 +1,118 @@
+import { DocumentStore } from '../../core/store';
+import { QueryParseError, SearchQuery } from '../QueryParser';
+import { TextAnalyzer } from '../TextAnalyzer';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+describe('SearchQuery.parse', () => {
+  it('separates required, optional and excluded clauses', () => {
+    const query = SearchQuery.parse('"machine learning" AND (ethics OR privacy) -finance');
+
+    expect(query.ast).toEqual({
+      type: 'clauses',
+      required: [{
+        type: 'and',
+        left: { type: 'phrase', terms: ['machine', 'learning'] },
+        right: {
+          type: 'or',
+          left: { type: 'term', value: 'ethics', wildcard: false },
+          right: { type: 'term', value: 'privacy', wildcard: false },
+        },
+      }],
+      optional: [],
+      excluded: [{ type: 'term', value: 'finance', wildcard: false }],
+    });
+    expect(query.isRestrictive).toBe(true);
+  });
+
+  it('reads wildcards, fuzzy terms and fields', () => {
+    expect(SearchQuery.parse('learn* privacy~ smith~1').ast).toEqual({
+      type: 'clauses',
+      required: [],
+      optional: [
+        { type: 'term', value: 'learn*', wildcard: true },
+        { type: 'term', value: 'privacy', wildcard: false, fuzzy: 2 },
+        { type: 'term', value: 'smith', wildcard: false, fuzzy: 1 },
+      ],
+      excluded: [],
+    });
+    expect(SearchQuery.parse('author:smith').ast).toMatchObject({ type: 'term', field: ['pdfInfo', 'author'], value: 'smith' });
+  });
+
+  it('keeps optional words unrestrictive and exposes positive text for embedding', () => {
+    const query = SearchQuery.parse('privacy policy -draft');
+
+    expect(query.isRestrictive).toBe(true);
+    expect(SearchQuery.parse('privacy policy').isRestrictive).toBe(false);
+    expect(query.plainText).toBe('privacy policy');
+    expect(SearchQuery.parse('').isEmpty).toBe(true);
+  });
+
+  it('treats free text as optional words without syntax', () => {
+    const query = SearchQuery.fromText('What is "AI" -- really?');
+
+    expect(query.isRestrictive).toBe(false);
+    expect(query.plainText).toBe('what is ai really');
+  });
+
+  it.each([
+    ['"open', 'Unterminated phrase', 0],
+    ['(a OR b', "Expected ')' but found end of query", 7],
+    ['a AND', "Expected a term after 'AND' but found end of query", 5],
+    [')', "Unexpected ')'", 0],
+  ])('rejects %j at its position', (text, message, position) => {
+    expect(() => SearchQuery.parse(text)).toThrow(QueryParseError);
+    expect(() => SearchQuery.parse(text)).toThrow(message);
+    try {
+      SearchQuery.parse(text);
+    } catch (error) {
+      expect((error as QueryParseError).position).toBe(position);
+    }
+  });
+});
+
+describe('search query matching', () => {
+  const store = new DocumentStore();
+  const add = (id: string, content: string, metadata = {}, tags?: string[]) => {
+    const document = makeDocument(id, content, metadata, { tags });
+    store.addDocument(document);
+    store.addChunks(id, paragraphChunks(document));
+  };
+  add('ethics', 'Machine learning raises questions of ethics and privacy.', { filename: 'ethics.pdf', fileType: '.pdf' });
+  add('finance', 'Machine learning in finance predicts market risk and privacy breaches.', { filename: 'finance.md' }, ['markets']);
+  add('learning', 'Learning machines were studied long before modern computers.', { filename: 'history.txt' });
+
+  const ids = (query: string): string[] => store.searchDocuments(query).map(hit => hit.document.id).sort();
+
+  it('requires phrases in order', () => {
+    expect(ids('"machine learning"')).toEqual(['ethics', 'finance']);
+  });
+
+  it('matches phrases against the terms kept from indexing, following updates', () => {
+    const analyze = jest.spyOn(TextAnalyzer.prototype, 'analyze');
+    try {
+      expect(ids('"learning machines"')).toEqual(['learning']);
+      // Only the phrase itself is analyzed, once per document analyzer
+      expect(new Set(analyze.mock.calls.map(([text]) => text))).toEqual(new Set(['learning machines']));
+    } finally {
+      analyze.mockRestore();
+    }
+
+    const revised = new DocumentStore();
+    revised.addDocument(makeDocument('notes', 'Learning machines.'));
+    revised.addDocument(makeDocument('notes', 'Machines for learning.'));
+    expect(revised.searchDocuments('"learning machines"')).toEqual([]);
+    expect(revised.searchDocuments('"for learning"').map(hit => hit.document.id)).toEqual(['notes']);
+  });
+
+  it('combines boolean operators and exclusions', () => {
+    expect(ids('"machine learning" AND (ethics OR privacy) -finance')).toEqual(['ethics']);
+    expect(ids('machine NOT privacy')).toEqual(['learning']);
+  });
+
+  it('matches fields, wildcards and fuzzy terms', () => {
+    expect(ids('filename:*.pdf')).toEqual(['ethics']);
+    expect(ids('tag:markets')).toEqual(['finance']);
+    expect(ids('comput*')).toEqual(['learning']);
+    expect(ids('privcy~')).toEqual(['ethics', 'finance']);
+  });
+});
@@ -0,0 +1,81 @@
+import { ModelManager } from '../../core/models';
+import { DocumentStore } from '../../core/store';
+import { ChunkHit } from '../../core/types';
+import { LexicalReranker, LlmReranker } from '../Reranker';
+import { logger } from '../../utils/logger';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+const store = new DocumentStore();
+const document = makeDocument('doc', [
+  'Solar panels convert sunlight into electricity on the roof.',
+  'Panels of experts discussed solar policy, and later the electricity market.',
+  'Wind turbines produce power offshore.',
+].join('\n\n'));
+store.addDocument(document);
+store.addChunks(document.id, paragraphChunks(document));
+
+// The chunks in retrieval order, worst-scored first so reranking has work to do
+const hits = (): ChunkHit[] => [2, 1, 0].map((index, rank) => ({ chunk: store.getChunks('doc')[index], score: 1 - rank * 0.1 }));
+const order = (reranked: ChunkHit[]) => reranked.map(hit => hit.chunk.index);
+
+// A language model stand-in answering every prompt with `reply`
+const stubLLM = (reply: string | (() => string)) => {
+  const invoke = jest.fn(async () => ({ content: typeof reply === 'string' ? reply : reply() }));
+  jest.spyOn(ModelManager.getInstance(), 'getLLM').mockReturnValue({ invoke } as never);
+  return invoke;
+};
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('LexicalReranker', () => {
+  const reranker = new LexicalReranker(store);
+
+  it('ranks by query term coverage, then by how closely the terms cluster', async () => {
+    const reranked = await reranker.rerank('solar panels electricity', hits());
+
+    expect(order(reranked)).toEqual([0, 1, 2]);
+    expect(reranked[0].rerankScore).toBeGreaterThan(reranked[1].rerankScore!);
+    expect(reranked[2].rerankScore).toBe(0);
+    expect(reranked[0].score).toBe(0.8);
+  });
+
+  it('scores stopword-only queries as zero, keeping the retrieval order', async () => {
+    expect(order(await reranker.rerank('the of and', hits()))).toEqual([2, 1, 0]);
+  });
+});
+
+describe('LlmReranker', () => {
+  const fallback = new LexicalReranker(store);
+
+  it('orders by the grades of a listwise reply, clamped to 0-10', async () => {
+    const invoke = stubLLM('Grades: [{"passage": 3, "score": 15}, {"passage": 1, "score": 4}]');
+
+    const reranked = await new LlmReranker('listwise', fallback).rerank('solar panels', hits());
+
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(order(reranked)).toEqual([0, 2, 1]);
+    expect(reranked.map(hit => hit.rerankScore)).toEqual([1, 0.4, 0]);
+  });
+
+  it('asks once per passage pointwise', async () => {
+    const grades = ['2', 'Grade: 7.5', '9'];
+    const invoke = stubLLM(() => grades.shift()!);
+
+    const reranked = await new LlmReranker('pointwise', fallback).rerank('solar panels', hits());
+
+    expect(invoke).toHaveBeenCalledTimes(3);
+    expect(order(reranked)).toEqual([0, 1, 2]);
+  });
+
+  it('falls back when the reply cannot be read or no model is configured', async () => {
+    const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    stubLLM('I cannot grade these.');
+
+    expect(order(await new LlmReranker('listwise', fallback).rerank('solar panels electricity', hits()))).toEqual([0, 1, 2]);
+    expect(warn).toHaveBeenCalledWith('LLM reranking failed, using lexical reranking: reply contained no grades');
+
+    jest.restoreAllMocks();
+    jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    expect(order(await new LlmReranker('pointwise', fallback).rerank('solar panels electricity', hits()))).toEqual([0, 1, 2]);
+  });
+});
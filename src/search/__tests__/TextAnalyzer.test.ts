@@ -0,0 +1,63 @@
+import { detectLanguage, extractKeywords, foldAccents, resolveAnalyzer, tokenize } from '../TextAnalyzer';
+
+describe('tokenize', () => {
+  it('lowercases, keeps in-word apostrophes and drops punctuation', () => {
+    expect(tokenize("Don't stop — l’été 2024!")).toEqual(["don't", 'stop', "l'été", '2024']);
+  });
+
+  it('normalizes compatibility forms', () => {
+    expect(tokenize('ﬁle ＡＢＣ')).toEqual(['file', 'abc']);
+  });
+});
+
+describe('foldAccents', () => {
+  it('strips diacritics from composed and decomposed text', () => {
+    expect(foldAccents('résumé')).toBe('resume');
+    expect(foldAccents('re\u0301sume\u0301')).toBe('resume');
+  });
+});
+
+describe('detectLanguage', () => {
+  it('picks the language whose stopwords are most common', () => {
+    expect(detectLanguage('The quick brown fox jumps over the lazy dog and the cat')).toBe('english');
+    expect(detectLanguage('Le chat est sur la table et les enfants jouent dans le jardin')).toBe('french');
+  });
+
+  it('gives up on text without stopwords', () => {
+    expect(detectLanguage('xyz qwerty')).toBeUndefined();
+    expect(detectLanguage('')).toBeUndefined();
+  });
+});
+
+describe('TextAnalyzer', () => {
+  it('removes stopwords, stems and folds accents by default', () => {
+    const analyzer = resolveAnalyzer({ language: 'english' });
+
+    expect(analyzer.analyze('The running runners and the Café')).toEqual(['run', 'runner', 'cafe']);
+  });
+
+  it('honours disabled stemming, stopwords and folding', () => {
+    const analyzer = resolveAnalyzer({ language: 'english', stemming: false, stopwords: false, foldAccents: false });
+
+    expect(analyzer.analyze('The running Café')).toEqual(['the', 'running', 'café']);
+  });
+
+  it('detects the language from the text when set to auto, and skips it for none', () => {
+    expect(resolveAnalyzer({}, 'Le chat est sur la table et les enfants jouent dans le jardin').language).toBe('french');
+    expect(resolveAnalyzer({ language: 'none' }).analyze('The running cats')).toEqual(['the', 'running', 'cats']);
+  });
+
+  it('shares one analyzer per configuration', () => {
+    expect(resolveAnalyzer({ language: 'german' })).toBe(resolveAnalyzer({ language: 'german', stemming: true }));
+    expect(resolveAnalyzer({ language: 'german' }).key).toBe('german:stem:stop:fold');
+  });
+});
+
+describe('extractKeywords', () => {
+  it('ranks terms by frequency and reports their most common surface form', () => {
+    const analyzer = resolveAnalyzer({ language: 'english' });
+    const text = 'Privacy matters. Privacy policies cover data privacy, data retention and the policy.';
+
+    expect(extractKeywords(text, analyzer, 3)).toEqual(['privacy', 'policies', 'data']);
+  });
+});
@@ -0,0 +1,60 @@
+import { VectorIndex } from '../VectorIndex';
+
+// Deterministic pseudo-random vectors (mulberry32)
+const randomVectors = (count: number, dimension: number, seed = 7): number[][] => {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+};
+
+describe('VectorIndex', () => {
+  it('ranks keys by cosine similarity, honouring the threshold and filter', () => {
+    const index = new VectorIndex();
+    index.add('east', [1, 0]);
+    index.add('north-east', [1, 1]);
+    index.add('north', [0, 3]);
+    index.add('west', [-1, 0]);
+
+    expect(index.search([1, 0.1], { k: 3 }).map(hit => hit.key)).toEqual(['east', 'north-east', 'north']);
+    expect(index.search([1, 0.1], { k: 10, threshold: 0.5 }).map(hit => hit.key)).toEqual(['east', 'north-east']);
+    expect(index.search([1, 0.1], { k: 1, accept: key => key.startsWith('north') }).map(hit => hit.key)).toEqual(['north-east']);
+    expect(index.search([1, 0], { k: 1 })[0].score).toBeCloseTo(1);
+  });
+
+  it('replaces re-added keys and forgets removed ones', () => {
+    const index = new VectorIndex();
+    index.add('a', [1, 0]);
+    index.add('b', [0, 1]);
+    index.add('a', [0, 1]);
+
+    expect(index.size).toBe(2);
+    expect(index.search([1, 0], { k: 2, threshold: 0.5 })).toEqual([]);
+    expect(index.remove('b')).toBe(true);
+    expect(index.remove('b')).toBe(false);
+    expect(index.has('b')).toBe(false);
+    expect(index.search([0, 1], { k: 2 }).map(hit => hit.key)).toEqual(['a']);
+  });
+
+  it('finds nearly all exact neighbours through the graph on large indexes', () => {
+    const index = new VectorIndex(8, 40, 40);
+    const vectors = randomVectors(2500, 12);
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+    for (let i = 0; i < 500; i++) {
+      index.remove(`v${i}`);
+    }
+
+    let found = 0;
+    for (const query of randomVectors(20, 12, 99)) {
+      const exact = new Set(index.search(query, { k: 10, exact: true }).map(hit => hit.key));
+      const approximate = index.search(query, { k: 10 });
+      expect(approximate.every(hit => Number(hit.key.slice(1)) >= 500)).toBe(true);
+      found += approximate.filter(hit => exact.has(hit.key)).length;
+    }
+    expect(found / 200).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,64 @@
+import { computeFacets, FACETS, parseFacets } from '../facets';
+import { MetadataFilter } from '../MetadataFilter';
+import { MemoryStorageBackend } from '../../core/storage';
+import { DocumentStore } from '../../core/store';
+import { makeDocument, paragraphChunks } from '../../__tests__/fixtures';
+
+const documents = [
+  makeDocument('a', 'x', { fileType: '.pdf', pdfInfo: { author: 'Ada "The Countess" Lovelace' }, language: 'english', processedAt: new Date('2024-12-05T00:00:00Z') }, { tags: ['finance', 'q1'] }),
+  makeDocument('b', 'x', { fileType: '.pdf', language: 'english', processedAt: new Date('2024-12-20T00:00:00Z') }, { tags: ['finance', 'finance'] }),
+  makeDocument('c', 'x', { fileType: '.md', processedAt: new Date('2025-01-02T00:00:00Z') }, { tags: ['  '] }),
+];
+
+describe('parseFacets', () => {
+  it('accepts facet names and metadata path aliases, deduplicated', () => {
+    expect(parseFacets(['fileType', 'type', 'tags', 'pdfInfo.author', 'processedAt'])).toEqual(['fileType', 'tag', 'author', 'month']);
+  });
+
+  it('rejects unknown facets', () => {
+    expect(() => parseFacets(['size'])).toThrow(`Unknown facet "size" (use ${FACETS.join(', ')})`);
+  });
+});
+
+describe('computeFacets', () => {
+  const facets = computeFacets(documents, [...FACETS]);
+
+  it('counts documents per value, most frequent first, ties by value', () => {
+    expect(facets.fileType!.map(({ value, count }) => [value, count])).toEqual([['.pdf', 2], ['.md', 1]]);
+    expect(facets.tag!.map(({ value, count }) => [value, count])).toEqual([['finance', 2], ['q1', 1]]);
+    expect(facets.language!.map(({ value, count }) => [value, count])).toEqual([['english', 2]]);
+    expect(facets.month!.map(({ value, count }) => [value, count])).toEqual([['2024-12', 2], ['2025-01', 1]]);
+  });
+
+  it('limits the number of buckets', () => {
+    expect(computeFacets(documents, ['tag'], { buckets: 1 }).tag).toHaveLength(1);
+  });
+
+  it('gives each bucket a filter selecting exactly its documents', () => {
+    for (const buckets of Object.values(facets)) {
+      for (const bucket of buckets!) {
+        const filter = MetadataFilter.parse(bucket.filter);
+        expect(documents.filter(document => filter.matches(document))).toHaveLength(bucket.count);
+      }
+    }
+    expect(facets.author![0].filter).toBe('pdfInfo.author = "Ada \\"The Countess\\" Lovelace"');
+    expect(facets.month![0].filter).toBe('processedAt >= 2024-12-01 and processedAt < 2025-01-01');
+  });
+
+  it('counts chunk and annotation tags when given the store\'s tags, matching what the bucket filters select', () => {
+    const store = new DocumentStore(new MemoryStorageBackend());
+    for (const document of documents) {
+      store.addDocument(document);
+      store.addChunks(document.id, paragraphChunks(document));
+    }
+    store.tagChunk('b', 'b-0', ['q1']);
+    store.addAnnotation('c', { startChar: 0, endChar: 1, note: 'Check', tags: ['q1'] });
+
+    const tags = computeFacets(store.getAllDocuments(), ['tag'], { tagsOf: document => store.tagsOf(document) }).tag!;
+
+    expect(tags.map(({ value, count }) => [value, count])).toEqual([['q1', 3], ['finance', 2]]);
+    for (const bucket of tags) {
+      expect(store.getAllDocuments({ where: bucket.filter })).toHaveLength(bucket.count);
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import { splitSentences } from '../sentences';
+
+const texts = (text: string): string[] => splitSentences(text).map(sentence => sentence.text);
+
+describe('splitSentences', () => {
+  it('ends sentences at terminal punctuation followed by whitespace', () => {
+    expect(texts('It rained. Then it stopped! Did it? Yes… it did.')).toEqual([
+      'It rained.',
+      'Then it stopped!',
+      'Did it?',
+      'Yes… it did.',
+    ]);
+  });
+
+  it('does not end at abbreviations, initials, decimals or before a lowercase word', () => {
+    expect(texts('Dr. Smith met J. R. Doe at 5 p.m. on Jan. 3. Version 2.5 shipped, e.g. today.')).toEqual([
+      'Dr. Smith met J. R. Doe at 5 p.m. on Jan. 3.',
+      'Version 2.5 shipped, e.g. today.',
+    ]);
+    expect(texts('"Really?" she asked.')).toEqual(['"Really?" she asked.']);
+  });
+
+  it('keeps closing quotes and brackets with their sentence', () => {
+    expect(texts('He said "stop." (It worked.) Done.')).toEqual(['He said "stop."', '(It worked.)', 'Done.']);
+  });
+
+  it('lets headings, paragraphs and list items stand alone', () => {
+    expect(texts('# Setup\nInstall it first\n\nThen configure it\n1. Open the file\n2. Save it\n- Restart')).toEqual([
+      '# Setup',
+      'Install it first',
+      'Then configure it',
+      '1. Open the file',
+      '2. Save it',
+      '- Restart',
+    ]);
+  });
+
+  it('reports offsets into the original text and skips fragments without words', () => {
+    const text = '  First one.   Second one.\n\n---\n\n';
+    const sentences = splitSentences(text);
+
+    expect(sentences.map(sentence => sentence.text)).toEqual(['First one.', 'Second one.']);
+    sentences.forEach(sentence => expect(text.slice(sentence.start, sentence.end)).toBe(sentence.text));
+  });
+});
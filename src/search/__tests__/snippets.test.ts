@@ -0,0 +1,87 @@
+import { DocumentChunk } from '../../core/types';
+import { buildSnippet, markSnippet, pageAt, previewHit } from '../snippets';
+import { resolveAnalyzer } from '../TextAnalyzer';
+import { makeDocument } from '../../__tests__/fixtures';
+
+const chunkOf = (content: string, startChar = 0): DocumentChunk => ({
+  id: 'doc-0',
+  documentId: 'doc',
+  content,
+  index: 0,
+  metadata: { startChar, endChar: startChar + content.length },
+});
+
+const highlighted = (snippet: { text: string; highlights: Array<{ start: number; end: number }> }) =>
+  snippet.highlights.map(span => snippet.text.slice(span.start, span.end));
+
+const filler = (words: number) => Array.from({ length: words }, (_, i) => `word${i}`).join(' ');
+
+describe('buildSnippet', () => {
+  it('keeps a short chunk whole, marking every query term', () => {
+    const snippet = buildSnippet(chunkOf('Solar power is cheap.\nSolar panels last.'), 'solar panels');
+
+    expect(snippet.text).toBe('Solar power is cheap. Solar panels last.');
+    expect(highlighted(snippet)).toEqual(['Solar', 'Solar', 'panels']);
+    expect([snippet.truncatedStart, snippet.truncatedEnd]).toEqual([false, false]);
+  });
+
+  it('centres on the window covering the most distinct terms, cut at word boundaries', () => {
+    const content = `wind ${filler(60)} solar panels on the roof ${filler(60)}`;
+    const snippet = buildSnippet(chunkOf(content, 1000), 'solar panels roof', undefined, 80);
+
+    expect(highlighted(snippet)).toEqual(['solar', 'panels', 'roof']);
+    expect(snippet.text.startsWith('word')).toBe(true);
+    expect(content).toContain(snippet.text);
+    expect(snippet.startChar).toBe(1000 + content.indexOf(snippet.text));
+    expect(snippet.endChar - snippet.startChar).toBe(snippet.text.length);
+    expect([snippet.truncatedStart, snippet.truncatedEnd]).toEqual([true, true]);
+  });
+
+  it('falls back to the start of the chunk when no term occurs', () => {
+    const snippet = buildSnippet(chunkOf(`Intro ${filler(80)}`), 'nowhere', undefined, 50);
+
+    expect(snippet.text.startsWith('Intro')).toBe(true);
+    expect(snippet.highlights).toEqual([]);
+    expect(snippet.truncatedEnd).toBe(true);
+  });
+
+  it('matches inflected forms against analyzed index terms', () => {
+    const analyzer = resolveAnalyzer({ language: 'english' });
+    const snippet = buildSnippet(chunkOf('She was running and runs daily.'), analyzer.analyze('run'), analyzer);
+
+    expect(highlighted(snippet)).toEqual(['running', 'runs']);
+  });
+});
+
+describe('markSnippet', () => {
+  it('wraps highlights in mark, escapes the rest and shows truncation', () => {
+    const html = markSnippet({
+      text: 'a <b> & x',
+      highlights: [{ start: 8, end: 9 }],
+      startChar: 5,
+      endChar: 14,
+      truncatedStart: true,
+      truncatedEnd: false,
+    });
+
+    expect(html).toBe('…a &lt;b&gt; &amp; <mark>x</mark>');
+  });
+});
+
+describe('pages', () => {
+  it('finds the page holding an offset', () => {
+    expect(pageAt([0, 100, 250], 0)).toBe(1);
+    expect(pageAt([0, 100, 250], 100)).toBe(2);
+    expect(pageAt([0, 100, 250], 999)).toBe(3);
+    expect(pageAt(undefined, 10)).toBeUndefined();
+  });
+
+  it('reports the page of the first highlight in previews', () => {
+    const document = makeDocument('doc', 'x'.repeat(120), { pageOffsets: [0, 100] });
+    const chunk = chunkOf('Page two mentions budgets.', 95);
+
+    const preview = previewHit(document, { chunk, score: 0.5 }, 'budgets');
+
+    expect(preview).toEqual(expect.objectContaining({ chunkId: 'doc-0', startChar: 95, page: 2, score: 0.5 }));
+  });
+});
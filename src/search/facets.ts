@@ -0,0 +1,120 @@
+import { Document } from '../core/types';
+
+export const FACETS = ['fileType', 'author', 'tag', 'language', 'month'] as const;
+
+export type FacetName = typeof FACETS[number];
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+  // Metadata filter (`where` syntax) that narrows results to this bucket
+  filter: string;
+}
+
+export type FacetCounts = Partial<Record<FacetName, FacetBucket[]>>;
+
+export interface FacetOptions {
+  // Buckets returned per facet, most frequent first
+  buckets?: number;
+  // Tags counted for a document; its own tags unless given
+  tagsOf?: (document: Document) => string[];
+}
+
+// Metadata paths accepted in place of facet names
+const FACET_ALIASES: Record<string, FacetName> = {
+  'pdfInfo.author': 'author',
+  tags: 'tag',
+  processedAt: 'month',
+  type: 'fileType',
+};
+
+const DEFAULT_BUCKETS = 10;
+
+/**
+ * The facet a name refers to, accepting metadata paths such as
+ * `pdfInfo.author` as aliases.
+ */
+export const resolveFacet = (name: string): FacetName | undefined =>
+  FACET_ALIASES[name] || FACETS.find(facet => facet === name);
+
+/**
+ * Facet names from a request, deduplicated. Throws for unknown names.
+ */
+export const parseFacets = (names: string[]): FacetName[] => {
+  const facets = names.map(name => {
+    const facet = resolveFacet(name);
+    if (!facet) {
+      throw new Error(`Unknown facet "${name}" (use ${FACETS.join(', ')})`);
+    }
+    return facet;
+  });
+  return Array.from(new Set(facets));
+};
+
+/**
+ * Bucket counts of the requested facets over a set of documents. Tags count
+ * once per tagged document, taken from `tagsOf` so they agree with the tags
+ * the bucket filters match; months are those of `processedAt`.
+ */
+export const computeFacets = (
+  documents: Document[],
+  facets: FacetName[],
+  { buckets = DEFAULT_BUCKETS, tagsOf = document => document.tags || [] }: FacetOptions = {}
+): FacetCounts => {
+  const counts: FacetCounts = {};
+  for (const facet of facets) {
+    const tally = new Map<string, number>();
+    for (const document of documents) {
+      for (const value of new Set(facetValues(document, facet, tagsOf))) {
+        tally.set(value, (tally.get(value) || 0) + 1);
+      }
+    }
+
+    counts[facet] = Array.from(tally)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, buckets)
+      .map(([value, count]) => ({ value, count, filter: facetFilter(facet, value) }));
+  }
+  return counts;
+};
+
+const facetValues = (document: Document, facet: FacetName, tagsOf: (document: Document) => string[]): string[] => {
+  const metadata = document.metadata;
+  switch (facet) {
+    case 'fileType':
+      return present(metadata.fileType);
+    case 'author':
+      return present(metadata.pdfInfo?.author);
+    case 'tag':
+      return tagsOf(document).flatMap(present);
+    case 'language':
+      return present(metadata.language);
+    case 'month': {
+      const processedAt = metadata.processedAt ? new Date(metadata.processedAt) : undefined;
+      return processedAt && !isNaN(processedAt.getTime()) ? [processedAt.toISOString().slice(0, 7)] : [];
+    }
+  }
+};
+
+const facetFilter = (facet: FacetName, value: string): string => {
+  switch (facet) {
+    case 'fileType':
+      return `fileType = ${quote(value)}`;
+    case 'author':
+      return `pdfInfo.author = ${quote(value)}`;
+    case 'tag':
+      return `tags = ${quote(value)}`;
+    case 'language':
+      return `language = ${quote(value)}`;
+    case 'month': {
+      const [year, month] = value.split('-').map(Number);
+      const next = month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+      return `processedAt >= ${value}-01 and processedAt < ${next}-01`;
+    }
+  }
+};
+
+const present = (value: unknown): string[] =>
+  typeof value === 'string' && value.trim() ? [value.trim()] : [];
+
+const quote = (value: string): string => `"${value.replace(/["\\]/g, '\\$&')}"`;
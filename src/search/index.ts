@@ -0,0 +1,38 @@
+export { MetadataFilter, FilterParseError } from './MetadataFilter';
+export { BM25Index } from './BM25Index';
+export {
+  TextAnalyzer,
+  LANGUAGES,
+  TOKEN_PATTERN,
+  tokenize,
+  normalizeText,
+  foldAccents,
+  detectLanguage,
+  resolveAnalyzer,
+  extractKeywords
+} from './TextAnalyzer';
+export { VectorIndex } from './VectorIndex';
+export { HybridRetriever, hybridRetriever } from './HybridRetriever';
+export { LexicalReranker, LlmReranker } from './Reranker';
+export { QueryExpander, queryExpander, splitQuestion } from './QueryExpander';
+export { FACETS, resolveFacet, parseFacets, computeFacets } from './facets';
+export { SearchQuery, QueryParseError } from './QueryParser';
+export { buildSnippet, previewHit, markSnippet, pageAt } from './snippets';
+export { splitSentences } from './sentences';
+
+export type {
+  FilterNode,
+  FilterValue,
+  ComparisonOperator
+} from './MetadataFilter';
+
+export type { QueryNode, QueryTarget, QueryMatcher } from './QueryParser';
+export type { ScoredKey } from './BM25Index';
+export type { Language, AnalysisSettings } from './TextAnalyzer';
+export type { VectorSearchOptions } from './VectorIndex';
+export type { RetrievalOptions } from './HybridRetriever';
+export type { Reranker, LlmRerankStrategy } from './Reranker';
+export type { ExpandedQuery, ExpansionSource, ExpansionOptions } from './QueryExpander';
+export type { FacetName, FacetBucket, FacetCounts, FacetOptions } from './facets';
+export type { Snippet, HighlightSpan, HitPreview } from './snippets';
+export type { SentenceSpan } from './sentences';
@@ -0,0 +1,63 @@
+export interface SentenceSpan {
+  text: string;
+  // Offsets within the segmented text
+  start: number;
+  end: number;
+}
+
+// Abbreviations whose full stop does not end a sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'al',
+  'inc', 'ltd', 'co', 'corp', 'no', 'nr', 'fig', 'approx', 'dept', 'est', 'vol', 'p', 'pp',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+// Sentence-final punctuation (with closing quotes or brackets), paragraph breaks,
+// list items and the ends of Markdown headings
+const BOUNDARY_PATTERN = /[.!?…]+["'”’)\]]*(?=\s|$)|\n[ \t]*\n\s*|\n(?=[ \t]*(?:[-*•]|\d+[.)])[ \t])|(?<=(?:^|\n)[ \t]*#{1,6}[ \t][^\n]*)\n/g;
+
+/**
+ * Splits text into sentences with their offsets. Sentences end at terminal
+ * punctuation followed by whitespace, except before a lowercase word or when a
+ * full stop follows a common abbreviation or initial, and at paragraph breaks,
+ * list items and heading lines, so headings and bullet points stand alone.
+ */
+export const splitSentences = (text: string): SentenceSpan[] => {
+  const sentences: SentenceSpan[] = [];
+  let start = 0;
+  for (const match of text.matchAll(BOUNDARY_PATTERN)) {
+    const end = match.index! + match[0].length;
+    if (/^[.!?…]/.test(match[0]) && !endsSentence(text, match.index!, end)) continue;
+
+    pushSentence(sentences, text, start, end);
+    start = end;
+  }
+  pushSentence(sentences, text, start, text.length);
+  return sentences;
+};
+
+const endsSentence = (text: string, mark: number, end: number): boolean => {
+  if (text[mark] === '.') {
+    const before = text.slice(text.lastIndexOf('\n', mark - 1) + 1, mark);
+    const word = before.match(/(\S+)$/)?.[1].toLowerCase().replace(/^["'“‘(\[]+/, '');
+    if (word && (ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word))) {
+      return false;
+    }
+    // The number of a numbered list item
+    if (/^[ \t]*\d+$/.test(before)) {
+      return false;
+    }
+  }
+  const next = text.slice(end).match(/\S/)?.[0];
+  return !next || !/\p{Ll}/u.test(next);
+};
+
+// Adds the trimmed text between two offsets, unless it holds no words
+const pushSentence = (sentences: SentenceSpan[], text: string, from: number, to: number): void => {
+  const raw = text.slice(from, to);
+  const lead = raw.length - raw.trimStart().length;
+  const sentence = raw.trim();
+  if (/[\p{L}\p{N}]/u.test(sentence)) {
+    sentences.push({ text: sentence, start: from + lead, end: from + lead + sentence.length });
+  }
+};
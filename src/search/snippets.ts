@@ -0,0 +1,160 @@
+import { Document, DocumentChunk, ChunkHit } from '../core/types';
+import { tokenize, TOKEN_PATTERN, TextAnalyzer } from './TextAnalyzer';
+
+export interface HighlightSpan {
+  // Offsets within the snippet text
+  start: number;
+  end: number;
+}
+
+export interface HitPreview {
+  chunkId: string;
+  chunkIndex: number;
+  // The chunk's range within the document
+  startChar: number;
+  endChar: number;
+  // Page of the snippet, for documents with page information
+  page?: number;
+  score: number;
+  snippet: Snippet;
+}
+
+export interface Snippet {
+  text: string;
+  highlights: HighlightSpan[];
+  // Offsets of the snippet within the document
+  startChar: number;
+  endChar: number;
+  // Whether text was cut before or after the snippet
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+// Context kept before the first match in a snippet window
+const LEAD_IN = 40;
+
+/**
+ * The passage of a chunk that covers the most distinct query terms, trimmed
+ * to word boundaries, with every term occurrence marked. Falls back to the
+ * start of the chunk when no term occurs in it (e.g. semantic-only hits).
+ * With an analyzer, `query` holds index terms and the chunk's words are
+ * analyzed before comparison, so "running" is marked for the term "run".
+ */
+export const buildSnippet = (
+  chunk: DocumentChunk,
+  query: string | string[],
+  analyzer?: TextAnalyzer,
+  maxLength = 220
+): Snippet => {
+  const terms = new Set(Array.isArray(query) ? query : tokenize(query));
+  const content = chunk.content;
+
+  const matches: HighlightSpan[] = [];
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const word = analyzer ? analyzer.term(match[0]) : tokenize(match[0])[0];
+    if (word && terms.has(word)) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  let start = 0;
+  let bestCoverage = -1;
+  for (const match of matches) {
+    const windowStart = Math.max(0, match.start - LEAD_IN);
+    const covered = new Set(
+      matches
+        .filter(other => other.start >= windowStart && other.end <= windowStart + maxLength)
+        .map(other => content.slice(other.start, other.end).toLowerCase())
+    );
+    if (covered.size > bestCoverage) {
+      bestCoverage = covered.size;
+      start = windowStart;
+    }
+  }
+
+  let end = Math.min(content.length, start + maxLength);
+  // Snap to word boundaries so the snippet never starts or ends mid-word
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space >= 0 && space < (matches.find(match => match.start >= start)?.start ?? end)) {
+      start = space + 1;
+    }
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    if (space > start) {
+      end = space;
+    }
+  }
+
+  const text = content.slice(start, end);
+  return {
+    text: text.replace(/\s/g, ' '),
+    highlights: matches
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ start: match.start - start, end: match.end - start })),
+    startChar: chunk.metadata.startChar + start,
+    endChar: chunk.metadata.startChar + end,
+    truncatedStart: chunk.metadata.startChar + start > 0,
+    truncatedEnd: end < content.length,
+  };
+};
+
+/**
+ * Where and why a chunk matched: its offsets, page and highlighted snippet.
+ */
+export const previewHit = (
+  document: Document,
+  hit: ChunkHit,
+  query: string | string[],
+  analyzer?: TextAnalyzer
+): HitPreview => {
+  const snippet = buildSnippet(hit.chunk, query, analyzer);
+  return {
+    chunkId: hit.chunk.id,
+    chunkIndex: hit.chunk.index,
+    startChar: hit.chunk.metadata.startChar,
+    endChar: hit.chunk.metadata.endChar,
+    page: pageAt(document.metadata.pageOffsets, snippet.startChar + (snippet.highlights[0]?.start ?? 0)),
+    score: hit.score,
+    snippet,
+  };
+};
+
+/**
+ * The snippet as HTML, with highlights wrapped in `<mark>` and everything else
+ * escaped.
+ */
+export const markSnippet = (snippet: Snippet): string => {
+  let html = snippet.truncatedStart ? '…' : '';
+  let position = 0;
+  for (const span of snippet.highlights) {
+    html += escapeHtml(snippet.text.slice(position, span.start));
+    html += `<mark>${escapeHtml(snippet.text.slice(span.start, span.end))}</mark>`;
+    position = span.end;
+  }
+  return html + escapeHtml(snippet.text.slice(position)) + (snippet.truncatedEnd ? '…' : '');
+};
+
+/**
+ * 1-based page containing a character offset, given the offset at which each
+ * page starts; undefined when the document has no page information.
+ */
+export const pageAt = (pageOffsets: number[] | undefined, offset: number): number | undefined => {
+  if (!pageOffsets || pageOffsets.length === 0) {
+    return undefined;
+  }
+
+  let page = 0;
+  while (page + 1 < pageOffsets.length && pageOffsets[page + 1] <= offset) {
+    page++;
+  }
+  return page + 1;
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
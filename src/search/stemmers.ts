@@ -0,0 +1,190 @@
+import { Language } from './TextAnalyzer';
+
+export type Stemmer = (word: string) => string;
+
+/**
+ * Reduces a lowercase word to its stem. English uses the Porter algorithm;
+ * the other languages use light suffix stripping, which mostly conflates
+ * singular and plural and common derivational endings.
+ */
+export const STEMMERS: Record<Language, Stemmer> = {
+  english: word => porter(word),
+  french: word => stripSuffix(word, [
+    ['issements', ''], ['issement', ''], ['atrices', ''], ['atrice', ''], ['ateurs', ''], ['ateur', ''],
+    ['ations', ''], ['ation', ''], ['ements', ''], ['ement', ''], ['ités', ''], ['ité', ''],
+    ['euses', ''], ['euse', ''], ['ives', 'if'], ['ive', 'if'], ['eaux', 'eau'], ['aux', 'al'],
+    ['es', ''], ['s', ''], ['x', ''], ['e', ''], ['é', ''],
+  ]),
+  german: word => stripSuffix(word, [
+    ['ungen', 'ung'], ['heiten', 'heit'], ['keiten', 'keit'], ['ern', ''], ['em', ''], ['en', ''],
+    ['er', ''], ['es', ''], ['e', ''], ['s', ''], ['n', ''],
+  ]),
+  spanish: word => stripSuffix(word, [
+    ['amientos', ''], ['imientos', ''], ['amiento', ''], ['imiento', ''], ['aciones', ''], ['ación', ''],
+    ['adoras', ''], ['adores', ''], ['adora', ''], ['ador', ''], ['ancias', ''], ['ancia', ''],
+    ['idades', ''], ['idad', ''], ['mente', ''], ['ismos', ''], ['ismo', ''], ['istas', ''], ['ista', ''],
+    ['ces', 'z'], ['es', ''], ['os', ''], ['as', ''], ['s', ''], ['o', ''], ['a', ''], ['e', ''],
+  ]),
+  italian: word => stripSuffix(word, [
+    ['azioni', ''], ['azione', ''], ['amenti', ''], ['amento', ''], ['mente', ''], ['ità', ''],
+    ['ismi', ''], ['ismo', ''], ['iste', ''], ['ista', ''], ['i', ''], ['e', ''], ['a', ''], ['o', ''],
+  ]),
+  portuguese: word => stripSuffix(word, [
+    ['amentos', ''], ['amento', ''], ['ações', ''], ['ação', ''], ['idades', ''], ['idade', ''],
+    ['mente', ''], ['ismos', ''], ['ismo', ''], ['istas', ''], ['ista', ''], ['ões', 'ão'], ['ães', 'ão'],
+    ['s', ''], ['a', ''], ['o', ''], ['e', ''],
+  ]),
+  dutch: word => stripSuffix(word, [
+    ['heden', 'heid'], ['ingen', 'ing'], ['lijke', 'lijk'], ['en', ''], ['s', ''], ['e', ''],
+  ]),
+};
+
+// Stems are never cut shorter than this
+const MIN_STEM = 3;
+
+// Applies the first (i.e. longest listed) matching suffix rule. Rules also match
+// accent-folded words, so "resumes" and "résumés" reduce alike.
+const stripSuffix = (word: string, rules: Array<[string, string]>): string => {
+  for (const [suffix, replacement] of rules) {
+    for (const form of new Set([suffix, stripMarks(suffix)])) {
+      if (word.endsWith(form) && word.length - form.length >= MIN_STEM) {
+        return word.slice(0, -form.length) + replacement;
+      }
+    }
+  }
+  return word;
+};
+
+const stripMarks = (text: string): string => text.normalize('NFD').replace(/\p{M}+/gu, '').normalize('NFC');
+
+// --- Porter (1980) ---
+
+const isConsonant = (word: string, i: number): boolean => {
+  const char = word[i];
+  if ('aeiou'.includes(char)) return false;
+  if (char === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+};
+
+// Number of vowel-consonant sequences ("m" in the paper) in the stem
+const measure = (stem: string): number => {
+  let count = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    count++;
+  }
+  return count;
+};
+
+const hasVowel = (stem: string): boolean => {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+};
+
+const endsWithDoubleConsonant = (word: string): boolean =>
+  word.length >= 2 && word[word.length - 1] === word[word.length - 2] && isConsonant(word, word.length - 1);
+
+// consonant-vowel-consonant, where the last consonant is not w, x or y
+const endsWithCvc = (word: string): boolean => {
+  const n = word.length;
+  return n >= 3 &&
+    isConsonant(word, n - 3) && !isConsonant(word, n - 2) && isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1]);
+};
+
+// Replaces the first matching suffix when the remaining stem has a measure above `minMeasure`
+const replaceSuffix = (word: string, rules: Array<[string, string]>, minMeasure: number): string => {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+};
+
+const STEP2: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'],
+  ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'],
+  ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log'],
+];
+
+const STEP3: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+const STEP4 = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou', 'ism',
+  'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+const porter = (input: string): string => {
+  if (input.length <= 2 || !/^[a-z]+$/.test(input)) {
+    return input;
+  }
+  let word = input;
+
+  // Step 1a: plurals
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -2);
+  else if (!word.endsWith('ss') && word.endsWith('s')) word = word.slice(0, -1);
+
+  // Step 1b: -ed and -ing
+  let cleanup = false;
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else if (word.endsWith('ed') && hasVowel(word.slice(0, -2))) {
+    word = word.slice(0, -2);
+    cleanup = true;
+  } else if (word.endsWith('ing') && hasVowel(word.slice(0, -3))) {
+    word = word.slice(0, -3);
+    cleanup = true;
+  }
+  if (cleanup) {
+    if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+      word += 'e';
+    } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+      word = word.slice(0, -1);
+    } else if (measure(word) === 1 && endsWithCvc(word)) {
+      word += 'e';
+    }
+  }
+
+  // Step 1c: terminal y
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i';
+  }
+
+  word = replaceSuffix(word, STEP2, 0);
+  word = replaceSuffix(word, STEP3, 0);
+
+  // Step 4: drop derivational suffixes from long stems
+  for (const suffix of STEP4) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      if (measure(stem) > 1 && (suffix !== 'ion' || /[st]$/.test(stem))) {
+        word = stem;
+      }
+      break;
+    }
+  }
+
+  // Step 5: final e and double l
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) word = stem;
+  }
+  if (word.endsWith('ll') && measure(word) > 1) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+};
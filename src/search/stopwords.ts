@@ -0,0 +1,65 @@
+import { Language } from './TextAnalyzer';
+
+/**
+ * Function words dropped from indexes and queries, per language. Lists are
+ * lowercase and keep their accents; analyzers fold them as needed.
+ */
+export const STOPWORDS: Record<Language, string[]> = {
+  english: [
+    'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+    'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could',
+    'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has',
+    'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'i', 'if',
+    'in', 'into', 'is', 'it', "it's", 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself', 'no',
+    'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves',
+    'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their',
+    'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to',
+    'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while',
+    'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself', 'yourselves',
+  ],
+  french: [
+    'au', 'aux', 'avec', 'ce', 'ces', 'cette', 'dans', 'de', 'des', 'du', 'elle', 'elles', 'en', 'est',
+    'et', 'eux', 'il', 'ils', 'je', 'la', 'le', 'les', 'leur', 'leurs', 'lui', 'ma', 'mais', 'me', 'mes',
+    'moi', 'mon', 'même', 'ne', 'nos', 'notre', 'nous', 'on', 'ou', 'où', 'par', 'pas', 'pour', 'qu',
+    'que', 'qui', 'sa', 'se', 'ses', 'son', 'sont', 'sur', 'ta', 'te', 'tes', 'toi', 'ton', 'tu', 'un',
+    'une', 'vos', 'votre', 'vous', 'été', 'être', 'avoir', 'ai', 'as', 'avons', 'avez', 'ont', 'était',
+    'sera', 'plus', 'aussi', 'comme', 'si', 'sans', 'sous', 'entre', 'tout', 'tous', 'cela', 'ça',
+  ],
+  german: [
+    'aber', 'als', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'bist', 'da', 'damit', 'dann',
+    'das', 'dass', 'dein', 'dem', 'den', 'der', 'des', 'die', 'dies', 'diese', 'dieser', 'doch', 'du',
+    'durch', 'ein', 'eine', 'einem', 'einen', 'einer', 'eines', 'er', 'es', 'für', 'hat', 'hatte', 'hier',
+    'ich', 'ihr', 'ihre', 'im', 'in', 'ist', 'ja', 'kann', 'kein', 'keine', 'mit', 'man', 'mein', 'mich',
+    'mir', 'nach', 'nicht', 'noch', 'nur', 'ob', 'oder', 'ohne', 'sein', 'sich', 'sie', 'sind', 'so',
+    'über', 'um', 'und', 'uns', 'unter', 'vom', 'von', 'vor', 'war', 'waren', 'was', 'weil', 'wenn',
+    'werden', 'wie', 'wir', 'wird', 'wo', 'zu', 'zum', 'zur',
+  ],
+  spanish: [
+    'a', 'al', 'algo', 'como', 'con', 'contra', 'cual', 'cuando', 'de', 'del', 'desde', 'donde', 'el',
+    'ella', 'ellas', 'ellos', 'en', 'entre', 'era', 'es', 'esa', 'ese', 'eso', 'esta', 'este', 'esto',
+    'fue', 'ha', 'han', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'muy', 'no',
+    'nos', 'o', 'para', 'pero', 'por', 'porque', 'que', 'qué', 'se', 'sea', 'si', 'sin', 'sobre', 'son',
+    'su', 'sus', 'también', 'te', 'tu', 'un', 'una', 'uno', 'unos', 'y', 'ya', 'yo',
+  ],
+  italian: [
+    'a', 'ad', 'al', 'alla', 'alle', 'anche', 'che', 'chi', 'come', 'con', 'da', 'dal', 'dalla', 'dei',
+    'del', 'della', 'delle', 'di', 'e', 'è', 'gli', 'ha', 'hanno', 'i', 'il', 'in', 'io', 'la', 'le',
+    'lei', 'lo', 'loro', 'lui', 'ma', 'mi', 'ne', 'nel', 'nella', 'noi', 'non', 'o', 'per', 'più', 'quel',
+    'quella', 'questa', 'questo', 'se', 'si', 'sono', 'su', 'sua', 'suo', 'sul', 'tra', 'tu', 'un',
+    'una', 'uno', 'voi',
+  ],
+  portuguese: [
+    'a', 'ao', 'aos', 'as', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'é', 'ela', 'elas',
+    'ele', 'eles', 'em', 'entre', 'era', 'essa', 'esse', 'esta', 'este', 'eu', 'foi', 'há', 'isso',
+    'isto', 'já', 'lhe', 'mais', 'mas', 'me', 'mesmo', 'na', 'nas', 'não', 'no', 'nos', 'o', 'os', 'ou',
+    'para', 'pela', 'pelo', 'por', 'que', 'se', 'sem', 'seu', 'sua', 'são', 'também', 'te', 'um', 'uma',
+    'você',
+  ],
+  dutch: [
+    'aan', 'al', 'als', 'bij', 'dan', 'dat', 'de', 'der', 'deze', 'die', 'dit', 'door', 'een', 'en',
+    'er', 'had', 'heb', 'hebben', 'heeft', 'het', 'hij', 'hoe', 'ik', 'in', 'is', 'je', 'kan', 'maar',
+    'me', 'met', 'mij', 'naar', 'niet', 'nog', 'nu', 'of', 'om', 'ons', 'ook', 'op', 'over', 'te', 'tot',
+    'uit', 'van', 'voor', 'was', 'wat', 'we', 'wel', 'werd', 'wie', 'wij', 'worden', 'zal', 'ze', 'zich',
+    'zij', 'zijn', 'zo',
+  ],
+};
@@ -3,7 +3,17 @@ import cors from 'cors';
 import path from 'path';
 import multer from 'multer';
 import { DocumentIntelligenceSystem } from './index';
-import { documentStore } from './core/types';
+import { documentStore, DEFAULT_COLLECTION } from './core/types';
+import { CursorError, pageRequest } from './core/pagination';
+import { FilterParseError, extractKeywords } from './search/index';
+import { documentRouter } from './routes/documents';
+import { adminRouter } from './routes/admin';
+import { searchRouter, qaOptions, qaOptionsError, describeAnswer } from './routes/search';
+import { questionAnswerer } from './analyzers/index';
+import { sessionRouter } from './routes/sessions';
+import { streamRouter } from './routes/stream';
+import { collectionRouter } from './routes/collections';
+import { parseList } from './routes/params';
 import fs from 'fs-extra';
 
 const app = express();
@@ -35,6 +45,7 @@ app.use(cors());
 app.use(express.json());
 app.use(express.static(path.join(__dirname, '..', 'public')));
 
+
 // Initialize system on startup
 let systemReady = false;
 
@@ -65,15 +76,14 @@ app.get('/api/health', (req, res) => {
 // Get system stats
 app.get('/api/stats', (req, res) => {
   try {
-    const documents = documentStore.getAllDocuments();
-    const totalSize = documents.reduce((acc, doc) => acc + doc.metadata.size, 0);
+    const stats = documentStore.getStats({ collections: parseList(req.query.collection) });
 
     res.json({
       success: true,
       data: {
-        totalDocuments: documents.length,
-        totalChunks: 0, // Simplified
-        totalSize
+        totalDocuments: stats.totalDocuments,
+        totalChunks: stats.totalChunks,
+        totalSize: stats.totalSize
       }
     });
   } catch (error) {
@@ -84,23 +94,37 @@ app.get('/api/stats', (req, res) => {
 // Get all documents
 app.get('/api/documents', (req, res) => {
   try {
-    const documents = documentStore.getAllDocuments();
+    const page = documentStore.getDocumentsPage({
+      collections: parseList(req.query.collection),
+      where: typeof req.query.where === 'string' ? req.query.where : undefined,
+      tags: parseList(req.query.tag)
+    }, pageRequest(req.query, 'processedAt'));
     res.json({
       success: true,
-      data: documents.map(doc => ({
+      pagination: { total: page.total, nextCursor: page.nextCursor, sort: page.sort, order: page.order },
+      data: page.items.map(doc => ({
         id: doc.id,
         filename: doc.metadata.filename,
+        collection: doc.metadata.collection || DEFAULT_COLLECTION,
         fileType: doc.metadata.fileType,
         size: doc.metadata.size,
         processedAt: doc.metadata.processedAt,
-        chunkCount: doc.metadata.chunkCount || 0
+        chunkCount: doc.metadata.chunkCount || 0,
+        tags: doc.tags || []
       }))
     });
   } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
+    const status = error instanceof FilterParseError || error instanceof CursorError ? 400 : 500;
+    res.status(status).json({ success: false, error: (error as Error).message });
   }
 });
 
+// Get, update and delete single documents, their chunks and history
+app.use('/api/documents', documentRouter);
+
+// Corpus export and import
+app.use('/api/admin', adminRouter);
+
 // Upload and process document
 app.post('/api/upload', upload.single('document'), async (req, res) => {
   try {
@@ -123,12 +147,14 @@ app.post('/api/upload', upload.single('document'), async (req, res) => {
     }
 
     const filePath = req.file.path;
-    const success = await system.processFile(filePath);
+    const result = await system.processFile(filePath, {
+      collection: req.body?.collection || undefined,
+      filename: req.file.originalname,
+      upload: true
+    });
 
-    if (success) {
-      // Find the processed document
-      const documents = documentStore.getAllDocuments();
-      const document = documents.find(doc => doc.metadata.filename === req.file!.originalname);
+    if (result) {
+      const document = documentStore.getDocument(result.documentId);
 
       res.json({
         success: true,
@@ -174,7 +200,7 @@ app.post('/api/analyze/:documentId', async (req, res) => {
     };
 
     const keywords = {
-      keywords: document.content.split(' ').slice(0, 10)
+      keywords: extractKeywords(document.content, documentStore.analyzerFor(document))
     };
 
     const insights = {
@@ -201,6 +227,45 @@ app.post('/api/analyze/:documentId', async (req, res) => {
   }
 });
 
+// Question answering across documents: the whole store, or the documents selected by id, collection, filter and tag
+app.post('/api/qa', async (req, res) => {
+  try {
+    if (!systemReady) {
+      return res.status(503).json({ success: false, error: 'System not ready' });
+    }
+
+    const { question, where } = req.body;
+    if (!question) {
+      return res.status(400).json({ success: false, error: 'Question is required' });
+    }
+    const optionsError = qaOptionsError(req.body);
+    if (optionsError) {
+      return res.status(400).json({ success: false, error: optionsError });
+    }
+    const documentIds = parseList(req.body.documentIds);
+    const missing = documentIds?.find(id => !documentStore.getDocument(id));
+    if (missing) {
+      return res.status(404).json({ success: false, error: `Document not found: ${missing}` });
+    }
+
+    const result = await questionAnswerer.answerAcrossDocuments(question, {
+      ...qaOptions(req.body),
+      documentIds,
+      collections: parseList(req.body.collections),
+      where: typeof where === 'string' ? where : undefined,
+      tags: parseList(req.body.tags)
+    });
+
+    res.json({
+      success: true,
+      data: describeAnswer(result)
+    });
+  } catch (error) {
+    const status = error instanceof FilterParseError ? 400 : 500;
+    res.status(status).json({ success: false, error: (error as Error).message });
+  }
+});
+
 // Question answering
 app.post('/api/qa/:documentId', async (req, res) => {
   try {
@@ -214,21 +279,21 @@ app.post('/api/qa/:documentId', async (req, res) => {
     if (!question) {
       return res.status(400).json({ success: false, error: 'Question is required' });
     }
+    const optionsError = qaOptionsError(req.body);
+    if (optionsError) {
+      return res.status(400).json({ success: false, error: optionsError });
+    }
 
     const document = documentStore.getDocument(documentId);
     if (!document) {
       return res.status(404).json({ success: false, error: 'Document not found' });
     }
 
-    // Simple Q&A - search for keywords in content
-    const answer = `Based on the document "${document.metadata.filename}", I can see content related to your question: "${question}". The document contains relevant information that might help answer your query.`;
+    const result = await questionAnswerer.answerQuestion(document, question, qaOptions(req.body));
 
     res.json({
       success: true,
-      data: {
-        question,
-        answer
-      }
+      data: describeAnswer(result)
     });
   } catch (error) {
     res.status(500).json({ success: false, error: (error as Error).message });
@@ -269,36 +334,17 @@ app.get('/api/questions/:documentId', async (req, res) => {
   }
 });
 
-// Search documents
-app.post('/api/search', async (req, res) => {
-  try {
-    const { query } = req.body;
-    
-    if (!query) {
-      return res.status(400).json({ success: false, error: 'Search query is required' });
-    }
+// Ranked search with highlighted snippets
+app.use('/api/search', searchRouter);
 
-    const documents = documentStore.getAllDocuments();
-    const results = documents.filter(doc => 
-      doc.content?.toLowerCase().includes(query.toLowerCase()) ||
-      doc.metadata.filename.toLowerCase().includes(query.toLowerCase())
-    );
+// Chat sessions with follow-up questions
+app.use('/api/sessions', sessionRouter);
 
-    res.json({
-      success: true,
-      data: {
-        query,
-        results: results.map(doc => ({
-          id: doc.id,
-          filename: doc.metadata.filename,
-          relevance: 'high'
-        }))
-      }
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
+// Token-by-token QA, summaries and analysis over Server-Sent Events
+app.use('/api/stream', streamRouter);
+
+// Create, list, rename, configure and delete collections
+app.use('/api/collections', collectionRouter);
 
 // Serve the frontend
 app.get('/', (req, res) => {
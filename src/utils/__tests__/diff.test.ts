@@ -0,0 +1,66 @@
+import { diffText } from '../diff';
+
+const lines = (count: number, prefix = 'line'): string[] =>
+  Array.from({ length: count }, (_, index) => `${prefix} ${index + 1}`);
+
+describe('diffText', () => {
+  it('reports no hunks for identical texts', () => {
+    expect(diffText('a\nb', 'a\nb')).toEqual({ added: 0, removed: 0, hunks: [] });
+  });
+
+  it('marks replaced lines as a removal and an addition, with numbered context', () => {
+    const diff = diffText('one\ntwo\nthree', 'one\nTWO\nthree');
+
+    expect(diff.added).toBe(1);
+    expect(diff.removed).toBe(1);
+    expect(diff.hunks).toHaveLength(1);
+    expect(diff.hunks[0]).toEqual({
+      section: null,
+      oldStart: 1,
+      oldLines: 3,
+      newStart: 1,
+      newLines: 3,
+      lines: [
+        { type: 'context', text: 'one', oldLine: 1, newLine: 1 },
+        { type: 'remove', text: 'two', oldLine: 2 },
+        { type: 'add', text: 'TWO', newLine: 2 },
+        { type: 'context', text: 'three', oldLine: 3, newLine: 3 },
+      ],
+    });
+  });
+
+  it('finds a minimal edit for insertions and deletions in the middle', () => {
+    const diff = diffText(['a', 'b', 'c', 'd'].join('\n'), ['a', 'x', 'b', 'd'].join('\n'));
+
+    expect(diff.added).toBe(1);
+    expect(diff.removed).toBe(1);
+    expect(diff.hunks[0].lines.filter(line => line.type !== 'context').map(line => `${line.type} ${line.text}`))
+      .toEqual(['add x', 'remove c']);
+  });
+
+  it('splits distant changes into separate hunks and merges nearby ones', () => {
+    const before = lines(20);
+    const distant = [...before];
+    distant[1] = 'changed 2';
+    distant[17] = 'changed 18';
+    const nearby = [...before];
+    nearby[5] = 'changed 6';
+    nearby[9] = 'changed 10';
+
+    const split = diffText(before.join('\n'), distant.join('\n'), 2);
+    expect(split.hunks.map(hunk => [hunk.oldStart, hunk.oldLines])).toEqual([[1, 4], [16, 5]]);
+    expect(diffText(before.join('\n'), nearby.join('\n'), 2).hunks).toHaveLength(1);
+  });
+
+  it('labels hunks with the section heading of the first change', () => {
+    const before = ['# Intro', 'Hello', '', '## Usage ##', ...lines(8, 'step')].join('\n');
+    const after = before.replace('step 6', 'step six');
+
+    expect(diffText(before, after, 1).hunks.map(hunk => hunk.section)).toEqual(['Usage']);
+    expect(diffText(before, before.replace('Hello', 'Hi'), 1).hunks[0].section).toBe('Intro');
+  });
+
+  it('treats CRLF and LF line endings alike', () => {
+    expect(diffText('a\r\nb', 'a\nb').hunks).toEqual([]);
+  });
+});
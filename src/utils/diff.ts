@@ -0,0 +1,192 @@
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  section: string | null;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface TextDiff {
+  added: number;
+  removed: number;
+  hunks: DiffHunk[];
+}
+
+type EditOp = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Line-level diff between two texts (Myers' algorithm), grouped into hunks
+ * with surrounding context. Each hunk is labelled with the nearest preceding
+ * markdown heading so changes can be read section by section.
+ */
+export const diffText = (oldText: string, newText: string, contextLines = 3): TextDiff => {
+  const oldLines = oldText.split(/\r?\n/);
+  const newLines = newText.split(/\r?\n/);
+  const ops = computeEditScript(oldLines, newLines);
+
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      lines.push({ type: 'context', text: op.text, oldLine: oldLine++, newLine: newLine++ });
+    } else if (op.type === 'delete') {
+      lines.push({ type: 'remove', text: op.text, oldLine: oldLine++ });
+    } else {
+      lines.push({ type: 'add', text: op.text, newLine: newLine++ });
+    }
+  }
+
+  return {
+    added: lines.filter(line => line.type === 'add').length,
+    removed: lines.filter(line => line.type === 'remove').length,
+    hunks: buildHunks(lines, contextLines, sectionIndex(oldLines), sectionIndex(newLines)),
+  };
+};
+
+const computeEditScript = (a: string[], b: string[]): EditOp[] => {
+  // Common prefix and suffix never take part in the search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const head: EditOp[] = a.slice(0, prefix).map(text => ({ type: 'equal', text }));
+  const tail: EditOp[] = a.slice(a.length - suffix).map(text => ({ type: 'equal', text }));
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+  return [...head, ...middle, ...tail];
+};
+
+const myers = (a: string[], b: string[]): EditOp[] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, offset);
+      }
+    }
+  }
+
+  return [];
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[], offset: number): EditOp[] => {
+  const ops: EditOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', text: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', text: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+};
+
+// For each line, the heading of the section it belongs to
+const sectionIndex = (lines: string[]): Array<string | null> => {
+  let current: string | null = null;
+  return lines.map(line => {
+    const match = line.match(HEADING_PATTERN);
+    if (match) {
+      current = match[1];
+    }
+    return current;
+  });
+};
+
+const buildHunks = (
+  lines: DiffLine[],
+  contextLines: number,
+  oldSections: Array<string | null>,
+  newSections: Array<string | null>
+): DiffHunk[] => {
+  const changed = lines
+    .map((line, index) => (line.type === 'context' ? -1 : index))
+    .filter(index => index >= 0);
+  if (changed.length === 0) {
+    return [];
+  }
+
+  // Merge changes whose context windows overlap into one hunk
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const firstChange = hunkLines.find(line => line.type !== 'context')!;
+    const section = firstChange.newLine !== undefined
+      ? newSections[firstChange.newLine - 1]
+      : oldSections[firstChange.oldLine! - 1];
+
+    return {
+      section: section ?? null,
+      oldStart: hunkLines.find(line => line.oldLine !== undefined)?.oldLine ?? 0,
+      oldLines: hunkLines.filter(line => line.type !== 'add').length,
+      newStart: hunkLines.find(line => line.newLine !== undefined)?.newLine ?? 0,
+      newLines: hunkLines.filter(line => line.type !== 'remove').length,
+      lines: hunkLines,
+    };
+  });
+};
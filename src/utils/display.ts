@@ -1,7 +1,12 @@
 import Table from 'cli-table3';
 import chalk from 'chalk';
-import { Document, DocumentChunk } from '../core/types';
-import { SummaryResult, KeywordExtractionResult, InsightAnalysisResult } from '../analyzers/index';
+import { Document, DocumentChunk, CursorPage, DocumentVersionSummary, Collection, CollectionSummary, Annotation, SearchHit, ChatSession, ChatSessionSummary } from '../core/types';
+import { previewHit, Snippet } from '../search/snippets';
+import { TextAnalyzer } from '../search/TextAnalyzer';
+import { ExpandedQuery } from '../search/QueryExpander';
+import { FacetCounts } from '../search/facets';
+import { SummaryResult, KeywordExtractionResult, InsightAnalysisResult, QAResult, CorpusQAResult } from '../analyzers/index';
+import { TextDiff } from './diff';
 
 export class DisplayUtils {
   public static showDocumentInfo(document: Document): void {
@@ -26,7 +31,27 @@ export class DisplayUtils {
     console.log(chalk.gray(document.content.substring(0, 200) + '...'));
   }
 
-  public static showSummary(summary: SummaryResult): void {
+  /**
+   * Prints the heading for text that is streamed to the terminal, and returns
+   * the callback that writes each token as it arrives.
+   */
+  public static startStream(title: string): (token: string) => void {
+    console.log(chalk.bold(`\n${title}`));
+    console.log(chalk.blue('─'.repeat(50)));
+    return token => process.stdout.write(token);
+  }
+
+  /**
+   * With `streamed`, the model's reply is already on screen and only the
+   * statistics are added.
+   */
+  public static showSummary(summary: SummaryResult, streamed = false): void {
+    if (streamed) {
+      console.log();
+      console.log(chalk.gray(`\n📊 Word Count: ${summary.wordCount} | Confidence: ${summary.confidence}/10`));
+      return;
+    }
+
     console.log(chalk.bold('\n📋 Summary'));
     console.log(chalk.blue('─'.repeat(50)));
     console.log(summary.summary);
@@ -184,4 +209,288 @@ export class DisplayUtils {
       console.log(chalk.yellow(`${index + 1}. ${question}`));
     });
   }
+
+  /**
+   * With `streamed`, the answer text is already on screen; flagged claims,
+   * groundedness and sources are still shown.
+   */
+  public static showAnswer(result: QAResult, streamed = false): void {
+    if (streamed) {
+      console.log();
+    } else {
+      console.log(chalk.bold('\n💬 Answer'));
+      console.log(chalk.blue('─'.repeat(50)));
+    }
+    if (!result.found) {
+      console.log(chalk.yellow(result.answer));
+      return;
+    }
+
+    const markCitations = (text: string) => text.replace(/\[\d+(?:\s*,\s*\d+)*\]/g, marker => chalk.cyan(marker));
+    if (result.grounding) {
+      // Claims the passages do not back are flagged where they occur
+      result.claims.forEach(claim => {
+        if (claim.status === 'unsupported') {
+          console.log(chalk.red(`⚠ ${claim.text}`) + chalk.gray(' (not supported by the passages)'));
+        } else if (claim.status === 'partial') {
+          console.log(chalk.yellow(`~ ${claim.text}`) + chalk.gray(' (partly supported)'));
+        } else if (!streamed) {
+          console.log(`  ${markCitations(claim.text)}`);
+        }
+      });
+
+      const unsupported = result.claims.filter(claim => claim.status === 'unsupported').length;
+      const score = `${Math.round(result.grounding.score * 100)}%`;
+      console.log(chalk.gray(`\n🔍 Groundedness ${score} (${result.grounding.method} check)`) +
+        (unsupported > 0 ? chalk.red(`, ${unsupported} unsupported claim${unsupported === 1 ? '' : 's'}`) : ''));
+    } else if (!streamed) {
+      console.log(markCitations(result.answer));
+    }
+    if (result.engine === 'extractive' && result.confidence !== undefined) {
+      console.log(chalk.gray(`📌 Quoted from the passages, confidence ${Math.round(result.confidence * 100)}%`));
+    }
+    if (result.citations.length === 0) return;
+
+    console.log(chalk.bold('\n📎 Sources'));
+    result.citations.forEach(citation => {
+      const location = [
+        `chunk #${citation.chunkIndex + 1}`,
+        citation.page !== undefined ? `page ${citation.page}` : null,
+        `chars ${citation.startChar}-${citation.endChar}`
+      ].filter(Boolean).join(', ');
+
+      console.log(chalk.cyan(`[${citation.marker}]`) + ` ${citation.filename}` + chalk.gray(` — ${location} (${citation.chunkId})`));
+      console.log(`   ${this.highlightSnippet(citation.snippet)}`);
+    });
+  }
+
+  public static showSourceDocuments(result: CorpusQAResult): void {
+    if (result.consulted.length === 0) return;
+
+    const contributing = new Set(result.contributing.map(source => source.documentId));
+    console.log(chalk.bold(`\n📚 Documents consulted (${result.consulted.length}), ${result.contributing.length} contributing`));
+    result.consulted.forEach(source => {
+      const mark = contributing.has(source.documentId) ? chalk.green('✓') : chalk.gray('·');
+      console.log(`  ${mark} ${source.filename} ${chalk.gray(`(${source.documentId}) passages ${source.markers.join(', ')}`)}`);
+    });
+  }
+
+  public static showChatSessions(sessions: ChatSessionSummary[]): void {
+    const table = new Table({
+      head: [chalk.cyan('Session'), chalk.cyan('Title'), chalk.cyan('Scope'), chalk.cyan('Turns'), chalk.cyan('Last Active')],
+      style: { head: [], border: [] }
+    });
+
+    sessions.forEach(session => {
+      const scope = [
+        session.documentIds ? `${session.documentIds.length} document${session.documentIds.length === 1 ? '' : 's'}` : null,
+        session.collections ? session.collections.join(', ') : null
+      ].filter(Boolean).join('; ') || 'all documents';
+      table.push([
+        session.id,
+        (session.title || '').slice(0, 40),
+        scope,
+        String(session.turnCount),
+        session.updatedAt.toLocaleString()
+      ]);
+    });
+
+    console.log(chalk.bold('\n💬 Chat Sessions'));
+    console.log(table.toString());
+  }
+
+  public static showChatTranscript(session: ChatSession): void {
+    console.log(chalk.bold(`\n💬 ${session.title || session.turns[0]?.question || 'Chat session'}`) + chalk.gray(` (${session.id})`));
+    session.turns.forEach(turn => {
+      console.log(chalk.yellow(`\n❓ ${turn.question}`));
+      console.log(turn.found ? turn.answer : chalk.yellow(turn.answer));
+    });
+    if (session.turns.length === 0) {
+      console.log(chalk.gray('No questions asked yet'));
+    }
+  }
+
+  public static showVersionHistory(document: Document, versions: DocumentVersionSummary[]): void {
+    const table = new Table({
+      head: [chalk.cyan('Version'), chalk.cyan('Processed'), chalk.cyan('Size'), chalk.cyan('Chunks'), chalk.cyan('Hash')],
+      style: { head: [], border: [] }
+    });
+
+    versions.forEach(version => {
+      table.push([
+        version.current ? chalk.green(`${version.version} (current)`) : String(version.version),
+        version.processedAt?.toLocaleString() || '-',
+        this.formatFileSize(version.size),
+        String(version.chunkCount),
+        version.contentHash?.substring(0, 12) || '-'
+      ]);
+    });
+
+    console.log(chalk.bold(`\n🕘 Version History: ${document.metadata.filename}`));
+    console.log(table.toString());
+  }
+
+  public static showDiff(diff: TextDiff, fromVersion: number, toVersion: number): void {
+    console.log(chalk.bold(`\n🔀 Diff v${fromVersion} → v${toVersion}`));
+    console.log(chalk.gray(`${chalk.green(`+${diff.added}`)} ${chalk.red(`-${diff.removed}`)} lines in ${diff.hunks.length} hunks`));
+
+    if (diff.hunks.length === 0) {
+      console.log(chalk.gray('No differences'));
+      return;
+    }
+
+    diff.hunks.forEach(hunk => {
+      const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+      console.log(chalk.cyan(`\n${header}${hunk.section ? ` ${hunk.section}` : ''}`));
+      hunk.lines.forEach(line => {
+        if (line.type === 'add') {
+          console.log(chalk.green(`+ ${line.text}`));
+        } else if (line.type === 'remove') {
+          console.log(chalk.red(`- ${line.text}`));
+        } else {
+          console.log(chalk.gray(`  ${line.text}`));
+        }
+      });
+    });
+  }
+
+  public static showCollections(collections: CollectionSummary[]): void {
+    const table = new Table({
+      head: [chalk.cyan('Collection'), chalk.cyan('Documents'), chalk.cyan('Size'), chalk.cyan('Language'), chalk.cyan('Created'), chalk.cyan('Description')],
+      style: { head: [], border: [] }
+    });
+
+    collections.forEach(collection => {
+      table.push([
+        collection.name,
+        String(collection.documentCount),
+        this.formatFileSize(collection.totalSize),
+        collection.analysis?.language || 'auto',
+        collection.createdAt.toLocaleDateString(),
+        collection.description || ''
+      ]);
+    });
+
+    console.log(chalk.bold('\n📂 Collections'));
+    console.log(table.toString());
+  }
+
+  public static showGlossary(collection: Collection): void {
+    const entries = Object.entries(collection.glossary || {});
+    console.log(chalk.bold(`\n📖 Glossary of ${collection.name}`));
+    if (entries.length === 0) {
+      console.log(chalk.gray('(empty)'));
+      return;
+    }
+
+    entries
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([term, expansion]) => console.log(`${chalk.cyan(term)} → ${expansion}`));
+  }
+
+  public static showPageFooter(page: CursorPage<unknown>): void {
+    console.log(chalk.gray(`Showing ${page.items.length} of ${page.total} (sorted by ${page.sort} ${page.order})`));
+    if (page.nextCursor) {
+      console.log(chalk.gray(`Next page: --cursor ${page.nextCursor}`));
+    }
+  }
+
+  public static showFacets(facets: FacetCounts): void {
+    Object.entries(facets).forEach(([facet, buckets]) => {
+      console.log(chalk.bold(`\n📊 ${facet}`));
+      if (!buckets || buckets.length === 0) {
+        console.log(chalk.gray('  (no values)'));
+        return;
+      }
+
+      const width = Math.max(...buckets.map(bucket => bucket.value.length));
+      buckets.forEach(bucket => {
+        console.log(`  ${bucket.value.padEnd(width)}  ${chalk.cyan(String(bucket.count))}  ${chalk.gray(`--where '${bucket.filter}'`)}`);
+      });
+    });
+  }
+
+  public static showExpandedQueries(queries: ExpandedQuery[]): void {
+    if (queries.length === 0) return;
+
+    console.log(chalk.bold('\n🔀 Also searched for:'));
+    queries.forEach(query => console.log(`  ${chalk.gray(`[${query.source}]`)} ${query.text}`));
+  }
+
+  public static showAnnotations(document: Document, chunks: DocumentChunk[], annotations: Annotation[]): void {
+    console.log(chalk.bold(`\n🏷️  ${document.metadata.filename}`));
+    console.log(`Tags: ${document.tags?.length ? document.tags.map(tag => chalk.magenta(tag)).join(', ') : chalk.gray('(none)')}`);
+    if (document.notes) {
+      console.log(`Notes: ${document.notes}`);
+    }
+
+    chunks
+      .filter(chunk => chunk.tags?.length || chunk.notes)
+      .forEach(chunk => {
+        console.log(chalk.gray(`Chunk ${chunk.index + 1} (${chunk.id}): `) +
+          [chunk.tags?.map(tag => chalk.magenta(tag)).join(', '), chunk.notes].filter(Boolean).join(' — '));
+      });
+
+    if (annotations.length === 0) {
+      console.log(chalk.gray('\nNo annotations'));
+      return;
+    }
+
+    const table = new Table({
+      head: [chalk.cyan('ID'), chalk.cyan('Range'), chalk.cyan('Quote'), chalk.cyan('Note'), chalk.cyan('Tags')],
+      style: { head: [], border: [] },
+      colWidths: [38, 13, 40, 30, 20],
+      wordWrap: true
+    });
+
+    annotations.forEach(annotation => {
+      table.push([
+        annotation.id,
+        annotation.orphaned ? chalk.red('orphaned') : `${annotation.startChar}-${annotation.endChar}`,
+        annotation.quote.substring(0, 120) + (annotation.quote.length > 120 ? '...' : ''),
+        annotation.note || '',
+        annotation.tags.join(', ')
+      ]);
+    });
+
+    console.log(chalk.bold(`\n📌 Annotations (${annotations.length})`));
+    console.log(table.toString());
+  }
+
+  public static showSearchResults(
+    hits: SearchHit[],
+    terms: string[],
+    analyzerFor: (document: Document) => TextAnalyzer,
+    matchesPerHit = 2
+  ): void {
+    hits.forEach((hit, index) => {
+      console.log(chalk.bold(`\n${index + 1}. ${hit.document.metadata.filename}`) +
+        chalk.gray(` (${hit.document.id}) — score ${hit.score.toFixed(3)}`) +
+        (hit.rerankScore !== undefined ? chalk.gray(`, rerank ${hit.rerankScore.toFixed(3)}`) : ''));
+
+      hit.chunks.slice(0, matchesPerHit).forEach(chunkHit => {
+        const preview = previewHit(hit.document, chunkHit, terms, analyzerFor(hit.document));
+        const location = [
+          `chunk #${preview.chunkIndex + 1}`,
+          preview.page !== undefined ? `page ${preview.page}` : null,
+          `chars ${preview.snippet.startChar}-${preview.snippet.endChar}`,
+          `score ${preview.score.toFixed(3)}`,
+          chunkHit.rerankScore !== undefined ? `rerank ${chunkHit.rerankScore.toFixed(3)}` : null
+        ].filter(Boolean).join(', ');
+
+        console.log(chalk.gray(`   ${location}`));
+        console.log(`   ${this.highlightSnippet(preview.snippet)}`);
+      });
+    });
+  }
+
+  private static highlightSnippet(snippet: Snippet): string {
+    let text = snippet.truncatedStart ? '…' : '';
+    let position = 0;
+    snippet.highlights.forEach(span => {
+      text += snippet.text.slice(position, span.start) + chalk.bold.yellow(snippet.text.slice(span.start, span.end));
+      position = span.end;
+    });
+    return text + snippet.text.slice(position) + (snippet.truncatedEnd ? '…' : '');
+  }
 }
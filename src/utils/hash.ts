@@ -0,0 +1,5 @@
+import crypto from 'crypto';
+
+export const hashContent = (data: string | Buffer): string => {
+  return crypto.createHash('sha256').update(data).digest('hex');
+};
@@ -1,2 +1,5 @@
 export { Logger, logger } from './logger';
 export { DisplayUtils } from './display';
+export { hashContent } from './hash';
+export { diffText } from './diff';
+export type { TextDiff, DiffHunk, DiffLine, DiffLineType } from './diff';